@@ -0,0 +1,113 @@
+/**
+ * API Schema Module
+ *
+ * Zod schemas for HTTP request bodies. Amounts are in major units and
+ * dates are YYYY-MM-DD, as in policy files and scenario suites; the
+ * helpers below turn them into domain expenses and employees.
+ */
+
+import { z } from "zod";
+import type { Employee } from "../domain/employee";
+import { type Expense, ExpenseCategory } from "../domain/expense";
+import { moneyFromMajor } from "../utils/money";
+
+const objectError = { error: "must be an object" };
+
+const nonEmpty = z
+	.string({ error: "must be a string" })
+	.min(1, { error: "must not be empty" });
+
+const isoDay = z.iso
+	.date({ error: "must be a date in the form YYYY-MM-DD" })
+	.transform((day) => new Date(`${day}T00:00:00.000Z`));
+
+const currencyCode = z
+	.string({ error: "must be a string" })
+	.regex(/^[A-Z]{3}$/, { error: "must be a 3-letter ISO 4217 code" });
+
+export const ExpenseInputSchema = z.strictObject(
+	{
+		id: nonEmpty,
+		amount: z.number({ error: "must be a number" }),
+		currency: currencyCode,
+		category: z.enum(ExpenseCategory, {
+			error: `must be one of ${Object.values(ExpenseCategory).join(", ")}`,
+		}),
+		date: isoDay,
+		submittedAt: isoDay.optional(),
+	},
+	objectError,
+);
+
+export const EmployeeInputSchema = z.strictObject(
+	{
+		id: nonEmpty,
+		firstName: z.string({ error: "must be a string" }).default(""),
+		lastName: z.string({ error: "must be a string" }).default(""),
+		costCenterId: nonEmpty,
+		attributes: z
+			.record(z.string(), z.string({ error: "must be a string" }))
+			.optional(),
+	},
+	objectError,
+);
+
+const runOptions = {
+	/** Day expenses are judged as of (default: today). */
+	asOf: isoDay.optional(),
+	policyDate: z
+		.enum(["expense", "submission"], {
+			error: "must be one of expense, submission",
+		})
+		.optional(),
+};
+
+export const ValidateRequestSchema = z.strictObject(
+	{
+		expense: ExpenseInputSchema,
+		employee: EmployeeInputSchema,
+		...runOptions,
+		explain: z.boolean({ error: "must be true or false" }).optional(),
+	},
+	objectError,
+);
+
+export const BatchRequestSchema = z.strictObject(
+	{
+		expenses: z.array(
+			z.strictObject(
+				{ expense: ExpenseInputSchema, employee: EmployeeInputSchema },
+				objectError,
+			),
+			{ error: "must be a list" },
+		),
+		...runOptions,
+	},
+	objectError,
+);
+
+export type ExpenseInput = z.infer<typeof ExpenseInputSchema>;
+export type EmployeeInput = z.infer<typeof EmployeeInputSchema>;
+
+/**
+ * @throws {Error} If the amount cannot be represented in its currency
+ */
+export function toExpense(input: ExpenseInput): Expense {
+	return {
+		id: input.id,
+		amount: moneyFromMajor(input.amount, input.currency),
+		category: input.category,
+		date: input.date,
+		...(input.submittedAt && { submittedAt: input.submittedAt }),
+	};
+}
+
+export function toEmployee(input: EmployeeInput): Employee {
+	return {
+		id: input.id,
+		firstName: input.firstName,
+		lastName: input.lastName,
+		costCenterId: input.costCenterId,
+		...(input.attributes && { attributes: input.attributes }),
+	};
+}
@@ -0,0 +1,39 @@
+import "dotenv/config";
+import { AuditLog } from "../audit/audit-log";
+import { createFxProvider } from "../fx/config";
+import { createApiServer } from "./server";
+
+/**
+ * Starts the HTTP API on PORT (default 3000), serving the policies in
+ * POLICY_DIR with POLICY as the default (default "default"):
+ *   npm run serve
+ * Rates come from the FX_PROVIDER configuration, as for the analyzer, and
+ * every decision is logged to AUDIT_LOG when it is set.
+ * Lookups are not memoized as in batch runs, which keep a failed lookup
+ * for the rest of the run; historical rates still come from the disk cache.
+ */
+function main() {
+	const port = Number(process.env.PORT ?? 3000);
+	if (!Number.isInteger(port) || port < 0) {
+		throw new Error(`Invalid PORT: ${process.env.PORT as string}`);
+	}
+
+	const server = createApiServer({
+		rates: createFxProvider(),
+		defaultPolicy: process.env.POLICY,
+		audit:
+			process.env.AUDIT_LOG !== undefined
+				? new AuditLog(process.env.AUDIT_LOG)
+				: undefined,
+	});
+	server.listen(port, () => {
+		console.log(`Spending rules API listening on port ${port}`);
+	});
+}
+
+try {
+	main();
+} catch (err) {
+	console.error("API server failed:", err);
+	process.exit(1);
+}
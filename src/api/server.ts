@@ -0,0 +1,527 @@
+/**
+ * HTTP API Module
+ *
+ * Exposes the engine over HTTP with Node's built-in server:
+ * - POST /validate: one expense and its employee -> `ValidationResult`
+ * - POST /batch: a JSON list or a CSV upload (`gastos_historicos.csv`
+ *   layout, `Content-Type: text/csv`) -> summary and per-expense results,
+ *   validated in order with shared spending history and budgets
+ * - GET /policies, GET /policies/:name, PUT /policies/:name: the policy
+ *   documents of the policy directory
+ *
+ * Validation endpoints take the policy from `?policy=<name>` (default:
+ * the server's) and, given an audit log, append each decision to it.
+ * Errors are JSON `{ error: { code, message, issues? } }`.
+ */
+
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { Readable } from "stream";
+import YAML from "yaml";
+import type { z } from "zod";
+import {
+	type AuditLog,
+	decisionRecord,
+	type PolicyReference,
+	policyReference,
+} from "../audit/audit-log";
+import { BatchRun } from "../batch/batch-run";
+import {
+	type InvalidRow,
+	parseCsv,
+	toInput as csvInput,
+} from "../batch/expenses-csv";
+import type { Employee } from "../domain/employee";
+import { type Expense, ExpenseStatus } from "../domain/expense";
+import type { PolicyDateBasis, PolicySource } from "../domain/policy";
+import type { ValidationResult } from "../domain/result";
+import { validateExpense } from "../engine/expense-validator";
+import type { FxProvider } from "../fx/provider";
+import { type LintIssue, lintPolicy } from "../policy/lint";
+import {
+	defaultPolicyDir,
+	listPolicyNames,
+	loadPolicy,
+	PolicyValidationError,
+	parsePolicyDocument,
+	readPolicyFile,
+	resolvePolicyPath,
+} from "../policy/loader";
+import { formatIssues } from "../policy/schema";
+import {
+	BatchRequestSchema,
+	toEmployee,
+	toExpense,
+	ValidateRequestSchema,
+} from "./schemas";
+
+export type ApiErrorCode =
+	| "INVALID_REQUEST"
+	| "INVALID_POLICY"
+	| "NOT_FOUND"
+	| "METHOD_NOT_ALLOWED"
+	| "UNSUPPORTED_MEDIA_TYPE"
+	| "PAYLOAD_TOO_LARGE"
+	| "INTERNAL";
+
+export interface ApiErrorBody {
+	error: {
+		code: ApiErrorCode;
+		message: string;
+		/** "<path> <message>" lines, for request and policy validation errors. */
+		issues?: string[];
+	};
+}
+
+export interface BatchResponse {
+	summary: {
+		/** Expenses validated (invalid CSV rows excluded). */
+		total: number;
+		counts: Record<ExpenseStatus, number>;
+		invalidRows: number;
+	};
+	results: ValidationResult[];
+	/** CSV rows that did not match the layout, with the reason. */
+	invalidRows: InvalidRow[];
+}
+
+export interface PolicyWriteResponse {
+	name: string;
+	/** Lint warnings; policies with lint errors are refused. */
+	warnings: LintIssue[];
+}
+
+export interface ApiServerOptions {
+	/** Rates for conversions. */
+	rates: FxProvider;
+	/** Directory of the policies served and written (default: POLICY_DIR or ./policies). */
+	policyDir?: string | undefined;
+	/** Policy used when a request names none (default "default"). */
+	defaultPolicy?: string | undefined;
+	/** Largest request body accepted (default 10 MiB). */
+	maxBodyBytes?: number | undefined;
+	/** Clock for the default asOf (default: the current time). */
+	now?: (() => Date) | undefined;
+	/** Logs every decision of /validate and /batch. */
+	audit?: AuditLog | undefined;
+}
+
+/**
+ * Raised by handlers to answer with a structured error.
+ */
+export class ApiError extends Error {
+	constructor(
+		readonly status: number,
+		readonly code: ApiErrorCode,
+		message: string,
+		readonly issues?: string[],
+	) {
+		super(message);
+		this.name = "ApiError";
+	}
+}
+
+/**
+ * Creates the API server; call `listen` on it to start serving.
+ */
+export function createApiServer(options: ApiServerOptions): http.Server {
+	return http.createServer((req, res) => {
+		handle(req, options)
+			.then(({ status, body }) => sendJson(res, status, body))
+			.catch((error: unknown) => {
+				const apiError = toApiError(error);
+				if (apiError.status >= 500) {
+					console.error("API request failed:", error);
+				}
+				const body: ApiErrorBody = {
+					error: {
+						code: apiError.code,
+						message: apiError.message,
+						...(apiError.issues && { issues: apiError.issues }),
+					},
+				};
+				sendJson(res, apiError.status, body);
+			});
+	});
+}
+
+// --- Internal helpers ---
+
+const POLICY_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+const DEFAULT_MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+interface Reply {
+	status: number;
+	body: unknown;
+}
+
+async function handle(
+	req: http.IncomingMessage,
+	options: ApiServerOptions,
+): Promise<Reply> {
+	const url = new URL(req.url ?? "/", "http://localhost");
+	const segments = url.pathname.split("/").filter(Boolean);
+	const method = req.method ?? "GET";
+	const allow = (...methods: string[]) => {
+		if (!methods.includes(method)) {
+			throw new ApiError(
+				405,
+				"METHOD_NOT_ALLOWED",
+				`${method} is not allowed on ${url.pathname}; use ${methods.join(", ")}`,
+			);
+		}
+	};
+
+	if (segments.length === 1 && segments[0] === "validate") {
+		allow("POST");
+		return { status: 200, body: await validateOne(req, url, options) };
+	}
+	if (segments.length === 1 && segments[0] === "batch") {
+		allow("POST");
+		return { status: 200, body: await validateBatch(req, url, options) };
+	}
+	if (segments[0] === "policies" && segments.length === 1) {
+		allow("GET");
+		return {
+			status: 200,
+			body: { policies: listPolicyNames(policyDir(options)) },
+		};
+	}
+	if (segments[0] === "policies" && segments.length === 2) {
+		allow("GET", "PUT");
+		const name = policyName(decodeURIComponent(segments[1] as string));
+		if (method === "GET") {
+			return {
+				status: 200,
+				body: readPolicyFile(existingPolicyPath(name, options)),
+			};
+		}
+		return writePolicy(name, await readJson(req, options), options);
+	}
+	throw new ApiError(404, "NOT_FOUND", `No route for ${url.pathname}`);
+}
+
+async function validateOne(
+	req: http.IncomingMessage,
+	url: URL,
+	options: ApiServerOptions,
+): Promise<ValidationResult> {
+	const request = parseRequest(
+		ValidateRequestSchema,
+		await readJson(req, options),
+	);
+	const policy = requestPolicy(url, options);
+	const asOf = request.asOf ?? now(options);
+	const result = await validateExpense(
+		amountChecked(() => toExpense(request.expense)),
+		toEmployee(request.employee),
+		policy.source,
+		options.rates,
+		asOf,
+		{
+			...(request.policyDate && { policyDate: request.policyDate }),
+			...((request.explain || options.audit) && { explain: true }),
+		},
+	);
+	return logDecision(result, asOf, policy, options, request.explain);
+}
+
+async function validateBatch(
+	req: http.IncomingMessage,
+	url: URL,
+	options: ApiServerOptions,
+): Promise<BatchResponse> {
+	let inputs: { expense: Expense; employee: Employee }[];
+	let invalidRows: InvalidRow[] = [];
+	let asOf: Date | undefined;
+	let policyDate: PolicyDateBasis | undefined;
+
+	if (contentType(req) === "text/csv") {
+		const parsed = await parseCsv(Readable.from(await readBody(req, options)));
+		inputs = [];
+		invalidRows = parsed.invalidRows;
+		for (const row of parsed.rows) {
+			const input = csvInput(row);
+			if ("invalid" in input) invalidRows.push(input.invalid);
+			else inputs.push(input);
+		}
+		const query = parseRequest(BatchRequestSchema.omit({ expenses: true }), {
+			...(url.searchParams.has("asOf") && {
+				asOf: url.searchParams.get("asOf"),
+			}),
+			...(url.searchParams.has("policyDate") && {
+				policyDate: url.searchParams.get("policyDate"),
+			}),
+		});
+		asOf = query.asOf;
+		policyDate = query.policyDate;
+	} else {
+		const request = parseRequest(
+			BatchRequestSchema,
+			await readJson(req, options),
+		);
+		inputs = request.expenses.map((item) => ({
+			expense: amountChecked(() => toExpense(item.expense)),
+			employee: toEmployee(item.employee),
+		}));
+		asOf = request.asOf;
+		policyDate = request.policyDate;
+	}
+
+	const policy = requestPolicy(url, options);
+	const runAsOf = asOf ?? now(options);
+	const run = new BatchRun(policy.source, options.rates, runAsOf, {
+		...(policyDate && { policyDate }),
+		...(options.audit && { explain: true }),
+	});
+	const counts: Record<ExpenseStatus, number> = {
+		[ExpenseStatus.APPROVED]: 0,
+		[ExpenseStatus.PARTIALLY_APPROVED]: 0,
+		[ExpenseStatus.PENDING]: 0,
+		[ExpenseStatus.REJECTED]: 0,
+	};
+	const results: ValidationResult[] = [];
+	for (const { expense, employee } of inputs) {
+		const result = logDecision(
+			await run.validate(expense, employee),
+			runAsOf,
+			policy,
+			options,
+			false,
+		);
+		counts[result.status] += 1;
+		results.push(result);
+	}
+	return {
+		summary: {
+			total: results.length,
+			counts,
+			invalidRows: invalidRows.length,
+		},
+		results,
+		invalidRows,
+	};
+}
+
+function writePolicy(
+	name: string,
+	raw: unknown,
+	options: ApiServerOptions,
+): Reply {
+	const policy = parsePolicyDocument(raw, name);
+	const issues = lintPolicy(policy);
+	const errors = issues.filter((issue) => issue.severity === "error");
+	if (errors.length > 0) {
+		throw new PolicyValidationError(
+			name,
+			errors.map((issue) => `${issue.path} ${issue.message}`),
+		);
+	}
+
+	const dir = policyDir(options);
+	const existing = listPolicyNames(dir).includes(name)
+		? resolvePolicyPath(name, dir)
+		: undefined;
+	const file = existing ?? path.join(dir, `${name}.json`);
+	const text =
+		path.extname(file).toLowerCase() === ".json"
+			? `${JSON.stringify(raw, null, "\t")}\n`
+			: YAML.stringify(raw);
+	fs.mkdirSync(dir, { recursive: true });
+	// Write then rename so validations never read a half-written policy
+	const tmp = `${file}.${process.pid}.tmp`;
+	fs.writeFileSync(tmp, text, "utf-8");
+	fs.renameSync(tmp, file);
+
+	const body: PolicyWriteResponse = {
+		name,
+		warnings: issues.filter((issue) => issue.severity === "warning"),
+	};
+	return { status: existing ? 200 : 201, body };
+}
+
+interface RequestPolicy {
+	source: PolicySource;
+	/** Present when decisions are audited. */
+	reference?: PolicyReference | undefined;
+}
+
+function requestPolicy(url: URL, options: ApiServerOptions): RequestPolicy {
+	const name = policyName(
+		url.searchParams.get("policy") ?? options.defaultPolicy ?? "default",
+	);
+	const source = storedPolicy(name, existingPolicyPath(name, options));
+	return {
+		source,
+		...(options.audit && { reference: policyReference(name, source) }),
+	};
+}
+
+/**
+ * Loads a policy of the policy directory; a file that does not parse or
+ * match the schema is the caller's INVALID_POLICY, not a server error.
+ */
+function storedPolicy(name: string, file: string): PolicySource {
+	try {
+		return loadPolicy(file);
+	} catch (error) {
+		if (error instanceof PolicyValidationError) {
+			throw new ApiError(
+				422,
+				"INVALID_POLICY",
+				`Invalid policy ${name}`,
+				error.issues,
+			);
+		}
+		throw new ApiError(
+			422,
+			"INVALID_POLICY",
+			`Policy ${name} could not be parsed`,
+		);
+	}
+}
+
+/**
+ * Appends the decision to the audit log, if any, and returns the result
+ * as answered: the trace taken for the log is dropped unless requested.
+ */
+function logDecision(
+	result: ValidationResult,
+	asOf: Date,
+	policy: RequestPolicy,
+	options: ApiServerOptions,
+	explain: boolean | undefined,
+): ValidationResult {
+	if (!options.audit || !policy.reference) return result;
+	options.audit.append(decisionRecord(result, asOf, policy.reference));
+	if (explain) return result;
+	const { trace: _trace, ...answered } = result;
+	return answered;
+}
+
+function existingPolicyPath(name: string, options: ApiServerOptions): string {
+	const dir = policyDir(options);
+	if (!listPolicyNames(dir).includes(name)) {
+		throw new ApiError(404, "NOT_FOUND", `Policy '${name}' not found`);
+	}
+	return resolvePolicyPath(name, dir);
+}
+
+function policyName(name: string): string {
+	if (!POLICY_NAME.test(name)) {
+		throw new ApiError(
+			400,
+			"INVALID_REQUEST",
+			`Invalid policy name '${name}': use letters, digits, '-' and '_'`,
+		);
+	}
+	return name;
+}
+
+function policyDir(options: ApiServerOptions): string {
+	return options.policyDir ?? defaultPolicyDir();
+}
+
+function now(options: ApiServerOptions): Date {
+	return options.now?.() ?? new Date();
+}
+
+function parseRequest<T extends z.ZodType>(
+	schema: T,
+	raw: unknown,
+): z.output<T> {
+	const result = schema.safeParse(raw);
+	if (!result.success) {
+		throw new ApiError(
+			400,
+			"INVALID_REQUEST",
+			"Request does not match the schema",
+			formatIssues(result.error),
+		);
+	}
+	return result.data;
+}
+
+function amountChecked<T>(build: () => T): T {
+	try {
+		return build();
+	} catch (error) {
+		throw new ApiError(
+			400,
+			"INVALID_REQUEST",
+			error instanceof Error ? error.message : "Invalid amount",
+		);
+	}
+}
+
+function contentType(req: http.IncomingMessage): string {
+	return (req.headers["content-type"] ?? "").split(";")[0]?.trim() ?? "";
+}
+
+async function readJson(
+	req: http.IncomingMessage,
+	options: ApiServerOptions,
+): Promise<unknown> {
+	const type = contentType(req);
+	if (type !== "application/json") {
+		throw new ApiError(
+			415,
+			"UNSUPPORTED_MEDIA_TYPE",
+			`Expected application/json, got ${type || "no content type"}`,
+		);
+	}
+	const body = await readBody(req, options);
+	try {
+		return JSON.parse(body.toString("utf-8"));
+	} catch (error) {
+		throw new ApiError(
+			400,
+			"INVALID_REQUEST",
+			`Body is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+		);
+	}
+}
+
+async function readBody(
+	req: http.IncomingMessage,
+	options: ApiServerOptions,
+): Promise<Buffer> {
+	const limit = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += (chunk as Buffer).length;
+		if (size > limit) {
+			throw new ApiError(
+				413,
+				"PAYLOAD_TOO_LARGE",
+				`Body exceeds ${limit} bytes`,
+			);
+		}
+		chunks.push(chunk as Buffer);
+	}
+	return Buffer.concat(chunks);
+}
+
+function toApiError(error: unknown): ApiError {
+	if (error instanceof ApiError) return error;
+	if (error instanceof PolicyValidationError) {
+		return new ApiError(
+			422,
+			"INVALID_POLICY",
+			`Invalid policy ${error.source}`,
+			error.issues,
+		);
+	}
+	return new ApiError(500, "INTERNAL", "Internal server error");
+}
+
+function sendJson(
+	res: http.ServerResponse,
+	status: number,
+	body: unknown,
+): void {
+	res.writeHead(status, { "content-type": "application/json" });
+	res.end(JSON.stringify(body));
+}
@@ -0,0 +1,351 @@
+/**
+ * Audit Log Module
+ *
+ * An append-only record of every validation decision and every later
+ * change to an expense's review, kept as JSON Lines. Each entry carries
+ * the SHA-256 hash of the previous one and its own hash over its content,
+ * so editing, removing or reordering entries breaks the chain from that
+ * point on (see `verifyAuditLog`). The last hash of a verified log can be
+ * kept elsewhere to also detect entries cut off the end.
+ *
+ * The log expects one writer at a time: the chain continues from the last
+ * entry on disk when the first entry of a run is appended. Only the end
+ * of the file is read for it, and verification reads the file line by
+ * line, so neither holds the whole log in memory.
+ */
+
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { StringDecoder } from "string_decoder";
+import type { PolicySource } from "../domain/policy";
+import type { ConversionTrace, ValidationResult } from "../domain/result";
+import type {
+	ApprovalWorkflow,
+	WorkflowEvent,
+	WorkflowState,
+} from "../domain/workflow";
+import { toDateKey } from "../utils/date";
+
+/**
+ * Previous hash of the first entry.
+ */
+export const GENESIS_HASH = "0".repeat(64);
+
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * The policy a decision was made under.
+ */
+export interface PolicyReference {
+	/** Name or path it was loaded from. */
+	name: string;
+	/** SHA-256 of the resolved policy (all versions of a history). */
+	hash: string;
+}
+
+/**
+ * Why an expense got its status: the result (with its decision trace,
+ * when validated with `{ explain: true }`) and what it depended on.
+ */
+export interface DecisionRecord {
+	type: "DECISION";
+	expenseId: string;
+	/** Day the expense was judged as of (YYYY-MM-DD). */
+	asOf: string;
+	policy: PolicyReference;
+	/** Version of the policy history that applied, if it is one. */
+	policyVersionId?: string | undefined;
+	/** Rates used to convert the amount, from the trace. */
+	conversion?: ConversionTrace | undefined;
+	result: ValidationResult;
+}
+
+/**
+ * A change made to an expense's review after the decision.
+ */
+export interface StatusChangeRecord {
+	type: "STATUS_CHANGE";
+	expenseId: string;
+	/** Absent when the event opened the review. */
+	previousState?: WorkflowState | undefined;
+	state: WorkflowState;
+	event: WorkflowEvent;
+}
+
+export type AuditRecord = DecisionRecord | StatusChangeRecord;
+
+/**
+ * A record as stored: dates are ISO strings once written.
+ */
+export interface AuditEntry {
+	/** Position in the log, from 1. */
+	seq: number;
+	/** When the entry was appended (ISO timestamp). */
+	at: string;
+	prevHash: string;
+	record: AuditRecord;
+	/** SHA-256 of the entry without this field, as canonical JSON. */
+	hash: string;
+}
+
+export interface AuditVerification {
+	valid: boolean;
+	/** Entries checked (up to and including the broken one). */
+	entries: number;
+	/** Hash of the last entry, when the log is valid and not empty. */
+	head?: string;
+	/** The first break in the chain. */
+	error?: { seq: number; line: number; message: string };
+}
+
+export class AuditLog {
+	private last: { seq: number; hash: string } | undefined;
+
+	constructor(
+		readonly file: string,
+		private readonly now: () => Date = () => new Date(),
+	) {}
+
+	append(record: AuditRecord): AuditEntry {
+		this.last ??= readLastEntry(this.file) ?? { seq: 0, hash: GENESIS_HASH };
+		const unhashed = {
+			seq: this.last.seq + 1,
+			at: this.now().toISOString(),
+			prevHash: this.last.hash,
+			// Stored as it reads back, so the hash can be recomputed from the file
+			record: JSON.parse(JSON.stringify(record)) as AuditRecord,
+		};
+		const entry: AuditEntry = { ...unhashed, hash: hashEntry(unhashed) };
+
+		fs.mkdirSync(path.dirname(this.file), { recursive: true });
+		fs.appendFileSync(this.file, `${JSON.stringify(entry)}\n`, "utf-8");
+		this.last = { seq: entry.seq, hash: entry.hash };
+		return entry;
+	}
+
+	/**
+	 * Every entry, oldest first.
+	 * @throws {Error} If a line is not valid JSON
+	 */
+	entries(): AuditEntry[] {
+		return [...this.parsedEntries()];
+	}
+
+	/**
+	 * Entries about one expense, oldest first.
+	 */
+	history(expenseId: string): AuditEntry[] {
+		const entries: AuditEntry[] = [];
+		for (const entry of this.parsedEntries()) {
+			if (entry.record.expenseId === expenseId) entries.push(entry);
+		}
+		return entries;
+	}
+
+	verify(): AuditVerification {
+		return verifyAuditLog(readLines(this.file));
+	}
+
+	private *parsedEntries(): Generator<AuditEntry> {
+		let line = 0;
+		for (const text of readLines(this.file)) {
+			line++;
+			try {
+				yield JSON.parse(text) as AuditEntry;
+			} catch {
+				throw new Error(`${this.file}:${line} is not valid JSON`);
+			}
+		}
+	}
+}
+
+/**
+ * Checks that each line parses, is numbered in sequence, points at the
+ * previous entry's hash and matches its own hash. Stops at the first break.
+ */
+export function verifyAuditLog(lines: Iterable<string>): AuditVerification {
+	let prev = { seq: 0, hash: GENESIS_HASH };
+	let count = 0;
+	for (const line of lines) {
+		count++;
+		const fail = (message: string): AuditVerification => ({
+			valid: false,
+			entries: count,
+			error: { seq: prev.seq + 1, line: count, message },
+		});
+
+		let entry: AuditEntry;
+		try {
+			entry = JSON.parse(line) as AuditEntry;
+		} catch {
+			return fail("is not valid JSON");
+		}
+		if (entry.seq !== prev.seq + 1) {
+			return fail(`has seq ${entry.seq}, expected ${prev.seq + 1}`);
+		}
+		if (entry.prevHash !== prev.hash) {
+			return fail("does not follow the previous entry");
+		}
+		const { hash, ...unhashed } = entry;
+		if (hashEntry(unhashed) !== hash) {
+			return fail("was modified after it was written");
+		}
+		prev = { seq: entry.seq, hash };
+	}
+	return {
+		valid: true,
+		entries: count,
+		...(count > 0 && { head: prev.hash }),
+	};
+}
+
+/**
+ * The record of a validation decision.
+ */
+export function decisionRecord(
+	result: ValidationResult,
+	asOf: Date,
+	policy: PolicyReference,
+): DecisionRecord {
+	return {
+		type: "DECISION",
+		expenseId: result.expenseId,
+		asOf: toDateKey(asOf),
+		policy,
+		...(result.policyVersionId !== undefined && {
+			policyVersionId: result.policyVersionId,
+		}),
+		...(result.trace?.conversion && { conversion: result.trace.conversion }),
+		result,
+	};
+}
+
+/**
+ * Identifies `policy` by the name it was loaded as and a hash of its
+ * content, so a log shows which rules applied even if the file changes.
+ */
+export function policyReference(
+	name: string,
+	policy: PolicySource,
+): PolicyReference {
+	// Through JSON first, so dates are hashed as their ISO strings
+	const content = canonicalJson(JSON.parse(JSON.stringify(policy)));
+	return {
+		name,
+		hash: createHash("sha256").update(content).digest("hex"),
+	};
+}
+
+/**
+ * The record of the last event of `workflow`, which replaced `previous`
+ * (absent when the event opened the review).
+ */
+export function statusChangeRecord(
+	previous: ApprovalWorkflow | undefined,
+	workflow: ApprovalWorkflow,
+): StatusChangeRecord {
+	const event = workflow.history.at(-1);
+	if (!event) {
+		throw new Error(`Workflow for ${workflow.expenseId} has no events`);
+	}
+	return {
+		type: "STATUS_CHANGE",
+		expenseId: workflow.expenseId,
+		...(previous && { previousState: previous.state }),
+		state: workflow.state,
+		event,
+	};
+}
+
+// --- Internal helpers ---
+
+function hashEntry(entry: Omit<AuditEntry, "hash">): string {
+	return createHash("sha256").update(canonicalJson(entry)).digest("hex");
+}
+
+/**
+ * JSON with object keys sorted, so the hash does not depend on key order.
+ */
+function canonicalJson(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalJson).join(",")}]`;
+	}
+	if (value !== null && typeof value === "object") {
+		const fields = Object.entries(value)
+			.filter(([, field]) => field !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+			.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+		return `{${fields.join(",")}}`;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * The non-blank lines of `file`, read a chunk at a time.
+ */
+function* readLines(file: string): Generator<string> {
+	if (!fs.existsSync(file)) return;
+	const fd = fs.openSync(file, "r");
+	try {
+		const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+		const decoder = new StringDecoder("utf-8");
+		let rest = "";
+		for (;;) {
+			const read = fs.readSync(fd, buffer, 0, buffer.length, null);
+			if (read === 0) break;
+			const lines = (rest + decoder.write(buffer.subarray(0, read))).split(
+				"\n",
+			);
+			rest = lines.pop() ?? "";
+			for (const line of lines) {
+				if (line.trim() !== "") yield line;
+			}
+		}
+		rest += decoder.end();
+		if (rest.trim() !== "") yield rest;
+	} finally {
+		fs.closeSync(fd);
+	}
+}
+
+/**
+ * The last non-blank line of `file`, reading back from its end.
+ */
+function readLastLine(file: string): string | undefined {
+	if (!fs.existsSync(file)) return undefined;
+	const fd = fs.openSync(file, "r");
+	try {
+		let tail = Buffer.alloc(0);
+		let end = fs.fstatSync(fd).size;
+		while (end > 0) {
+			const start = Math.max(0, end - READ_CHUNK_BYTES);
+			const chunk = Buffer.alloc(end - start);
+			fs.readSync(fd, chunk, 0, chunk.length, start);
+			tail = Buffer.concat([chunk, tail]);
+			end = start;
+			// Only text after a newline is returned, so a character split at
+			// the chunk boundary never reaches it
+			const text = tail.toString("utf-8").trimEnd();
+			const newline = text.lastIndexOf("\n");
+			if (newline !== -1) return text.slice(newline + 1);
+			if (end === 0 && text !== "") return text;
+		}
+		return undefined;
+	} finally {
+		fs.closeSync(fd);
+	}
+}
+
+function readLastEntry(
+	file: string,
+): { seq: number; hash: string } | undefined {
+	const last = readLastLine(file);
+	if (last === undefined) return undefined;
+	try {
+		const entry = JSON.parse(last) as AuditEntry;
+		return { seq: entry.seq, hash: entry.hash };
+	} catch {
+		throw new Error(`${file} ends with an entry that is not valid JSON`);
+	}
+}
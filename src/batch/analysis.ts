@@ -0,0 +1,532 @@
+/**
+ * Batch Analysis Module
+ *
+ * Validates the historical expenses CSV in file order and gathers what the
+ * analysis report shows: counts per status, anomalies (negative amounts,
+ * exact duplicates), invalid rows, policy versions and overrides used,
+ * budget utilization and the alerts raised. The CLI's `analyze` command
+ * (also `npm run analyze`) renders the report as Markdown or JSON.
+ *
+ * The file is streamed: rows are parsed as they are validated, and each
+ * result is handed to `onResult` (e.g. to write it out) before the next
+ * row is read. While expenses are validated one at a time, since each
+ * depends on the spending and budgets of the ones before, the rates for
+ * the dates in the next `readAhead` rows are fetched concurrently. The
+ * report keeps counts and a sample of the anomalies, invalid rows and
+ * alerts, and cumulative limits keep only the spending their periods can
+ * still reach. What stays in memory grows with the file only through the
+ * duplicate index (one entry per distinct expense).
+ */
+
+import fs from "fs";
+import {
+	type AuditLog,
+	decisionRecord,
+	policyReference,
+	statusChangeRecord,
+} from "../audit/audit-log";
+import type { Employee } from "../domain/employee";
+import { type Expense, ExpenseStatus } from "../domain/expense";
+import type { Money } from "../domain/money";
+import type { PolicyDateBasis, PolicySource } from "../domain/policy";
+import type { Alert, ValidationResult } from "../domain/result";
+import { type BudgetAccount, usedPercent } from "../engine/budget-ledger";
+import { rateLookupFor } from "../engine/expense-validator";
+import { findCachingProvider } from "../fx/config";
+import type { RateCacheStats } from "../fx/disk-cache";
+import { memoizeRates } from "../fx/memoize";
+import { RatePrefetcher } from "../fx/prefetch";
+import type { FxProvider } from "../fx/provider";
+import type { Translator } from "../i18n/translator";
+import { moneyFromMajor, toMajor } from "../utils/money";
+import type { WorkflowStore } from "../workflow/store";
+import { startWorkflow } from "../workflow/workflow";
+import { BatchRun } from "./batch-run";
+import { type InvalidRow, streamCsv, toInput } from "./expenses-csv";
+
+export type Anomaly =
+	| { code: "NEGATIVE_AMOUNT"; gastoId: string; amount: number }
+	| {
+			code: "DUPLICATE";
+			gastoId: string;
+			firstGastoId: string;
+			amount: number;
+			currency: string;
+			date: string;
+	  };
+
+export interface AnalysisOptions {
+	csvPath: string;
+	policy: PolicySource;
+	/** Name or path `policy` was loaded as, for the audit log (default "inline"). */
+	policyName?: string | undefined;
+	/** Rates for the run; lookups are memoized for its duration. */
+	rates: FxProvider;
+	asOf: Date;
+	policyDate?: PolicyDateBasis | undefined;
+	/** Validate with `{ explain: true }` (implied by `audit`). */
+	explain?: boolean | undefined;
+	/** Starts a review for each PENDING expense without one. */
+	workflows?: WorkflowStore | undefined;
+	/** Logs every decision and every review started. */
+	audit?: AuditLog | undefined;
+	/**
+	 * Called after each expense is validated, in file order; the next row
+	 * waits for a returned promise (e.g. a write).
+	 */
+	onResult?:
+		| ((
+				expense: Expense,
+				employee: Employee,
+				result: ValidationResult,
+		  ) => void | Promise<void>)
+		| undefined;
+	/** Called for each row that fails the CSV schema, in file order. */
+	onInvalidRow?:
+		| ((row: InvalidRow, index: number) => void | Promise<void>)
+		| undefined;
+	/** Called every `progressEvery` rows (default 10,000) and at the end. */
+	onProgress?: ((progress: AnalysisProgress) => void) | undefined;
+	progressEvery?: number | undefined;
+	/** Rows read ahead of validation to prefetch rates for (default 1,000). */
+	readAhead?: number | undefined;
+	/** Rate lookups in flight at once (default 4). */
+	fxConcurrency?: number | undefined;
+	/**
+	 * Anomalies, invalid rows and expenses' alerts kept for the report, up
+	 * to this many of each (default 1,000); the counts cover them all.
+	 */
+	sampleSize?: number | undefined;
+	/** Keep every expense's alerts instead of a sample (default false). */
+	keepAlerts?: boolean | undefined;
+}
+
+export interface AnalysisProgress {
+	/** Rows read and processed, valid or not. */
+	rows: number;
+	invalidRows: number;
+	elapsedMs: number;
+	rowsPerSecond: number;
+	/** Distinct rate lookups requested. */
+	fxLookups: number;
+}
+
+export interface AnalysisReport {
+	counts: Record<ExpenseStatus, number>;
+	/** Amounts left out of partial approvals, one per base currency. */
+	nonReimbursable: Money[];
+	/** The first `sampleSize` anomalies, in file order. */
+	anomalies: Anomaly[];
+	anomalyCounts: Record<Anomaly["code"], number>;
+	/** The first `sampleSize` invalid rows, in file order. */
+	invalidRows: InvalidRow[];
+	invalidRowCount: number;
+	/** Expenses per policy version, when validating against a history. */
+	policyVersions: Record<string, number>;
+	/** Expenses per policy override applied. */
+	overrides: Record<string, number>;
+	budgets: BudgetAccount[];
+	/**
+	 * Alerts of the first `sampleSize` expenses that raised any (all of
+	 * them with `keepAlerts`), in file order.
+	 */
+	alerts: { expenseId: string; alerts: Alert[] }[];
+	/** Expenses that raised any alert. */
+	expensesWithAlerts: number;
+	/** Expenses per alert code. */
+	alertCodes: Record<string, number>;
+	workflowsStarted: number;
+	/** Disk cache use, when the rates come through one. */
+	fxCache?: RateCacheStats;
+	/** Rows processed and how fast, as last reported to `onProgress`. */
+	throughput: AnalysisProgress;
+}
+
+/**
+ * Validates every row of the CSV and returns the report data.
+ * @throws {Error} If the CSV cannot be read
+ */
+export async function analyzeCsv(
+	options: AnalysisOptions,
+): Promise<AnalysisReport> {
+	const { audit, workflows } = options;
+	const started = Date.now();
+	const rates = memoizeRates(options.rates);
+	const prefetcher = new RatePrefetcher(rates, options.fxConcurrency);
+	const policyRef =
+		audit && policyReference(options.policyName ?? "inline", options.policy);
+
+	const counts: Record<ExpenseStatus, number> = {
+		[ExpenseStatus.APPROVED]: 0,
+		[ExpenseStatus.PARTIALLY_APPROVED]: 0,
+		[ExpenseStatus.PENDING]: 0,
+		[ExpenseStatus.REJECTED]: 0,
+	};
+	const sampleSize = options.sampleSize ?? 1_000;
+	const anomalies: Anomaly[] = [];
+	const anomalyCounts: Record<Anomaly["code"], number> = {
+		NEGATIVE_AMOUNT: 0,
+		DUPLICATE: 0,
+	};
+	const addAnomaly = (anomaly: Anomaly) => {
+		anomalyCounts[anomaly.code] += 1;
+		if (anomalies.length < sampleSize) anomalies.push(anomaly);
+	};
+	const invalidRows: InvalidRow[] = [];
+	let invalidRowCount = 0;
+	const run = new BatchRun(options.policy, rates, options.asOf, {
+		...(options.policyDate && { policyDate: options.policyDate }),
+		...((options.explain || audit) && { explain: true }),
+	});
+	// key -> first gasto_id: the one structure that grows with the file,
+	// by distinct expenses (about 100 MB of heap per million)
+	const duplicateIndex = new Map<string, string>();
+	const alerts: AnalysisReport["alerts"] = [];
+	let expensesWithAlerts = 0;
+	const alertCodes: Record<string, number> = {};
+	const policyVersions: Record<string, number> = {};
+	const overrides: Record<string, number> = {};
+	// Amounts left out of partial approvals, in minor units per base currency
+	const nonReimbursableByCurrency = new Map<string, number>();
+	let workflowsStarted = 0;
+
+	let rowsDone = 0;
+	const progress = (): AnalysisProgress => {
+		const elapsedMs = Date.now() - started;
+		return {
+			rows: rowsDone,
+			invalidRows: invalidRowCount,
+			elapsedMs,
+			rowsPerSecond:
+				elapsedMs > 0 ? Math.round((rowsDone * 1000) / elapsedMs) : rowsDone,
+			fxLookups: prefetcher.lookups,
+		};
+	};
+	const progressEvery = options.progressEvery ?? 10_000;
+
+	for await (const record of readAhead(options, prefetcher)) {
+		rowsDone += 1;
+		if ("invalid" in record) {
+			if (invalidRows.length < sampleSize) invalidRows.push(record.invalid);
+			invalidRowCount += 1;
+			await options.onInvalidRow?.(record.invalid, invalidRowCount - 1);
+		} else {
+			const { expense, employee } = record;
+
+			// Anomaly: negative amount
+			if (expense.amount.minor < 0) {
+				addAnomaly({
+					code: "NEGATIVE_AMOUNT",
+					gastoId: expense.id,
+					amount: toMajor(expense.amount),
+				});
+			}
+
+			// Duplicate detection (strict: amount|currency|date|category|employee)
+			const dupKey = [
+				expense.amount.minor,
+				expense.amount.currency,
+				expense.date.getTime(),
+				expense.category,
+				employee.id,
+			].join("|");
+			const first = duplicateIndex.get(dupKey);
+			if (first) {
+				addAnomaly({
+					code: "DUPLICATE",
+					gastoId: expense.id,
+					firstGastoId: first,
+					amount: toMajor(expense.amount),
+					currency: expense.amount.currency,
+					date: expense.date.toISOString(),
+				});
+			} else {
+				duplicateIndex.set(dupKey, expense.id);
+			}
+
+			const result = await run.validate(expense, employee);
+			counts[result.status] += 1;
+			if (audit && policyRef) {
+				audit.append(decisionRecord(result, options.asOf, policyRef));
+			}
+			if (
+				workflows &&
+				result.status === ExpenseStatus.PENDING &&
+				!workflows.get(expense.id)
+			) {
+				// Reviews start as of the run's day, so replays get the same SLAs
+				const workflow = startWorkflow(
+					result,
+					employee,
+					options.policy,
+					options.asOf,
+				);
+				workflows.save(workflow);
+				audit?.append(statusChangeRecord(undefined, workflow));
+				workflowsStarted += 1;
+			}
+			const nonReimbursable = result.nonReimbursableAmount?.base;
+			if (nonReimbursable && nonReimbursable.minor > 0) {
+				nonReimbursableByCurrency.set(
+					nonReimbursable.currency,
+					(nonReimbursableByCurrency.get(nonReimbursable.currency) ?? 0) +
+						nonReimbursable.minor,
+				);
+			}
+			for (const overrideId of result.overrideIds ?? []) {
+				overrides[overrideId] = (overrides[overrideId] ?? 0) + 1;
+			}
+			if (result.policyVersionId !== undefined) {
+				policyVersions[result.policyVersionId] =
+					(policyVersions[result.policyVersionId] ?? 0) + 1;
+			}
+			if (result.alerts.length > 0) {
+				expensesWithAlerts += 1;
+				if (options.keepAlerts || alerts.length < sampleSize) {
+					alerts.push({ expenseId: expense.id, alerts: result.alerts });
+				}
+			}
+			for (const code of new Set(result.alerts.map((alert) => alert.code))) {
+				alertCodes[code] = (alertCodes[code] ?? 0) + 1;
+			}
+			await options.onResult?.(expense, employee, result);
+		}
+		if (rowsDone % progressEvery === 0) options.onProgress?.(progress());
+	}
+
+	const throughput = progress();
+	if (rowsDone % progressEvery !== 0 || rowsDone === 0) {
+		options.onProgress?.(throughput);
+	}
+	const cache = findCachingProvider(options.rates);
+	return {
+		counts,
+		nonReimbursable: [...nonReimbursableByCurrency].map(
+			([currency, minor]) => ({ minor, currency }),
+		),
+		anomalies,
+		anomalyCounts,
+		invalidRows,
+		invalidRowCount,
+		policyVersions,
+		overrides,
+		budgets: run.ledger.accounts(),
+		alerts,
+		expensesWithAlerts,
+		alertCodes,
+		workflowsStarted,
+		...(cache && { fxCache: { ...cache.stats } }),
+		throughput,
+	};
+}
+
+/**
+ * The status counts section, as printed after a run.
+ */
+export function statusSummaryLines(
+	report: AnalysisReport,
+	t: Translator,
+): string[] {
+	return [
+		`## ${t.report("statusHeading")}`,
+		...[
+			ExpenseStatus.APPROVED,
+			ExpenseStatus.PARTIALLY_APPROVED,
+			ExpenseStatus.PENDING,
+			ExpenseStatus.REJECTED,
+		].map((status) => `- ${t.status(status)}: ${report.counts[status]}`),
+		...report.nonReimbursable.map(
+			(amount) =>
+				`- ${t.report("nonReimbursableTotal", {
+					amount: toMajor(amount),
+					currency: amount.currency,
+				})}`,
+		),
+	];
+}
+
+/**
+ * Renders the report as the ANALISIS.md document.
+ */
+export function renderAnalysisMarkdown(
+	report: AnalysisReport,
+	t: Translator,
+): string {
+	const { anomalies, anomalyCounts, invalidRows, invalidRowCount } = report;
+	const summaryLines = [
+		`# ${t.report("title")}`,
+		"",
+		...statusSummaryLines(report, t),
+		"",
+		`## ${t.report("anomaliesHeading")}`,
+		`- ${t.report("negativeAmounts", { count: anomalyCounts.NEGATIVE_AMOUNT })}`,
+		`- ${t.report("exactDuplicates", { count: anomalyCounts.DUPLICATE })}`,
+		"",
+		`### ${t.report("anomalyBreakdownHeading")}`,
+	];
+
+	for (const a of anomalies) {
+		if (a.code === "NEGATIVE_AMOUNT") {
+			summaryLines.push(
+				`- ${t.report("anomalyNegativeAmount", { expenseId: a.gastoId, amount: a.amount })}`,
+			);
+		} else {
+			summaryLines.push(
+				`- ${t.report("anomalyDuplicate", {
+					expenseId: a.gastoId,
+					firstExpenseId: a.firstGastoId,
+					amount: a.amount,
+					currency: a.currency,
+					date: a.date,
+				})}`,
+			);
+		}
+	}
+	const moreAnomalies =
+		anomalyCounts.NEGATIVE_AMOUNT + anomalyCounts.DUPLICATE - anomalies.length;
+	if (moreAnomalies > 0) {
+		summaryLines.push(
+			`- ${t.report("anomaliesMore", { count: moreAnomalies })}`,
+		);
+	}
+
+	if (invalidRowCount > 0) {
+		summaryLines.push(
+			"",
+			`## ${t.report("invalidRowsHeading")}`,
+			`- ${t.report("invalidRowsTotal", { count: invalidRowCount })}`,
+		);
+		const maxInvalidToShow = 5;
+		invalidRows.slice(0, maxInvalidToShow).forEach((ir, idx) => {
+			summaryLines.push(
+				`- ROW_${idx + 1}: ${ir.error}; raw=${JSON.stringify(ir.raw)}`,
+			);
+		});
+		const shown = Math.min(invalidRows.length, maxInvalidToShow);
+		if (invalidRowCount > shown) {
+			summaryLines.push(
+				`- ${t.report("invalidRowsMore", { count: invalidRowCount - shown })}`,
+			);
+		}
+	}
+
+	const versions = Object.entries(report.policyVersions);
+	if (versions.length > 0) {
+		summaryLines.push("", `## ${t.report("policyVersionsHeading")}`);
+		for (const [versionId, count] of versions) {
+			summaryLines.push(
+				`- ${t.report("policyVersionCount", { versionId, count })}`,
+			);
+		}
+	}
+
+	const overrides = Object.entries(report.overrides);
+	if (overrides.length > 0) {
+		summaryLines.push("", `## ${t.report("overridesHeading")}`);
+		for (const [overrideId, count] of overrides) {
+			summaryLines.push(
+				`- ${t.report("overrideCount", { overrideId, count })}`,
+			);
+		}
+	}
+
+	if (report.budgets.length > 0) {
+		summaryLines.push("", `## ${t.report("budgetsHeading")}`);
+		for (const account of report.budgets) {
+			const budget = moneyFromMajor(
+				account.budget.amount,
+				account.spent.currency,
+			);
+			summaryLines.push(
+				`- ${t.report("budgetUsage", {
+					budgetId: account.budget.id,
+					costCenterId: account.budget.costCenterId,
+					category: account.budget.category ?? "ALL",
+					periodStart: account.periodStart,
+					periodEnd: account.periodEnd,
+					spent: toMajor(account.spent),
+					budget: toMajor(budget),
+					currency: budget.currency,
+					usedPercent: usedPercent(account.spent, budget),
+				})}`,
+			);
+		}
+	}
+
+	if (report.fxCache) {
+		summaryLines.push(
+			"",
+			`## ${t.report("fxCacheHeading")}`,
+			`- ${t.report("fxCacheStats", { ...report.fxCache })}`,
+		);
+	}
+
+	if (report.alerts.length > 0) {
+		summaryLines.push(
+			"",
+			`## ${t.report("alertsHeading")}`,
+			...report.alerts.map(
+				({ expenseId, alerts }) =>
+					`- ${expenseId}: ${alerts
+						.map((alert) => `[${alert.code}] ${t.alert(alert)}`)
+						.join("\n")}`,
+			),
+		);
+		const moreAlerts = report.expensesWithAlerts - report.alerts.length;
+		if (moreAlerts > 0) {
+			summaryLines.push(`- ${t.report("alertsMore", { count: moreAlerts })}`);
+		}
+	}
+
+	return summaryLines.join("\n");
+}
+
+// --- Internal helpers ---
+
+type ReadRecord =
+	| { expense: Expense; employee: Employee }
+	| { invalid: InvalidRow };
+
+/**
+ * Streams the CSV's records, keeping up to `readAhead` of them parsed
+ * ahead of the consumer and requesting their rates as they are read.
+ */
+async function* readAhead(
+	options: AnalysisOptions,
+	prefetcher: RatePrefetcher,
+): AsyncGenerator<ReadRecord, void, undefined> {
+	const records = streamCsv(fs.createReadStream(options.csvPath));
+	const window = Math.max(1, options.readAhead ?? 1_000);
+	const buffered: ReadRecord[] = [];
+	let exhausted = false;
+
+	while (true) {
+		while (!exhausted && buffered.length < window) {
+			const next = await records.next();
+			if (next.done) {
+				exhausted = true;
+				break;
+			}
+			// Amounts the currency cannot represent are invalid rows too
+			const record =
+				"invalid" in next.value ? next.value : toInput(next.value.row);
+			if ("invalid" in record) {
+				buffered.push(record);
+				continue;
+			}
+			const { expense, employee } = record;
+			const lookup = rateLookupFor(
+				expense,
+				employee,
+				options.policy,
+				options.asOf,
+				options.policyDate,
+			);
+			if (lookup) prefetcher.request(lookup.dateKey, lookup.currencies);
+			buffered.push(record);
+		}
+		const record = buffered.shift();
+		if (!record) return;
+		yield record;
+	}
+}
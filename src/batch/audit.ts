@@ -0,0 +1,85 @@
+import "dotenv/config";
+import { type AuditEntry, AuditLog } from "../audit/audit-log";
+
+/**
+ * Checks and queries the audit log (AUDIT_LOG, default "audit.jsonl"):
+ *   npm run audit -- verify
+ *   npm run audit -- history <expenseId> [--json]
+ * verify exits with 1 if the hash chain is broken and prints the hash of
+ * the last entry otherwise.
+ */
+function main() {
+	const args = process.argv.slice(2);
+	const json = args.includes("--json");
+	const [command, expenseId] = args.filter((arg) => arg !== "--json");
+	const log = new AuditLog(process.env.AUDIT_LOG ?? "audit.jsonl");
+
+	if (command === "verify") {
+		const verification = log.verify();
+		if (json) {
+			console.log(JSON.stringify(verification, null, 2));
+		} else if (verification.error) {
+			const { line, seq, message } = verification.error;
+			console.log(
+				`${log.file}: BROKEN at line ${line} (seq ${seq}) ${message}`,
+			);
+		} else {
+			console.log(
+				`${log.file}: OK, ${verification.entries} entries, head ${verification.head ?? "(empty)"}`,
+			);
+		}
+		if (!verification.valid) process.exitCode = 1;
+		return;
+	}
+
+	if (command === "history" && expenseId !== undefined) {
+		const entries = log.history(expenseId);
+		if (json) {
+			console.log(JSON.stringify(entries, null, 2));
+		} else {
+			for (const entry of entries) console.log(describe(entry));
+		}
+		return;
+	}
+
+	throw new Error(
+		"Usage: audit -- verify [--json] | history <expenseId> [--json]",
+	);
+}
+
+function describe(entry: AuditEntry): string {
+	const { record } = entry;
+	const parts = [`#${entry.seq}`, entry.at, record.type];
+	if (record.type === "DECISION") {
+		parts.push(
+			record.result.status,
+			`asOf ${record.asOf}`,
+			`policy ${record.policy.name}${record.policyVersionId !== undefined ? `@${record.policyVersionId}` : ""} (${record.policy.hash.slice(0, 12)})`,
+		);
+		const { conversion } = record;
+		if (conversion?.rate !== undefined) {
+			parts.push(
+				`rate ${conversion.originalCurrency}->${conversion.baseCurrency} ${conversion.rate}${conversion.rateDate ? ` (${conversion.rateDate})` : ""}`,
+			);
+		}
+		const codes = record.result.alerts.map((alert) => alert.code);
+		if (codes.length > 0) parts.push(`alerts ${codes.join(",")}`);
+	} else {
+		const { event } = record;
+		parts.push(
+			`${record.previousState ?? "-"} -> ${record.state}`,
+			`${event.type} on ${event.stepId}`,
+		);
+		if (event.actorId !== undefined) parts.push(`by ${event.actorId}`);
+		if (event.assignee !== undefined) parts.push(`to ${event.assignee}`);
+		if (event.comment !== undefined) parts.push(`"${event.comment}"`);
+	}
+	return parts.join(" ");
+}
+
+try {
+	main();
+} catch (err) {
+	console.error("Audit failed:", err);
+	process.exit(1);
+}
@@ -0,0 +1,70 @@
+import type { Employee } from "../domain/employee";
+import { type Expense, ExpenseStatus } from "../domain/expense";
+import type { PolicySource } from "../domain/policy";
+import type { ValidationResult } from "../domain/result";
+import { BudgetLedger } from "../engine/budget-ledger";
+import {
+	type ValidateOptions,
+	validateExpense,
+} from "../engine/expense-validator";
+import { SpendingHistory } from "../engine/spending-history";
+import type { FxProvider } from "../fx/provider";
+
+export type BatchRunOptions = Omit<ValidateOptions, "history" | "ledger">;
+
+/**
+ * Validates a file's expenses in order under one policy, carrying the
+ * state that links them: the spending history for cumulative limits and
+ * the budget ledger. Each policy compared in a simulation gets its own run.
+ */
+export class BatchRun {
+	readonly ledger = new BudgetLedger();
+	// Accepted spending within reach of the cumulative limits
+	private readonly history: SpendingHistory;
+	// Without cumulative limits nothing reads the history; skip keeping it
+	private readonly keepsHistory: boolean;
+
+	constructor(
+		private readonly policy: PolicySource,
+		private readonly rates: FxProvider,
+		private readonly asOf: Date,
+		private readonly options: BatchRunOptions = {},
+	) {
+		const versions = Array.isArray(policy) ? policy : [policy];
+		const limits = versions.flatMap(
+			(version) => version.cumulativeLimits ?? [],
+		);
+		this.history = new SpendingHistory(limits);
+		this.keepsHistory = limits.length > 0;
+	}
+
+	async validate(
+		expense: Expense,
+		employee: Employee,
+	): Promise<ValidationResult> {
+		// Rate failures become alerts on the expense, not a failed run
+		const result = await validateExpense(
+			expense,
+			employee,
+			this.policy,
+			this.rates,
+			this.asOf,
+			{ ...this.options, history: this.history, ledger: this.ledger },
+		);
+		if (
+			this.keepsHistory &&
+			result.status !== ExpenseStatus.REJECTED &&
+			result.checkedAmount !== undefined
+		) {
+			this.history.add({
+				expenseId: expense.id,
+				employeeId: employee.id,
+				costCenterId: employee.costCenterId,
+				category: expense.category,
+				date: expense.date,
+				amount: result.approvedAmount?.base ?? result.checkedAmount,
+			});
+		}
+		return result;
+	}
+}
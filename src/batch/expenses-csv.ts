@@ -0,0 +1,140 @@
+/**
+ * Expenses CSV Module
+ *
+ * Reads the historical expenses CSV (`gastos_historicos.csv` layout) into
+ * expenses and employees, shared by the batch commands. Rows that fail the
+ * schema are returned apart with the reason, not thrown.
+ */
+
+import csv from "csv-parser";
+import fs from "fs";
+import type { Readable } from "stream";
+import { z } from "zod";
+import type { Employee } from "../domain/employee";
+import { type Expense, ExpenseCategory } from "../domain/expense";
+import { moneyFromMajor } from "../utils/money";
+
+// Define Zod Schema for CSV Row
+const CsvRowSchema = z.object({
+	gasto_id: z.string(),
+	empleado_id: z.string(),
+	empleado_nombre: z.string(),
+	empleado_apellido: z.string(),
+	empleado_cost_center: z.string(),
+	categoria: z.string(),
+	monto: z.coerce
+		.number()
+		.refine((n) => Number.isFinite(n), { message: "Monto debe ser un número" }),
+	moneda: z.string().min(1, "Moneda requerida"),
+	fecha: z.iso.date({ message: "Fecha inválida, debe ser YYYY-MM-DD" }),
+	// Optional employee attributes, matched by policy overrides
+	empleado_rol: z.string().optional(),
+	empleado_grado: z.string().optional(),
+});
+
+export type ParsedRow = z.infer<typeof CsvRowSchema>;
+export type InvalidRow = { raw: unknown; error: string };
+
+function toCategory(raw: string): ExpenseCategory {
+	switch (raw.toLowerCase()) {
+		case "food":
+			return ExpenseCategory.FOOD;
+		case "transport":
+			return ExpenseCategory.TRANSPORT;
+		case "software":
+			return ExpenseCategory.SOFTWARE;
+		case "lodging":
+			return ExpenseCategory.LODGING;
+		default:
+			return ExpenseCategory.OTHER;
+	}
+}
+
+export function toExpense(row: ParsedRow): Expense {
+	return {
+		id: row.gasto_id,
+		amount: moneyFromMajor(row.monto, row.moneda),
+		category: toCategory(row.categoria),
+		date: new Date(row.fecha),
+	};
+}
+
+export function toEmployee(row: ParsedRow): Employee {
+	return {
+		id: row.empleado_id,
+		firstName: row.empleado_nombre,
+		lastName: row.empleado_apellido,
+		costCenterId: row.empleado_cost_center,
+		attributes: {
+			...(row.empleado_rol && { role: row.empleado_rol }),
+			...(row.empleado_grado && { grade: row.empleado_grado }),
+		},
+	};
+}
+
+/**
+ * The expense and employee of a row, or the row as invalid when its amount
+ * cannot be represented in its currency.
+ */
+export function toInput(
+	row: ParsedRow,
+): { expense: Expense; employee: Employee } | { invalid: InvalidRow } {
+	try {
+		return { expense: toExpense(row), employee: toEmployee(row) };
+	} catch (error) {
+		return {
+			invalid: {
+				raw: row,
+				error: error instanceof Error ? error.message : "Invalid row",
+			},
+		};
+	}
+}
+
+export type CsvRecord = { row: ParsedRow } | { invalid: InvalidRow };
+
+export async function readCsv(
+	filePath: string,
+): Promise<{ rows: ParsedRow[]; invalidRows: InvalidRow[] }> {
+	return parseCsv(fs.createReadStream(filePath));
+}
+
+/**
+ * Parses CSV text in the same layout from any stream (e.g. an upload).
+ */
+export async function parseCsv(
+	input: Readable,
+): Promise<{ rows: ParsedRow[]; invalidRows: InvalidRow[] }> {
+	const rows: ParsedRow[] = [];
+	const invalidRows: InvalidRow[] = [];
+	for await (const record of streamCsv(input)) {
+		if ("row" in record) rows.push(record.row);
+		else invalidRows.push(record.invalid);
+	}
+	return { rows, invalidRows };
+}
+
+/**
+ * Yields the rows of a CSV stream as they are parsed, valid or not, so
+ * large files can be processed without holding them in memory. Reading
+ * pauses while the consumer is busy.
+ */
+export async function* streamCsv(
+	input: Readable,
+): AsyncGenerator<CsvRecord, void, undefined> {
+	const parser = input.pipe(csv());
+	input.on("error", (err: Error) => parser.destroy(err));
+	for await (const data of parser as AsyncIterable<unknown>) {
+		const result = CsvRowSchema.safeParse(data);
+		if (result.success) {
+			yield { row: result.data };
+		} else {
+			yield {
+				invalid: {
+					raw: data,
+					error: result.error.issues.map((issue) => issue.message).join("; "),
+				},
+			};
+		}
+	}
+}
@@ -0,0 +1,46 @@
+import "dotenv/config";
+import { formatLintIssue, lintPolicyReference } from "../policy/lint";
+
+/**
+ * Lints policies by name or path (default: POLICY, else "default"):
+ *   npm run lint:policy -- [--json] [policy...]
+ * Schema errors are reported as SCHEMA errors. Exits with 1 if any policy
+ * has errors; warnings alone do not fail.
+ */
+function main() {
+	const args = process.argv.slice(2);
+	const json = args.includes("--json");
+	const names = args.filter((arg) => arg !== "--json");
+	if (names.length === 0) names.push(process.env.POLICY ?? "default");
+
+	const results = names.map((name) => ({
+		policy: name,
+		issues: lintPolicyReference(name),
+	}));
+	if (json) {
+		console.log(JSON.stringify(results, null, 2));
+	} else {
+		for (const { policy, issues } of results) {
+			const errors = issues.filter((i) => i.severity === "error").length;
+			console.log(
+				`${policy}: ${errors} error(s), ${issues.length - errors} warning(s)`,
+			);
+			for (const issue of issues) {
+				console.log(`  ${formatLintIssue(issue)}`);
+			}
+		}
+	}
+
+	if (
+		results.some(({ issues }) => issues.some((i) => i.severity === "error"))
+	) {
+		process.exitCode = 1;
+	}
+}
+
+try {
+	main();
+} catch (err) {
+	console.error("Policy lint failed:", err);
+	process.exit(1);
+}
@@ -0,0 +1,499 @@
+/**
+ * Batch Outputs Module
+ *
+ * Machine-readable forms of an analysis, written alongside ANALISIS.md:
+ * per-expense results as CSV, JSON or JUnit XML (one test case per
+ * expense, REJECTED as failures and PENDING as skipped) and a summary JSON
+ * with the counts and anomalies. Amounts are in major units.
+ *
+ * Per-expense results are written as the analysis goes, through a
+ * `ResultWriter` per format, so their size does not depend on memory;
+ * the Markdown report and the summary are rendered from the final report.
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import readline from "readline";
+import type { Employee } from "../domain/employee";
+import { type Expense, ExpenseStatus } from "../domain/expense";
+import type { ValidationResult } from "../domain/result";
+import type { Translator } from "../i18n/translator";
+import { toDateKey } from "../utils/date";
+import { toMajor } from "../utils/money";
+import {
+	type AnalysisOptions,
+	type AnalysisReport,
+	renderAnalysisMarkdown,
+} from "./analysis";
+import type { InvalidRow } from "./expenses-csv";
+
+/** Rendered from the report once the run is over. */
+export const REPORT_FORMATS = ["markdown", "summary"] as const;
+/** Written one expense at a time. */
+export const RESULT_FORMATS = ["json", "csv", "junit"] as const;
+export const OUTPUT_FORMATS = [...REPORT_FORMATS, ...RESULT_FORMATS] as const;
+
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+export type ResultFormat = (typeof RESULT_FORMATS)[number];
+export type OutputFormat = ReportFormat | ResultFormat;
+
+export function isResultFormat(format: OutputFormat): format is ResultFormat {
+	return RESULT_FORMATS.some((f) => f === format);
+}
+
+/** File each format is written to unless another path is given. */
+export const DEFAULT_OUTPUT_FILES: Record<OutputFormat, string> = {
+	markdown: "ANALISIS.md",
+	summary: "RESUMEN.json",
+	json: "RESULTADOS.json",
+	csv: "RESULTADOS.csv",
+	junit: "RESULTADOS.xml",
+};
+
+/**
+ * Reads a comma-separated list of formats, e.g. "markdown,csv".
+ * @throws {Error} On an unknown format or an empty list
+ */
+export function parseOutputFormats(value: string): OutputFormat[] {
+	const names = value
+		.split(",")
+		.map((name) => name.trim())
+		.filter((name) => name !== "");
+	const formats: OutputFormat[] = [];
+	for (const name of names) {
+		const format = OUTPUT_FORMATS.find((f) => f === name);
+		if (format === undefined) {
+			throw new Error(
+				`Unknown output format '${name}'; expected ${OUTPUT_FORMATS.join(", ")}`,
+			);
+		}
+		if (!formats.includes(format)) formats.push(format);
+	}
+	if (formats.length === 0) {
+		throw new Error(
+			`No output format given; expected ${OUTPUT_FORMATS.join(", ")}`,
+		);
+	}
+	return formats;
+}
+
+export interface ExpenseResultRow {
+	expenseId: string;
+	employeeId: string;
+	costCenterId: string;
+	category: string;
+	/** Expense date, YYYY-MM-DD. */
+	date: string;
+	amount: number;
+	currency: string;
+	status: ExpenseStatus;
+	/** Amount the rules checked, in the base currency, when converted. */
+	convertedAmount?: number | undefined;
+	baseCurrency?: string | undefined;
+	/** Reimbursed amount in the base currency (APPROVED and PARTIALLY_APPROVED). */
+	approvedAmount?: number | undefined;
+	alertCodes: string[];
+	/** Alert messages in the report locale, in the order of `alertCodes`. */
+	alertMessages: string[];
+	policyVersionId?: string | undefined;
+}
+
+export interface AnalysisSummary {
+	asOf: string;
+	policy: string;
+	total: number;
+	counts: Record<ExpenseStatus, number>;
+	nonReimbursable: { amount: number; currency: string }[];
+	/** A sample, in file order; `anomalyCounts` has the totals. */
+	anomalies: AnalysisReport["anomalies"];
+	anomalyCounts: AnalysisReport["anomalyCounts"];
+	invalidRows: number;
+	policyVersions: Record<string, number>;
+	overrides: Record<string, number>;
+	/** Expenses per alert code. */
+	alertCodes: Record<string, number>;
+}
+
+export function toResultRow(
+	expense: Expense,
+	employee: Employee,
+	result: ValidationResult,
+	t: Translator,
+): ExpenseResultRow {
+	const converted = result.checkedAmount;
+	const approved = result.approvedAmount?.base;
+	return {
+		expenseId: expense.id,
+		employeeId: employee.id,
+		costCenterId: employee.costCenterId,
+		category: expense.category,
+		date: toDateKey(expense.date),
+		amount: toMajor(expense.amount),
+		currency: expense.amount.currency,
+		status: result.status,
+		...(converted && {
+			convertedAmount: toMajor(converted),
+			baseCurrency: converted.currency,
+		}),
+		...(approved && { approvedAmount: toMajor(approved) }),
+		alertCodes: result.alerts.map((alert) => alert.code),
+		alertMessages: result.alerts.map((alert) => t.alert(alert)),
+		...(result.policyVersionId !== undefined && {
+			policyVersionId: result.policyVersionId,
+		}),
+	};
+}
+
+/**
+ * The counts and anomalies of a run, without the per-expense detail.
+ */
+export function analysisSummary(
+	report: AnalysisReport,
+	run: { asOf: Date; policy: string },
+): AnalysisSummary {
+	return {
+		asOf: toDateKey(run.asOf),
+		policy: run.policy,
+		total: Object.values(report.counts).reduce((sum, n) => sum + n, 0),
+		counts: report.counts,
+		nonReimbursable: report.nonReimbursable.map((amount) => ({
+			amount: toMajor(amount),
+			currency: amount.currency,
+		})),
+		anomalies: report.anomalies,
+		anomalyCounts: report.anomalyCounts,
+		invalidRows: report.invalidRowCount,
+		policyVersions: report.policyVersions,
+		overrides: report.overrides,
+		alertCodes: report.alertCodes,
+	};
+}
+
+/**
+ * Renders the Markdown report or the summary of a finished run.
+ */
+export function renderReport(
+	format: ReportFormat,
+	report: AnalysisReport,
+	run: { asOf: Date; policy: string },
+	t: Translator,
+): string {
+	return format === "markdown"
+		? renderAnalysisMarkdown(report, t)
+		: JSON.stringify(analysisSummary(report, run), null, 2);
+}
+
+/**
+ * Where a result writer's text goes. Writers only hand it whole lines,
+ * each ending in "\n".
+ */
+export interface TextSink {
+	write(text: string): Promise<void>;
+	close(): Promise<void>;
+	/** Discards what was written, where possible (files are removed). */
+	abort?(): Promise<void>;
+}
+
+/**
+ * Writes to a file, waiting for the disk when its buffer is full.
+ */
+export function fileSink(file: string): TextSink {
+	const stream = fs.createWriteStream(file, { encoding: "utf-8" });
+	let failure: Error | undefined;
+	stream.on("error", (err) => {
+		failure = err;
+	});
+	return {
+		write: async (text) => {
+			if (failure) throw failure;
+			if (!stream.write(text)) {
+				await new Promise<void>((resolve, reject) => {
+					const onDrain = () => {
+						stream.off("error", onError);
+						resolve();
+					};
+					const onError = (err: Error) => {
+						stream.off("drain", onDrain);
+						reject(err);
+					};
+					stream.once("drain", onDrain);
+					stream.once("error", onError);
+				});
+			}
+		},
+		close: () =>
+			new Promise<void>((resolve, reject) => {
+				if (failure) return reject(failure);
+				stream.end((err?: Error | null) => (err ? reject(err) : resolve()));
+			}),
+		abort: async () => {
+			if (!stream.closed) {
+				await new Promise<void>((resolve) => {
+					stream.once("close", () => resolve());
+					stream.destroy();
+				});
+			}
+			fs.rmSync(file, { force: true });
+		},
+	};
+}
+
+export interface ResultWriter {
+	result(row: ExpenseResultRow): Promise<void>;
+	/** A row that failed the CSV schema; `index` counts from 0. */
+	invalid(row: InvalidRow, index: number): Promise<void>;
+	/** Finishes the output; the sink is closed too. */
+	close(): Promise<void>;
+	/**
+	 * Gives up on the output after a failed run: the sink is aborted (or
+	 * closed, if it cannot be) and temporary files are removed.
+	 */
+	abort(): Promise<void>;
+}
+
+export function openResultWriter(
+	format: ResultFormat,
+	sink: TextSink,
+): ResultWriter {
+	switch (format) {
+		case "csv":
+			return new CsvResultWriter(sink);
+		case "json":
+			return new JsonResultWriter(sink);
+		case "junit":
+			return new JunitResultWriter(sink);
+	}
+}
+
+/**
+ * `analyzeCsv` callbacks that hand each result and invalid row to the
+ * writers, in file order.
+ */
+export function writeResultsTo(
+	writers: ResultWriter[],
+	t: Translator,
+): Pick<AnalysisOptions, "onResult" | "onInvalidRow"> {
+	return {
+		onResult: async (expense, employee, result) => {
+			const row = toResultRow(expense, employee, result, t);
+			for (const writer of writers) await writer.result(row);
+		},
+		onInvalidRow: async (row, index) => {
+			for (const writer of writers) await writer.invalid(row, index);
+		},
+	};
+}
+
+const CSV_HEADER = [
+	"expense_id",
+	"employee_id",
+	"cost_center_id",
+	"category",
+	"date",
+	"amount",
+	"currency",
+	"status",
+	"converted_amount",
+	"base_currency",
+	"approved_amount",
+	"alert_codes",
+	"policy_version_id",
+].join(",");
+
+/**
+ * One line per expense; alert codes are joined with "|". Invalid rows are
+ * left out (see the summary or the JUnit output).
+ */
+export class CsvResultWriter implements ResultWriter {
+	private started = false;
+
+	constructor(private readonly sink: TextSink) {}
+
+	async result(row: ExpenseResultRow): Promise<void> {
+		await this.start();
+		const fields = [
+			row.expenseId,
+			row.employeeId,
+			row.costCenterId,
+			row.category,
+			row.date,
+			row.amount,
+			row.currency,
+			row.status,
+			row.convertedAmount ?? "",
+			row.baseCurrency ?? "",
+			row.approvedAmount ?? "",
+			row.alertCodes.join("|"),
+			row.policyVersionId ?? "",
+		];
+		await this.sink.write(
+			`${fields.map((value) => csvField(String(value))).join(",")}\n`,
+		);
+	}
+
+	async invalid(): Promise<void> {}
+
+	async close(): Promise<void> {
+		await this.start();
+		await this.sink.close();
+	}
+
+	abort(): Promise<void> {
+		return abortSink(this.sink);
+	}
+
+	private async start(): Promise<void> {
+		if (this.started) return;
+		this.started = true;
+		await this.sink.write(`${CSV_HEADER}\n`);
+	}
+}
+
+/**
+ * A JSON array with one object per expense, one per line.
+ */
+export class JsonResultWriter implements ResultWriter {
+	// Held back until the next row tells whether it needs a comma
+	private pending: string | undefined;
+	private started = false;
+
+	constructor(private readonly sink: TextSink) {}
+
+	async result(row: ExpenseResultRow): Promise<void> {
+		if (!this.started) {
+			this.started = true;
+			await this.sink.write("[\n");
+		}
+		if (this.pending !== undefined) {
+			await this.sink.write(`  ${this.pending},\n`);
+		}
+		this.pending = JSON.stringify(row);
+	}
+
+	async invalid(): Promise<void> {}
+
+	async close(): Promise<void> {
+		if (!this.started) {
+			await this.sink.write("[]\n");
+		} else {
+			if (this.pending !== undefined) {
+				await this.sink.write(`  ${this.pending}\n`);
+			}
+			await this.sink.write("]\n");
+		}
+		await this.sink.close();
+	}
+
+	abort(): Promise<void> {
+		return abortSink(this.sink);
+	}
+}
+
+/**
+ * A JUnit XML report for CI dashboards: one test case per expense, named
+ * by its id and classed by cost center and employee. REJECTED expenses are
+ * failures, PENDING ones skipped, and invalid CSV rows errors. The suite
+ * totals come first in the file, so test cases are spooled to a temporary
+ * file, created on the first one, until `close`.
+ */
+export class JunitResultWriter implements ResultWriter {
+	private spool: { dir: string; file: string; sink: TextSink } | undefined;
+	private readonly totals = { tests: 0, failures: 0, errors: 0, skipped: 0 };
+
+	constructor(private readonly sink: TextSink) {}
+
+	async result(row: ExpenseResultRow): Promise<void> {
+		this.totals.tests += 1;
+		const open = `    <testcase classname="${xml(`${row.costCenterId}.${row.employeeId}`)}" name="${xml(row.expenseId)}">`;
+		const message = xml(`${row.status}: ${row.alertCodes.join(", ")}`);
+		switch (row.status) {
+			case ExpenseStatus.REJECTED:
+				this.totals.failures += 1;
+				await this.spooled(
+					`${open}\n      <failure type="REJECTED" message="${message}">${xml(row.alertMessages.join("\n"))}</failure>\n    </testcase>\n`,
+				);
+				return;
+			case ExpenseStatus.PENDING:
+				this.totals.skipped += 1;
+				await this.spooled(
+					`${open}\n      <skipped message="${message}"/>\n    </testcase>\n`,
+				);
+				return;
+			default:
+				await this.spooled(`${open}</testcase>\n`);
+		}
+	}
+
+	async invalid(row: InvalidRow, index: number): Promise<void> {
+		this.totals.tests += 1;
+		this.totals.errors += 1;
+		await this.spooled(
+			`    <testcase classname="invalid-rows" name="ROW_${index + 1}">\n      <error type="INVALID_ROW" message="${xml(row.error)}">${xml(JSON.stringify(row.raw))}</error>\n    </testcase>\n`,
+		);
+	}
+
+	async close(): Promise<void> {
+		const { tests, failures, errors, skipped } = this.totals;
+		const counts = `tests="${tests}" failures="${failures}" errors="${errors}" skipped="${skipped}"`;
+		try {
+			await this.spool?.sink.close();
+			await this.sink.write('<?xml version="1.0" encoding="UTF-8"?>\n');
+			await this.sink.write(`<testsuites name="spending-rules" ${counts}>\n`);
+			await this.sink.write(`  <testsuite name="expenses" ${counts}>\n`);
+			if (this.spool) {
+				const lines = readline.createInterface({
+					input: fs.createReadStream(this.spool.file, { encoding: "utf-8" }),
+					crlfDelay: Number.POSITIVE_INFINITY,
+				});
+				for await (const line of lines) {
+					await this.sink.write(`${line}\n`);
+				}
+			}
+			await this.sink.write("  </testsuite>\n</testsuites>\n");
+			await this.sink.close();
+		} finally {
+			this.removeSpool();
+		}
+	}
+
+	async abort(): Promise<void> {
+		try {
+			await this.spool?.sink.abort?.();
+			await abortSink(this.sink);
+		} finally {
+			this.removeSpool();
+		}
+	}
+
+	private async spooled(text: string): Promise<void> {
+		if (!this.spool) {
+			const dir = fs.mkdtempSync(path.join(os.tmpdir(), "junit-"));
+			const file = path.join(dir, "cases.xml");
+			this.spool = { dir, file, sink: fileSink(file) };
+		}
+		await this.spool.sink.write(text);
+	}
+
+	private removeSpool(): void {
+		if (this.spool) fs.rmSync(this.spool.dir, { recursive: true, force: true });
+	}
+}
+
+// --- Internal helpers ---
+
+function abortSink(sink: TextSink): Promise<void> {
+	return sink.abort ? sink.abort() : sink.close();
+}
+
+function csvField(value: string): string {
+	return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function xml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
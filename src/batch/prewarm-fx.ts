@@ -0,0 +1,43 @@
+import "dotenv/config";
+import { z } from "zod";
+import { createFxProvider } from "../fx/config";
+import { prewarmCache } from "../fx/prewarm";
+
+const ArgsSchema = z.tuple([
+	z.iso.date({ message: "from must be YYYY-MM-DD" }),
+	z.iso.date({ message: "to must be YYYY-MM-DD" }),
+]);
+
+/**
+ * Fills the on-disk FX cache for a date range:
+ *   npm run fx:prewarm -- 2025-01-01 2025-03-31
+ */
+async function main() {
+	const parsed = ArgsSchema.safeParse(process.argv.slice(2));
+	if (!parsed.success) {
+		throw new Error(
+			`Usage: npm run fx:prewarm -- <from YYYY-MM-DD> <to YYYY-MM-DD> (${parsed.error.issues.map((i) => i.message).join("; ")})`,
+		);
+	}
+	const [fromKey, toKey] = parsed.data;
+	const { stats, failures } = await prewarmCache(
+		createFxProvider(),
+		fromKey,
+		toKey,
+	);
+	const { hits, misses, writes } = stats;
+	console.log(
+		`Prewarmed ${fromKey}..${toKey}: ${hits} already cached, ${misses} fetched, ${writes} written`,
+	);
+	for (const failure of failures) {
+		console.error(`- ${failure.dateKey}: ${failure.error}`);
+	}
+	if (failures.length > 0) {
+		process.exitCode = 1;
+	}
+}
+
+main().catch((err) => {
+	console.error("Prewarm failed:", err);
+	process.exit(1);
+});
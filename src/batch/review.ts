@@ -0,0 +1,108 @@
+import "dotenv/config";
+import { parseArgs } from "util";
+import { AuditLog, statusChangeRecord } from "../audit/audit-log";
+import type { ApprovalWorkflow, WorkflowActionType } from "../domain/workflow";
+import { FileWorkflowStore } from "../workflow/store";
+import {
+	applyWorkflowAction,
+	escalateOverdue,
+	isOverdue,
+} from "../workflow/workflow";
+
+const ACTIONS: WorkflowActionType[] = [
+	"approve",
+	"reject",
+	"request-info",
+	"provide-info",
+];
+
+/**
+ * Reviews PENDING expenses whose workflows the analyzer started (in
+ * WORKFLOW_DIR, default ".workflows"), logging each change to AUDIT_LOG
+ * when set:
+ *   npm run review -- list
+ *   npm run review -- escalate
+ *   npm run review -- <approve|reject|request-info|provide-info> <expenseId>
+ *     --actor <id> [--role <role>] [--comment <text>]
+ * provide-info is answered by the employee and needs no role.
+ */
+function main() {
+	const { positionals, values } = parseArgs({
+		allowPositionals: true,
+		options: {
+			actor: { type: "string" },
+			role: { type: "string" },
+			comment: { type: "string" },
+		},
+	});
+	const store = new FileWorkflowStore(process.env.WORKFLOW_DIR ?? ".workflows");
+	const audit =
+		process.env.AUDIT_LOG !== undefined
+			? new AuditLog(process.env.AUDIT_LOG)
+			: undefined;
+	const now = new Date();
+	const [command, expenseId] = positionals;
+
+	if (command === "list") {
+		for (const workflow of store.list()) {
+			console.log(describe(workflow, now));
+		}
+		return;
+	}
+
+	if (command === "escalate") {
+		let escalated = 0;
+		for (const workflow of store.list()) {
+			const updated = escalateOverdue(workflow, now);
+			if (updated !== workflow) {
+				store.save(updated);
+				audit?.append(statusChangeRecord(workflow, updated));
+				escalated += 1;
+				console.log(describe(updated, now));
+			}
+		}
+		console.log(`${escalated} workflow(s) escalated`);
+		return;
+	}
+
+	const type = ACTIONS.find((action) => action === command);
+	if (!type || expenseId === undefined || values.actor === undefined) {
+		throw new Error(
+			"Usage: review -- list | escalate | <approve|reject|request-info|provide-info> <expenseId> --actor <id> [--role <role>] [--comment <text>]",
+		);
+	}
+	const workflow = store.get(expenseId);
+	if (!workflow) {
+		throw new Error(`No workflow for ${expenseId}`);
+	}
+	const updated = applyWorkflowAction(
+		workflow,
+		{
+			type,
+			actor: { id: values.actor, role: values.role ?? "employee" },
+			comment: values.comment,
+		},
+		now,
+	);
+	store.save(updated);
+	audit?.append(statusChangeRecord(workflow, updated));
+	console.log(describe(updated, now));
+}
+
+function describe(workflow: ApprovalWorkflow, now: Date): string {
+	const step = workflow.steps[workflow.currentStep];
+	const parts = [workflow.expenseId, workflow.state];
+	if (workflow.assignee !== undefined) {
+		parts.push(`step ${step?.id} assigned to ${workflow.assignee}`);
+	}
+	if (workflow.dueAt) parts.push(`due ${workflow.dueAt.toISOString()}`);
+	if (isOverdue(workflow, now)) parts.push("OVERDUE");
+	return parts.join(" ");
+}
+
+try {
+	main();
+} catch (err) {
+	console.error("Review failed:", err);
+	process.exit(1);
+}
@@ -0,0 +1,156 @@
+import "dotenv/config";
+import fs from "fs";
+import path from "path";
+import { createFxProvider } from "../fx/config";
+import { memoizeRates } from "../fx/memoize";
+import { getTranslator, isLocale, type Translator } from "../i18n/translator";
+import { assertPolicyLints } from "../policy/lint";
+import { loadPolicy } from "../policy/loader";
+import { toMajor } from "../utils/money";
+import { readCsv, toEmployee, toExpense } from "./expenses-csv";
+import { type GroupImpact, simulatePolicies } from "./what-if";
+
+/**
+ * Compares a candidate policy with the current one over the historical
+ * expenses and writes SIMULACION.md:
+ *   npm run simulate -- <candidate>             (current: POLICY or default)
+ *   npm run simulate -- <current> <candidate>
+ * Policies are names or paths, as for POLICY.
+ */
+async function main() {
+	const args = process.argv.slice(2);
+	if (args.length < 1 || args.length > 2) {
+		throw new Error(
+			"Usage: npm run simulate -- [current policy] <candidate policy>",
+		);
+	}
+	const [currentName, candidateName] =
+		args.length === 2
+			? [args[0] as string, args[1] as string]
+			: [process.env.POLICY ?? "default", args[0] as string];
+
+	const csvPath = path.join(process.cwd(), "gastos_historicos.csv");
+	if (!fs.existsSync(csvPath)) {
+		throw new Error(`CSV not found at ${csvPath}`);
+	}
+	const { rows } = await readCsv(csvPath);
+	const current = loadPolicy(currentName);
+	const candidate = loadPolicy(candidateName);
+	assertPolicyLints(current, currentName);
+	assertPolicyLints(candidate, candidateName);
+
+	const asOf =
+		process.env.AS_OF_DATE !== undefined
+			? new Date(process.env.AS_OF_DATE)
+			: new Date();
+	if (Number.isNaN(asOf.getTime())) {
+		throw new Error(
+			`Invalid AS_OF_DATE provided: ${process.env.AS_OF_DATE as string}`,
+		);
+	}
+	const policyDate =
+		process.env.POLICY_DATE === "submission" ? "submission" : "expense";
+	const locale = process.env.REPORT_LOCALE ?? "es";
+	if (!isLocale(locale)) {
+		throw new Error(`Unsupported REPORT_LOCALE: ${locale}`);
+	}
+	const t = getTranslator(locale);
+
+	const report = await simulatePolicies(
+		rows.map((row) => ({ expense: toExpense(row), employee: toEmployee(row) })),
+		current,
+		candidate,
+		memoizeRates(createFxProvider()),
+		asOf,
+		{ policyDate },
+	);
+
+	const summaryLines = [
+		`# ${t.report("simulationTitle")}`,
+		"",
+		`- ${t.report("simulationPolicies", { current: currentName, candidate: candidateName })}`,
+		`- ${t.report("simulationSummary", {
+			count: report.expenses,
+			changed: report.changes.length,
+		})}`,
+	];
+	const lines = [
+		...summaryLines,
+		"",
+		`## ${t.report("transitionsHeading")}`,
+		...(report.transitions.length > 0
+			? report.transitions.map(
+					(transition) =>
+						`- ${t.report("transitionCount", {
+							from: t.status(transition.from),
+							to: t.status(transition.to),
+							count: transition.count,
+						})}`,
+				)
+			: [`- ${t.report("noTransitions")}`]),
+		"",
+		`## ${t.report("approvedSpendHeading")}`,
+		...report.approvedSpend.map(
+			(spend) =>
+				`- ${t.report("approvedSpendChange", {
+					current: toMajor(spend.current),
+					candidate: toMajor(spend.candidate),
+					delta: toMajor(spend.delta),
+					currency: spend.delta.currency,
+				})}`,
+		),
+		...groupLines(t, t.report("affectedEmployeesHeading"), report.employees),
+		...groupLines(
+			t,
+			t.report("affectedCostCentersHeading"),
+			report.costCenters,
+		),
+	];
+	if (report.changes.length > 0) {
+		lines.push(
+			"",
+			`## ${t.report("changedExpensesHeading")}`,
+			...report.changes.map(
+				(change) =>
+					`- ${t.report("expenseChange", {
+						expenseId: change.expenseId,
+						employeeId: change.employeeId,
+						costCenterId: change.costCenterId,
+						from: t.status(change.current),
+						to: t.status(change.candidate),
+					})}`,
+			),
+		);
+	}
+
+	console.log(summaryLines.join("\n"));
+	const simulationPath = path.join(process.cwd(), "SIMULACION.md");
+	fs.writeFileSync(simulationPath, lines.join("\n"), "utf-8");
+}
+
+function groupLines(
+	t: Translator,
+	heading: string,
+	groups: GroupImpact[],
+): string[] {
+	if (groups.length === 0) return [];
+	return [
+		"",
+		`## ${heading}`,
+		...groups.map(
+			(group) =>
+				`- ${t.report("groupImpact", {
+					id: group.id,
+					count: group.changed,
+					delta: group.approvedDelta
+						.map((delta) => t.formatMoney(toMajor(delta), delta.currency))
+						.join(", "),
+				})}`,
+		),
+	];
+}
+
+main().catch((err) => {
+	console.error("Simulation failed:", err);
+	process.exit(1);
+});
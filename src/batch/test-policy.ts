@@ -0,0 +1,41 @@
+import "dotenv/config";
+import { loadPolicy } from "../policy/loader";
+import { loadScenarioSuite, runScenarioSuite } from "../scenarios/runner";
+
+/**
+ * Runs a scenario suite against a policy and prints pass/fail with diffs:
+ *   npm run policy:test -- <suite file> [policy]
+ * The policy defaults to the suite's `policy`, then POLICY, then "default".
+ * Exits with 1 if any scenario fails.
+ */
+async function main() {
+	const [suitePath, policyArg] = process.argv.slice(2);
+	if (suitePath === undefined) {
+		throw new Error("Usage: npm run policy:test -- <suite file> [policy]");
+	}
+
+	const suite = loadScenarioSuite(suitePath);
+	const policyName =
+		policyArg ?? suite.policy ?? process.env.POLICY ?? "default";
+	const results = await runScenarioSuite(suite, loadPolicy(policyName));
+
+	console.log(`${suitePath} against ${policyName}`);
+	for (const { name, passed, diffs, result } of results) {
+		console.log(`  ${passed ? "PASS" : "FAIL"} ${name}`);
+		if (passed) continue;
+		for (const diff of diffs) console.log(`      ${diff}`);
+		for (const alert of result?.alerts ?? []) {
+			console.log(`      [${alert.code}] ${alert.message}`);
+		}
+	}
+	const failed = results.filter((r) => !r.passed).length;
+	console.log(`${results.length - failed} passed, ${failed} failed`);
+	if (failed > 0) {
+		process.exitCode = 1;
+	}
+}
+
+main().catch((err) => {
+	console.error("Policy test failed:", err);
+	process.exit(1);
+});
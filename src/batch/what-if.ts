@@ -0,0 +1,203 @@
+/**
+ * What-if Module
+ *
+ * Runs the same expenses through a current and a candidate policy and
+ * compares the outcomes: status transitions, the employees and cost
+ * centers affected, and approved spend in base currency. Each policy gets
+ * its own `BatchRun`, so cumulative limits and budgets play out as they
+ * would have under that policy.
+ */
+
+import type { Employee } from "../domain/employee";
+import type { Expense, ExpenseStatus } from "../domain/expense";
+import type { Money } from "../domain/money";
+import type { PolicySource } from "../domain/policy";
+import type { ValidationResult } from "../domain/result";
+import type { FxProvider } from "../fx/provider";
+import { BatchRun, type BatchRunOptions } from "./batch-run";
+
+export interface SimulationInput {
+	expense: Expense;
+	employee: Employee;
+}
+
+export interface StatusTransition {
+	from: ExpenseStatus;
+	to: ExpenseStatus;
+	count: number;
+}
+
+/** An expense whose status or approved amount differs between policies. */
+export interface ExpenseChange {
+	expenseId: string;
+	employeeId: string;
+	costCenterId: string;
+	current: ExpenseStatus;
+	candidate: ExpenseStatus;
+	/** Approved amount in base currency; absent when nothing is approved. */
+	currentApproved?: Money;
+	candidateApproved?: Money;
+}
+
+export interface GroupImpact {
+	/** Employee or cost center id. */
+	id: string;
+	/** Its expenses with a different outcome. */
+	changed: number;
+	/** Candidate minus current approved spend, per base currency. */
+	approvedDelta: Money[];
+}
+
+export interface SpendComparison {
+	current: Money;
+	candidate: Money;
+	delta: Money;
+}
+
+export interface SimulationReport {
+	expenses: number;
+	/** Status changes only, most frequent first. */
+	transitions: StatusTransition[];
+	changes: ExpenseChange[];
+	employees: GroupImpact[];
+	costCenters: GroupImpact[];
+	/** Approved (and partially approved) spend, per base currency. */
+	approvedSpend: SpendComparison[];
+}
+
+/**
+ * Validates `inputs` in order under both policies and compares the results.
+ */
+export async function simulatePolicies(
+	inputs: SimulationInput[],
+	current: PolicySource,
+	candidate: PolicySource,
+	rates: FxProvider,
+	asOf: Date,
+	options: BatchRunOptions = {},
+): Promise<SimulationReport> {
+	const currentRun = new BatchRun(current, rates, asOf, options);
+	const candidateRun = new BatchRun(candidate, rates, asOf, options);
+
+	const transitions = new Map<string, StatusTransition>();
+	const changes: ExpenseChange[] = [];
+	const spend = new SpendTotals();
+	const employees = new Map<string, GroupTotals>();
+	const costCenters = new Map<string, GroupTotals>();
+
+	for (const { expense, employee } of inputs) {
+		const before = await currentRun.validate(expense, employee);
+		const after = await candidateRun.validate(expense, employee);
+		const currentApproved = approvedBase(before);
+		const candidateApproved = approvedBase(after);
+		spend.add(currentApproved, candidateApproved);
+
+		const changed =
+			before.status !== after.status ||
+			!sameMoney(currentApproved, candidateApproved);
+		if (before.status !== after.status) {
+			const key = `${before.status}>${after.status}`;
+			const transition = transitions.get(key) ?? {
+				from: before.status,
+				to: after.status,
+				count: 0,
+			};
+			transition.count += 1;
+			transitions.set(key, transition);
+		}
+		if (changed) {
+			changes.push({
+				expenseId: expense.id,
+				employeeId: employee.id,
+				costCenterId: employee.costCenterId,
+				current: before.status,
+				candidate: after.status,
+				...(currentApproved && { currentApproved }),
+				...(candidateApproved && { candidateApproved }),
+			});
+		}
+
+		for (const [groups, id] of [
+			[employees, employee.id],
+			[costCenters, employee.costCenterId],
+		] as const) {
+			let group = groups.get(id);
+			if (!group) {
+				group = { changed: 0, spend: new SpendTotals() };
+				groups.set(id, group);
+			}
+			if (changed) group.changed += 1;
+			group.spend.add(currentApproved, candidateApproved);
+		}
+	}
+
+	return {
+		expenses: inputs.length,
+		transitions: [...transitions.values()].sort((a, b) => b.count - a.count),
+		changes,
+		employees: impacts(employees),
+		costCenters: impacts(costCenters),
+		approvedSpend: spend.comparisons(),
+	};
+}
+
+// --- Internal helpers ---
+
+interface GroupTotals {
+	changed: number;
+	spend: SpendTotals;
+}
+
+/** Approved spend under each policy, in minor units per currency. */
+class SpendTotals {
+	private readonly totals = new Map<
+		string,
+		{ current: number; candidate: number }
+	>();
+
+	add(current: Money | undefined, candidate: Money | undefined): void {
+		if (current) this.entry(current.currency).current += current.minor;
+		if (candidate) this.entry(candidate.currency).candidate += candidate.minor;
+	}
+
+	comparisons(): SpendComparison[] {
+		return [...this.totals]
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([currency, { current, candidate }]) => ({
+				current: { minor: current, currency },
+				candidate: { minor: candidate, currency },
+				delta: { minor: candidate - current, currency },
+			}));
+	}
+
+	private entry(currency: string): { current: number; candidate: number } {
+		let entry = this.totals.get(currency);
+		if (!entry) {
+			entry = { current: 0, candidate: 0 };
+			this.totals.set(currency, entry);
+		}
+		return entry;
+	}
+}
+
+function impacts(groups: Map<string, GroupTotals>): GroupImpact[] {
+	return [...groups]
+		.filter(([, group]) => group.changed > 0)
+		.map(([id, group]) => ({
+			id,
+			changed: group.changed,
+			approvedDelta: group.spend
+				.comparisons()
+				.map((comparison) => comparison.delta),
+		}))
+		.sort((a, b) => b.changed - a.changed || a.id.localeCompare(b.id));
+}
+
+function approvedBase(result: ValidationResult): Money | undefined {
+	const approved = result.approvedAmount?.base;
+	return approved && approved.minor > 0 ? approved : undefined;
+}
+
+function sameMoney(a: Money | undefined, b: Money | undefined): boolean {
+	return a?.minor === b?.minor && a?.currency === b?.currency;
+}
@@ -0,0 +1,123 @@
+/**
+ * CLI Module
+ *
+ * `spending-rules <command> [options]`: dispatches to the subcommands
+ * (analyze, validate-one, lint-policy, fx prewarm), prints usage, and
+ * turns errors into exit codes. Commands write through `CliIO`, so tests
+ * run them in-process and capture their output; `runCliProcess` wires
+ * them to the process for the `npm run` scripts.
+ */
+
+import { ANALYZE_USAGE, runAnalyze } from "./commands/analyze";
+import { FX_USAGE, runFx } from "./commands/fx";
+import { LINT_POLICY_USAGE, runLintPolicy } from "./commands/lint-policy";
+import { runValidateOne, VALIDATE_ONE_USAGE } from "./commands/validate-one";
+import {
+	type CliIO,
+	CliOutput,
+	CliUsageError,
+	EXIT_ERROR,
+	EXIT_OK,
+	EXIT_USAGE,
+	type Verbosity,
+} from "./options";
+
+export const USAGE = `Usage: spending-rules <command> [options]
+
+Commands:
+  analyze          Validate an expenses CSV and write the analysis report
+  validate-one     Validate a single expense
+  lint-policy      Lint policies
+  fx prewarm       Fill the FX disk cache for a date range
+
+Run spending-rules <command> --help for the options of a command.
+
+Exit codes: 0 ok, 1 failure, 2 usage error, 3 rejected expenses
+(with --fail-on-rejected).`;
+
+type Command = {
+	usage: string;
+	run: (args: string[], out: CliOutput) => Promise<number>;
+};
+
+const COMMANDS: Record<string, Command> = {
+	analyze: { usage: ANALYZE_USAGE, run: runAnalyze },
+	"validate-one": { usage: VALIDATE_ONE_USAGE, run: runValidateOne },
+	"lint-policy": { usage: LINT_POLICY_USAGE, run: runLintPolicy },
+	fx: { usage: FX_USAGE, run: runFx },
+};
+
+/**
+ * Runs the CLI with `argv` (without the node and script paths).
+ * @returns The exit code
+ */
+export async function runCli(argv: string[], io: CliIO): Promise<number> {
+	const [name, ...args] = argv;
+	const out = new CliOutput(io, verbosityOf(args));
+	if (name === undefined || name === "--help" || name === "-h") {
+		out.result(USAGE);
+		return name === undefined ? EXIT_USAGE : EXIT_OK;
+	}
+	const command = COMMANDS[name];
+	if (!command) {
+		out.error(`Unknown command '${name}'\n\n${USAGE}`);
+		return EXIT_USAGE;
+	}
+	if (args.includes("--help") || args.includes("-h")) {
+		out.result(command.usage);
+		return EXIT_OK;
+	}
+
+	try {
+		return await command.run(args, out);
+	} catch (error) {
+		if (error instanceof CliUsageError) {
+			out.error(`${error.message}\n\n${command.usage}`);
+			return EXIT_USAGE;
+		}
+		out.error(
+			`${name} failed: ${error instanceof Error ? error.message : error}`,
+		);
+		if (out.verbosity === "verbose" && error instanceof Error && error.stack) {
+			out.debug(error.stack);
+		}
+		return EXIT_ERROR;
+	}
+}
+
+/**
+ * Runs the CLI on the process's stdout and stderr and sets its exit code.
+ * Stdout waits for a slow reader and a closed one (e.g. `| head`) ends
+ * the process quietly.
+ */
+export function runCliProcess(argv: string[]): void {
+	process.stdout.on("error", (err: NodeJS.ErrnoException) => {
+		if (err.code === "EPIPE") process.exit(EXIT_OK);
+		throw err;
+	});
+
+	runCli(argv, {
+		stdout: (text) =>
+			process.stdout.write(`${text}\n`)
+				? undefined
+				: new Promise<void>((resolve) => process.stdout.once("drain", resolve)),
+		stderr: (text) => process.stderr.write(`${text}\n`),
+	}).then(
+		(code) => {
+			process.exitCode = code;
+		},
+		(err) => {
+			console.error("CLI failed:", err);
+			process.exit(EXIT_ERROR);
+		},
+	);
+}
+
+// --- Internal helpers ---
+
+/** --quiet wins over --verbose. */
+function verbosityOf(args: string[]): Verbosity {
+	if (args.includes("--quiet") || args.includes("-q")) return "quiet";
+	if (args.includes("--verbose") || args.includes("-v")) return "verbose";
+	return "normal";
+}
@@ -0,0 +1,208 @@
+import fs from "fs";
+import path from "path";
+import { AuditLog } from "../../audit/audit-log";
+import {
+	type AnalysisReport,
+	analyzeCsv,
+	statusSummaryLines,
+} from "../../batch/analysis";
+import {
+	DEFAULT_OUTPUT_FILES,
+	fileSink,
+	isResultFormat,
+	type OutputFormat,
+	openResultWriter,
+	parseOutputFormats,
+	renderReport,
+	type TextSink,
+	writeResultsTo,
+} from "../../batch/outputs";
+import { ExpenseStatus } from "../../domain/expense";
+import { createFxProvider } from "../../fx/config";
+import { getTranslator } from "../../i18n/translator";
+import { toDateKey } from "../../utils/date";
+import { FileWorkflowStore } from "../../workflow/store";
+import {
+	type CliOutput,
+	CliUsageError,
+	EXIT_OK,
+	EXIT_REJECTED,
+	loadPolicySelection,
+	parseCommandArgs,
+	parsePositiveInteger,
+	POLICY_OPTIONS,
+} from "../options";
+
+export const ANALYZE_USAGE = `Usage: spending-rules analyze [options]
+
+Validates every expense of a CSV and writes the analysis report.
+
+Options:
+  --input <file>            Expenses CSV (default gastos_historicos.csv)
+  --format <formats>        Comma-separated outputs (default: OUTPUT_FORMATS, else markdown):
+                              markdown  ANALISIS.md
+                              summary   RESUMEN.json, counts and anomalies
+                              json      RESULTADOS.json, one object per expense
+                              csv       RESULTADOS.csv, one line per expense
+                              junit     RESULTADOS.xml, one test case per expense
+  --output-dir <dir>        Directory the outputs are written to (default .)
+  --output <file>           Path of the output, or - for stdout (one format only)
+  --read-ahead <rows>       Rows read ahead to prefetch FX rates for (default 1000)
+  --fx-concurrency <n>      FX lookups in flight at once (default 4)
+  --progress-every <rows>   Progress line every N rows with --verbose (default 10000)
+  --policy <name|path>      Policy (default: POLICY, else default)
+  --as-of <YYYY-MM-DD>      Day expenses are judged as of (default: AS_OF_DATE, else today)
+  --policy-date <basis>     expense (default: POLICY_DATE, else expense) or submission
+  --base-currency <code>    Read the policy's limits in this currency
+  --locale <locale>         es (default: REPORT_LOCALE, else es), en or pt
+  --workflow-dir <dir>      Start reviews of PENDING expenses (default: WORKFLOW_DIR)
+  --audit-log <file>        Log every decision (default: AUDIT_LOG)
+  --fail-on-rejected        Exit with 3 if any expense is REJECTED
+  -q, --quiet / -v, --verbose`;
+
+export async function runAnalyze(
+	args: string[],
+	out: CliOutput,
+): Promise<number> {
+	const { values } = parseCommandArgs(args, {
+		...POLICY_OPTIONS,
+		input: { type: "string" },
+		output: { type: "string" },
+		"output-dir": { type: "string" },
+		format: { type: "string" },
+		"workflow-dir": { type: "string" },
+		"audit-log": { type: "string" },
+		"read-ahead": { type: "string" },
+		"fx-concurrency": { type: "string" },
+		"progress-every": { type: "string" },
+	});
+	let formats: OutputFormat[];
+	try {
+		formats = parseOutputFormats(
+			values.format ?? process.env.OUTPUT_FORMATS ?? "markdown",
+		);
+	} catch (error) {
+		throw new CliUsageError(
+			`--format: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	if (values.output !== undefined && formats.length > 1) {
+		throw new CliUsageError("--output takes a single --format");
+	}
+	const selection = loadPolicySelection(values, out);
+	const t = getTranslator(selection.locale);
+	const csvPath = values.input ?? "gastos_historicos.csv";
+	if (!fs.existsSync(csvPath)) {
+		throw new Error(`CSV not found at ${csvPath}`);
+	}
+
+	const workflowDir = values["workflow-dir"] ?? process.env.WORKFLOW_DIR;
+	const auditFile = values["audit-log"] ?? process.env.AUDIT_LOG;
+	const workflows =
+		workflowDir !== undefined ? new FileWorkflowStore(workflowDir) : undefined;
+	const readAhead = parsePositiveInteger("read-ahead", values["read-ahead"]);
+	const fxConcurrency = parsePositiveInteger(
+		"fx-concurrency",
+		values["fx-concurrency"],
+	);
+	const progressEvery = parsePositiveInteger(
+		"progress-every",
+		values["progress-every"],
+	);
+	out.debug(
+		`Analyzing ${csvPath} with policy ${selection.policyName} as of ${toDateKey(selection.asOf)}`,
+	);
+
+	const outputFor = (format: OutputFormat) =>
+		values.output ??
+		path.join(values["output-dir"] ?? ".", DEFAULT_OUTPUT_FILES[format]);
+	const written: string[] = [];
+	const sinkFor = (format: OutputFormat): TextSink => {
+		const output = outputFor(format);
+		if (output === "-") return stdoutSink(out);
+		fs.mkdirSync(path.dirname(output), { recursive: true });
+		written.push(output);
+		return fileSink(output);
+	};
+	const writers = formats
+		.filter(isResultFormat)
+		.map((format) => openResultWriter(format, sinkFor(format)));
+	const results = writeResultsTo(writers, t);
+
+	let report: AnalysisReport;
+	try {
+		report = await analyzeCsv({
+			csvPath,
+			policy: selection.policy,
+			policyName: selection.policyName,
+			rates: createFxProvider(),
+			asOf: selection.asOf,
+			policyDate: selection.policyDate,
+			workflows,
+			audit: auditFile !== undefined ? new AuditLog(auditFile) : undefined,
+			readAhead,
+			fxConcurrency,
+			progressEvery,
+			onResult: async (expense, employee, result) => {
+				const codes = result.alerts.map((alert) => alert.code).join(",");
+				out.debug(`${expense.id} ${result.status}${codes ? ` ${codes}` : ""}`);
+				await results.onResult?.(expense, employee, result);
+			},
+			onInvalidRow: results.onInvalidRow,
+			onProgress: (progress) =>
+				out.debug(
+					`${progress.rows} rows, ${progress.invalidRows} invalid (${progress.rowsPerSecond} rows/s, ${progress.fxLookups} FX lookups)`,
+				),
+		});
+		for (const writer of writers) await writer.close();
+	} catch (error) {
+		// Leave no half-written results or temporary files behind
+		await Promise.allSettled(writers.map((writer) => writer.abort()));
+		throw error;
+	}
+
+	const run = { asOf: selection.asOf, policy: selection.policyName };
+	for (const format of formats) {
+		if (isResultFormat(format)) continue;
+		const text = renderReport(format, report, run, t);
+		const output = outputFor(format);
+		if (output === "-") {
+			out.result(text);
+		} else {
+			fs.mkdirSync(path.dirname(output), { recursive: true });
+			fs.writeFileSync(output, text, "utf-8");
+			written.push(output);
+		}
+	}
+
+	for (const line of statusSummaryLines(report, t)) out.info(line);
+	if (workflows) {
+		out.info(
+			`${report.workflowsStarted} approval workflow(s) started in ${workflows.dir}`,
+		);
+	}
+	if (written.length > 0) out.info(`Written: ${written.join(", ")}`);
+	const { rows, elapsedMs, rowsPerSecond } = report.throughput;
+	out.info(
+		`Processed ${rows} rows in ${elapsedMs} ms (${rowsPerSecond} rows/s)`,
+	);
+
+	const rejected = report.counts[ExpenseStatus.REJECTED];
+	if (values["fail-on-rejected"] && rejected > 0) {
+		out.warn(`${rejected} expense(s) REJECTED`);
+		return EXIT_REJECTED;
+	}
+	return EXIT_OK;
+}
+
+// --- Internal helpers ---
+
+/** Results streamed to stdout (`--output -`), a line at a time. */
+function stdoutSink(out: CliOutput): TextSink {
+	return {
+		write: async (text) => {
+			await out.result(text.endsWith("\n") ? text.slice(0, -1) : text);
+		},
+		close: async () => {},
+	};
+}
@@ -0,0 +1,50 @@
+import { createFxProvider } from "../../fx/config";
+import { prewarmCache } from "../../fx/prewarm";
+import {
+	CliUsageError,
+	type CliOutput,
+	EXIT_ERROR,
+	EXIT_OK,
+	parseCommandArgs,
+	parseDay,
+} from "../options";
+
+export const FX_USAGE = `Usage: spending-rules fx prewarm <from YYYY-MM-DD> <to YYYY-MM-DD>
+
+Fills the on-disk FX cache for a date range (openexchangerates with
+FX_CACHE enabled). Exits with 1 if some dates could not be fetched.
+
+Options:
+  -q, --quiet / -v, --verbose (prints each date as it is done)`;
+
+export async function runFx(args: string[], out: CliOutput): Promise<number> {
+	const { positionals } = parseCommandArgs(args, {});
+	const [action, fromKey, toKey, ...rest] = positionals;
+	if (action !== "prewarm") {
+		throw new CliUsageError(
+			action === undefined
+				? "Missing fx action"
+				: `Unknown fx action '${action}'`,
+		);
+	}
+	if (fromKey === undefined || toKey === undefined || rest.length > 0) {
+		throw new CliUsageError("fx prewarm takes a from and a to date");
+	}
+	parseDay("from", fromKey);
+	parseDay("to", toKey);
+
+	const { stats, failures } = await prewarmCache(
+		createFxProvider(),
+		fromKey,
+		toKey,
+		(dateKey, done, total) => out.debug(`${dateKey} (${done}/${total})`),
+	);
+	const { hits, misses, writes } = stats;
+	out.info(
+		`Prewarmed ${fromKey}..${toKey}: ${hits} already cached, ${misses} fetched, ${writes} written`,
+	);
+	for (const failure of failures) {
+		out.error(`- ${failure.dateKey}: ${failure.error}`);
+	}
+	return failures.length > 0 ? EXIT_ERROR : EXIT_OK;
+}
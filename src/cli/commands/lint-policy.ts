@@ -0,0 +1,53 @@
+import { formatLintIssue, lintPolicyReference } from "../../policy/lint";
+import {
+	type CliOutput,
+	EXIT_ERROR,
+	EXIT_OK,
+	parseChoice,
+	parseCommandArgs,
+} from "../options";
+
+export const LINT_POLICY_USAGE = `Usage: spending-rules lint-policy [options] [policy...]
+
+Lints policies by name or path (default: POLICY, else default). Exits
+with 1 if any policy has errors; warnings alone do not fail.
+
+Options:
+  --format <format>         text (default) or json
+  -q, --quiet / -v, --verbose`;
+
+export async function runLintPolicy(
+	args: string[],
+	out: CliOutput,
+): Promise<number> {
+	const { values, positionals } = parseCommandArgs(args, {
+		format: { type: "string" },
+	});
+	const format = parseChoice("format", values.format, ["text", "json"], "text");
+	const names =
+		positionals.length > 0 ? positionals : [process.env.POLICY ?? "default"];
+
+	const results = names.map((name) => ({
+		policy: name,
+		issues: lintPolicyReference(name),
+	}));
+	if (format === "json") {
+		out.result(JSON.stringify(results, null, 2));
+	} else {
+		for (const { policy, issues } of results) {
+			const errors = issues.filter((i) => i.severity === "error").length;
+			out.result(
+				`${policy}: ${errors} error(s), ${issues.length - errors} warning(s)`,
+			);
+			for (const issue of issues) {
+				out.result(`  ${formatLintIssue(issue)}`);
+			}
+		}
+	}
+
+	return results.some(({ issues }) =>
+		issues.some((i) => i.severity === "error"),
+	)
+		? EXIT_ERROR
+		: EXIT_OK;
+}
@@ -0,0 +1,231 @@
+import fs from "fs";
+import type { z } from "zod";
+import {
+	toEmployee,
+	toExpense,
+	ValidateRequestSchema,
+} from "../../api/schemas";
+import { type Expense, ExpenseStatus } from "../../domain/expense";
+import { validateExpense } from "../../engine/expense-validator";
+import { explainResult } from "../../engine/explain";
+import { createFxProvider } from "../../fx/config";
+import { getTranslator } from "../../i18n/translator";
+import { formatIssues } from "../../policy/schema";
+import { toMajor } from "../../utils/money";
+import {
+	CliUsageError,
+	type CliOutput,
+	EXIT_OK,
+	EXIT_REJECTED,
+	loadPolicySelection,
+	parseChoice,
+	parseCommandArgs,
+	POLICY_OPTIONS,
+} from "../options";
+
+export const VALIDATE_ONE_USAGE = `Usage: spending-rules validate-one [options]
+
+Validates a single expense and prints its result.
+
+The expense comes from flags:
+  --id <id> --amount <n> --currency <code> --category <category>
+  --date <YYYY-MM-DD> [--submitted-at <YYYY-MM-DD>]
+  --employee <id> --cost-center <id> [--attribute key=value ...]
+or from a JSON file shaped like the body of POST /validate:
+  --input <file>            { "expense": {...}, "employee": {...} }
+
+Options:
+  --format <format>         text (default) or json
+  --explain                 Explain how each rule decided
+  --policy <name|path>      Policy (default: POLICY, else default)
+  --as-of <YYYY-MM-DD>      Day the expense is judged as of (default: AS_OF_DATE, else today)
+  --policy-date <basis>     expense (default) or submission
+  --base-currency <code>    Read the policy's limits in this currency
+  --locale <locale>         es (default: REPORT_LOCALE, else es), en or pt
+  --fail-on-rejected        Exit with 3 if the expense is REJECTED
+  -q, --quiet / -v, --verbose`;
+
+export async function runValidateOne(
+	args: string[],
+	out: CliOutput,
+): Promise<number> {
+	const { values } = parseCommandArgs(args, {
+		...POLICY_OPTIONS,
+		input: { type: "string" },
+		format: { type: "string" },
+		explain: { type: "boolean" },
+		id: { type: "string" },
+		amount: { type: "string" },
+		currency: { type: "string" },
+		category: { type: "string" },
+		date: { type: "string" },
+		"submitted-at": { type: "string" },
+		employee: { type: "string" },
+		"cost-center": { type: "string" },
+		attribute: { type: "string", multiple: true },
+	});
+	const format = parseChoice("format", values.format, ["text", "json"], "text");
+	const request =
+		values.input !== undefined
+			? readRequestFile(values.input)
+			: requestFromFlags(values);
+	const selection = loadPolicySelection(values, out);
+
+	// Flags (and their environment defaults) win over the file's run options
+	const asOf =
+		values["as-of"] === undefined && process.env.AS_OF_DATE === undefined
+			? (request.asOf ?? selection.asOf)
+			: selection.asOf;
+	const policyDate =
+		values["policy-date"] === undefined
+			? (request.policyDate ?? selection.policyDate)
+			: selection.policyDate;
+	const explain = values.explain || request.explain === true;
+
+	let expense: Expense;
+	try {
+		expense = toExpense(request.expense);
+	} catch (error) {
+		throw new CliUsageError(
+			error instanceof Error ? error.message : "Invalid amount",
+		);
+	}
+	const result = await validateExpense(
+		expense,
+		toEmployee(request.employee),
+		selection.policy,
+		createFxProvider(),
+		asOf,
+		{ policyDate, ...(explain && { explain: true }) },
+	);
+
+	if (format === "json") {
+		out.result(JSON.stringify(result, null, 2));
+	} else if (explain) {
+		out.result(explainResult(result, selection.locale));
+	} else {
+		const t = getTranslator(selection.locale);
+		const { checkedAmount } = result;
+		out.result(
+			[
+				`${result.expenseId}: ${t.status(result.status)}${checkedAmount ? ` (${toMajor(checkedAmount)} ${checkedAmount.currency})` : ""}`,
+				...result.alerts.map((alert) => `  [${alert.code}] ${t.alert(alert)}`),
+			].join("\n"),
+		);
+	}
+
+	if (values["fail-on-rejected"] && result.status === ExpenseStatus.REJECTED) {
+		return EXIT_REJECTED;
+	}
+	return EXIT_OK;
+}
+
+// --- Internal helpers ---
+
+type ValidateRequest = z.output<typeof ValidateRequestSchema>;
+
+interface ExpenseFlags {
+	id?: string | undefined;
+	amount?: string | undefined;
+	currency?: string | undefined;
+	category?: string | undefined;
+	date?: string | undefined;
+	"submitted-at"?: string | undefined;
+	employee?: string | undefined;
+	"cost-center"?: string | undefined;
+	attribute?: string[] | undefined;
+}
+
+const REQUIRED_FLAGS = [
+	"id",
+	"amount",
+	"currency",
+	"category",
+	"date",
+	"employee",
+	"cost-center",
+] as const satisfies (keyof ExpenseFlags)[];
+
+/**
+ * @throws {Error} If the file cannot be read or does not match the schema
+ */
+function readRequestFile(file: string): ValidateRequest {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+	} catch (error) {
+		throw new Error(
+			`Cannot read ${file}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	const parsed = ValidateRequestSchema.safeParse(raw);
+	if (!parsed.success) {
+		throw new Error(
+			`Invalid expense in ${file}: ${formatIssues(parsed.error).join("; ")}`,
+		);
+	}
+	return parsed.data;
+}
+
+/**
+ * @throws {CliUsageError} If a flag is missing or malformed
+ */
+function requestFromFlags(flags: ExpenseFlags): ValidateRequest {
+	const missing = REQUIRED_FLAGS.filter((flag) => flags[flag] === undefined);
+	if (missing.length > 0) {
+		throw new CliUsageError(
+			`Missing ${missing.map((flag) => `--${flag}`).join(", ")} (or --input)`,
+		);
+	}
+	const attributes: Record<string, string> = {};
+	for (const pair of flags.attribute ?? []) {
+		const eq = pair.indexOf("=");
+		if (eq <= 0) {
+			throw new CliUsageError("--attribute must be in the form key=value");
+		}
+		attributes[pair.slice(0, eq)] = pair.slice(eq + 1);
+	}
+	const parsed = ValidateRequestSchema.safeParse({
+		expense: {
+			id: flags.id,
+			amount: flags.amount === undefined ? undefined : Number(flags.amount),
+			currency: flags.currency,
+			category: flags.category?.toUpperCase(),
+			date: flags.date,
+			...(flags["submitted-at"] !== undefined && {
+				submittedAt: flags["submitted-at"],
+			}),
+		},
+		employee: {
+			id: flags.employee,
+			costCenterId: flags["cost-center"],
+			...(flags.attribute && { attributes }),
+		},
+	});
+	if (!parsed.success) {
+		throw new CliUsageError(
+			formatIssues(parsed.error)
+				.map((issue) => `--${flagFor(issue)}`)
+				.join("; "),
+		);
+	}
+	return parsed.data;
+}
+
+/** Maps "expense.submittedAt must ..." back to "submitted-at must ...". */
+function flagFor(issue: string): string {
+	const space = issue.indexOf(" ");
+	const field = issue.slice(0, space);
+	const flag =
+		{
+			"expense.id": "id",
+			"expense.amount": "amount",
+			"expense.currency": "currency",
+			"expense.category": "category",
+			"expense.date": "date",
+			"expense.submittedAt": "submitted-at",
+			"employee.id": "employee",
+			"employee.costCenterId": "cost-center",
+		}[field] ?? "attribute";
+	return `${flag}${issue.slice(space)}`;
+}
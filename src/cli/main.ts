@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+import "dotenv/config";
+import { runCliProcess } from "./cli";
+
+/**
+ * Entry point of the `spending-rules` command:
+ *   npm run cli -- <command> [options]
+ */
+runCliProcess(process.argv.slice(2));
@@ -0,0 +1,244 @@
+/**
+ * CLI Options Module
+ *
+ * What the subcommands share: exit codes, output with --quiet/--verbose,
+ * flag parsing that reports mistakes as usage errors, and the flags that
+ * pick the policy and the day expenses are judged as of.
+ */
+
+import { parseArgs, type ParseArgsConfig } from "util";
+import type { PolicyDateBasis, PolicySource } from "../domain/policy";
+import { isLocale } from "../i18n/translator";
+import type { Locale } from "../i18n/types";
+import { assertPolicyLints } from "../policy/lint";
+import { loadPolicy } from "../policy/loader";
+import { toDateKey } from "../utils/date";
+
+export const EXIT_OK = 0;
+/** The command failed (bad input file, invalid policy, lint errors...). */
+export const EXIT_ERROR = 1;
+/** Unknown subcommand or flag, or a malformed flag value. */
+export const EXIT_USAGE = 2;
+/** --fail-on-rejected was given and some expense was REJECTED. */
+export const EXIT_REJECTED = 3;
+
+/**
+ * Raised for mistakes in the command line; the CLI prints the message
+ * with the command's usage and exits with EXIT_USAGE.
+ */
+export class CliUsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CliUsageError";
+	}
+}
+
+export interface CliIO {
+	/**
+	 * Command output (reports, results): written even with --quiet. May
+	 * return a promise that settles once the text is flushed, so streamed
+	 * results wait for a slow reader.
+	 */
+	stdout(text: string): void | Promise<void>;
+	/** Diagnostics: progress, summaries, warnings and errors. */
+	stderr(text: string): void;
+}
+
+export type Verbosity = "quiet" | "normal" | "verbose";
+
+/**
+ * Writes command output and diagnostics at the chosen verbosity.
+ * Diagnostics go to stderr so stdout can be piped (e.g. `--output -`).
+ */
+export class CliOutput {
+	constructor(
+		private readonly io: CliIO,
+		readonly verbosity: Verbosity,
+	) {}
+
+	result(text: string): void | Promise<void> {
+		return this.io.stdout(text);
+	}
+
+	/** Shown unless --quiet. */
+	info(text: string): void {
+		if (this.verbosity !== "quiet") this.io.stderr(text);
+	}
+
+	/** Shown unless --quiet. */
+	warn(text: string): void {
+		if (this.verbosity !== "quiet") this.io.stderr(text);
+	}
+
+	/** Shown with --verbose only. */
+	debug(text: string): void {
+		if (this.verbosity === "verbose") this.io.stderr(text);
+	}
+
+	/** Always shown. */
+	error(text: string): void {
+		this.io.stderr(text);
+	}
+}
+
+/**
+ * Flags every subcommand accepts.
+ */
+export const GLOBAL_OPTIONS = {
+	quiet: { type: "boolean", short: "q" },
+	verbose: { type: "boolean", short: "v" },
+	help: { type: "boolean", short: "h" },
+} as const satisfies ParseArgsConfig["options"];
+
+/**
+ * Flags that select the policy and how expenses are judged.
+ */
+export const POLICY_OPTIONS = {
+	policy: { type: "string" },
+	"as-of": { type: "string" },
+	"policy-date": { type: "string" },
+	"base-currency": { type: "string" },
+	locale: { type: "string" },
+	"fail-on-rejected": { type: "boolean" },
+} as const satisfies ParseArgsConfig["options"];
+
+type CommandOptions = NonNullable<ParseArgsConfig["options"]>;
+
+export type ParsedCommandArgs<T extends CommandOptions> = ReturnType<
+	typeof parseArgs<{
+		args: string[];
+		options: typeof GLOBAL_OPTIONS & T;
+		allowPositionals: true;
+		strict: true;
+	}>
+>;
+
+/**
+ * Parses a subcommand's arguments strictly.
+ * @throws {CliUsageError} On unknown flags or missing flag values
+ */
+export function parseCommandArgs<T extends CommandOptions>(
+	args: string[],
+	options: T,
+): ParsedCommandArgs<T> {
+	try {
+		return parseArgs({
+			args,
+			options: { ...GLOBAL_OPTIONS, ...options },
+			allowPositionals: true,
+			strict: true,
+		});
+	} catch (error) {
+		throw new CliUsageError(
+			error instanceof Error ? error.message : "Invalid arguments",
+		);
+	}
+}
+
+/**
+ * Reads a YYYY-MM-DD flag as UTC midnight.
+ * @throws {CliUsageError} If the value is not a valid day
+ */
+export function parseDay(flag: string, value: string): Date {
+	const date = new Date(`${value}T00:00:00.000Z`);
+	// Days past the end of the month parse, rolled into the next one
+	if (
+		!/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+		Number.isNaN(date.getTime()) ||
+		toDateKey(date) !== value
+	) {
+		throw new CliUsageError(`--${flag} must be a date in the form YYYY-MM-DD`);
+	}
+	return date;
+}
+
+/**
+ * Reads a whole-number flag; returns undefined when the flag is absent.
+ * @throws {CliUsageError} If the value is not a positive integer
+ */
+export function parsePositiveInteger(
+	flag: string,
+	value: string | undefined,
+): number | undefined {
+	if (value === undefined) return undefined;
+	const n = Number(value);
+	if (!/^\d+$/.test(value) || !Number.isSafeInteger(n) || n < 1) {
+		throw new CliUsageError(`--${flag} must be a positive integer`);
+	}
+	return n;
+}
+
+/**
+ * Allowed values of a string flag; returns the default when the flag is absent.
+ * @throws {CliUsageError} If the value is not one of `choices`
+ */
+export function parseChoice<T extends string>(
+	flag: string,
+	value: string | undefined,
+	choices: readonly T[],
+	fallback: T,
+): T {
+	if (value === undefined) return fallback;
+	const choice = choices.find((c) => c === value);
+	if (choice === undefined) {
+		throw new CliUsageError(`--${flag} must be one of ${choices.join(", ")}`);
+	}
+	return choice;
+}
+
+export interface PolicyFlags {
+	policy?: string | undefined;
+	"as-of"?: string | undefined;
+	"policy-date"?: string | undefined;
+	"base-currency"?: string | undefined;
+	locale?: string | undefined;
+}
+
+export interface PolicySelection {
+	policyName: string;
+	policy: PolicySource;
+	asOf: Date;
+	policyDate: PolicyDateBasis;
+	locale: Locale;
+}
+
+/**
+ * Loads and lints the policy named by --policy (default: POLICY, else
+ * "default") and reads the flags that go with it. --as-of defaults to
+ * AS_OF_DATE, else today; --locale to REPORT_LOCALE, else "es".
+ * --base-currency makes the policy read its limits in that currency.
+ * @throws {CliUsageError} If a flag value is malformed
+ * @throws {PolicyValidationError} If the policy has schema or lint errors
+ */
+export function loadPolicySelection(
+	flags: PolicyFlags,
+	out: CliOutput,
+): PolicySelection {
+	const asOfFlag = flags["as-of"] ?? process.env.AS_OF_DATE;
+	const asOf =
+		asOfFlag === undefined ? new Date() : parseDay("as-of", asOfFlag);
+	const policyDate = parseChoice(
+		"policy-date",
+		flags["policy-date"] ?? process.env.POLICY_DATE,
+		["expense", "submission"],
+		"expense",
+	);
+	const locale = flags.locale ?? process.env.REPORT_LOCALE ?? "es";
+	if (!isLocale(locale)) {
+		throw new CliUsageError(`--locale must be one of es, en, pt`);
+	}
+	const baseCurrency = flags["base-currency"];
+	if (baseCurrency !== undefined && !/^[A-Z]{3}$/.test(baseCurrency)) {
+		throw new CliUsageError("--base-currency must be a 3-letter ISO 4217 code");
+	}
+
+	const policyName = flags.policy ?? process.env.POLICY ?? "default";
+	let policy = loadPolicy(policyName);
+	if (baseCurrency !== undefined) {
+		policy = Array.isArray(policy)
+			? policy.map((version) => ({ ...version, baseCurrency }))
+			: { ...policy, baseCurrency };
+	}
+	assertPolicyLints(policy, policyName, (message) => out.warn(message));
+	return { policyName, policy, asOf, policyDate, locale };
+}
@@ -3,4 +3,6 @@ export interface Employee {
 	firstName: string;
 	lastName: string;
 	costCenterId: string;
+	/** Free-form attributes policies can match on (e.g. role, grade). */
+	attributes?: Record<string, string> | undefined;
 }
@@ -1,9 +1,15 @@
+import type { Money } from "./money";
+
 export interface Expense {
 	id: string;
-	amount: number;
-	currency: string;
+	/** Amount in the currency the expense was paid in. */
+	amount: Money;
 	category: ExpenseCategory;
 	date: Date;
+	/**
+	 * When the expense was submitted for reimbursement, if known.
+	 */
+	submittedAt?: Date;
 }
 
 export enum ExpenseCategory {
@@ -15,6 +21,8 @@ export enum ExpenseCategory {
 }
 export enum ExpenseStatus {
 	APPROVED = "APPROVED",
+	/** Approved up to a cap; the rest is not reimbursed. */
+	PARTIALLY_APPROVED = "PARTIALLY_APPROVED",
 	REJECTED = "REJECTED",
 	PENDING = "PENDING",
 }
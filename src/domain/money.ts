@@ -0,0 +1,25 @@
+/**
+ * An amount of money stored as an integer number of minor units of its
+ * currency (cents for USD, pesos for CLP, fils for BHD).
+ */
+export interface Money {
+	minor: number;
+	currency: string;
+}
+
+/**
+ * How amounts that fall between two minor units are rounded.
+ * - HALF_UP / HALF_DOWN / HALF_EVEN: to the nearest unit, ties away from
+ *   zero / towards zero / to the even unit
+ * - UP / DOWN: away from / towards zero
+ * - CEILING / FLOOR: towards positive / negative infinity
+ */
+export enum RoundingMode {
+	HALF_UP = "HALF_UP",
+	HALF_DOWN = "HALF_DOWN",
+	HALF_EVEN = "HALF_EVEN",
+	UP = "UP",
+	DOWN = "DOWN",
+	CEILING = "CEILING",
+	FLOOR = "FLOOR",
+}
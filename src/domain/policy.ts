@@ -1,4 +1,5 @@
 import type { ExpenseCategory } from "./expense";
+import type { RoundingMode } from "./money";
 
 export interface Policy {
 	/**
@@ -6,6 +7,11 @@ export interface Policy {
 	 */
 	baseCurrency: string;
 
+	/**
+	 * Rounding applied when converting amounts to baseCurrency (default HALF_UP).
+	 */
+	rounding?: RoundingMode | undefined;
+
 	/**
 	 * Expense age thresholds (in days).
 	 * - 0..approvedUpToDays => APPROVED
@@ -18,7 +24,8 @@ export interface Policy {
 	};
 
 	/**
-	 * Limits per category, expressed in baseCurrency.
+	 * Limits per category, expressed in major units of baseCurrency
+	 * (e.g. 100.50 USD); they are rounded to the currency's minor unit.
 	 */
 	categoryLimits: Partial<Record<ExpenseCategory, CategoryLimit>>;
 
@@ -26,14 +33,208 @@ export interface Policy {
 	 * Cross-rule restrictions by cost center.
 	 */
 	costCenterRules: CostCenterRule[];
+
+	/**
+	 * Cost center tree. Cost center rules, category limits and budgets set
+	 * on a cost center also apply to its descendants; the nearest definition
+	 * (the cost center itself, then its parent, and so on) wins.
+	 */
+	costCenters?: CostCenter[] | undefined;
+
+	/**
+	 * Caps on the total spent per employee or cost center over a period,
+	 * in major units of baseCurrency.
+	 */
+	cumulativeLimits?: CumulativeLimit[] | undefined;
+
+	/**
+	 * Spending budgets per cost center (optionally per category) and
+	 * period, in major units of baseCurrency.
+	 */
+	budgets?: Budget[] | undefined;
+
+	/**
+	 * Limits that replace the policy's for some employees, cost centers or
+	 * employee attributes, optionally only for a period (exemptions).
+	 */
+	overrides?: PolicyOverride[] | undefined;
+
+	/**
+	 * Which registered rules run, and in what order. Omit to run every
+	 * rule enabled by default, in registration order.
+	 */
+	rules?: RuleSettings | undefined;
+
+	/**
+	 * Who reviews PENDING expenses, in which order. Omit for a single
+	 * "manager" step without SLA.
+	 */
+	approvals?: ApprovalSettings | undefined;
+}
+
+export interface RuleSettings {
+	/** Rule ids to run in addition to those enabled by default. */
+	enabled?: string[] | undefined;
+	/** Rule ids to skip. */
+	disabled?: string[] | undefined;
+	/** Rule ids to run first, in this order; the rest follow in registration order. */
+	order?: string[] | undefined;
 }
 
 export interface CategoryLimit {
 	approvedUpTo: number;
 	pendingUpTo: number;
+	/**
+	 * Reimburse amounts over approvedUpTo up to approvedUpTo
+	 * (PARTIALLY_APPROVED) instead of sending them to review or rejecting
+	 * them; pendingUpTo is then not used.
+	 */
+	partialApproval?: boolean | undefined;
+}
+
+export interface CostCenter {
+	id: string;
+	/** Parent cost center id; omit for a root. */
+	parent?: string | undefined;
+	/** Limits replacing the policy-wide ones for this subtree. */
+	categoryLimits?: Partial<Record<ExpenseCategory, CategoryLimit>> | undefined;
+	/** Categories allowed here even if an ancestor forbids them. */
+	allowedCategories?: ExpenseCategory[] | undefined;
 }
 
 export interface CostCenterRule {
 	costCenterId: string;
 	forbiddenCategory: ExpenseCategory;
 }
+
+/**
+ * Period over which a cumulative limit adds up spending, relative to the
+ * expense date (UTC): the same day, ISO week (Monday to Sunday), calendar
+ * month, or the last `rollingDays` days including the expense date.
+ */
+export type SpendingPeriod = "day" | "week" | "month" | "rolling";
+
+export interface CumulativeLimit {
+	/** Names the limit in alerts (e.g. "weekly-food"). */
+	id: string;
+	/** Whose spending is added up: each employee's or each cost center's. */
+	scope: "employee" | "costCenter";
+	/** Category counted; omit to count every category. */
+	category?: ExpenseCategory | undefined;
+	period: SpendingPeriod;
+	/** Window length in days; required when `period` is "rolling". */
+	rollingDays?: number | undefined;
+	approvedUpTo: number;
+	pendingUpTo: number;
+}
+
+/**
+ * Replaces category and age limits for the employees it matches. Every
+ * criterion given must match; cost centers match their descendants too.
+ * When several overrides match, they apply from the least specific
+ * (attributes) to the most specific (employee), so the latter win.
+ */
+export interface PolicyOverride {
+	/** Names the override in results (e.g. "executives"). */
+	id: string;
+	employeeId?: string | undefined;
+	costCenterId?: string | undefined;
+	/** Employee attributes to match, e.g. { "role": "executive" }. */
+	attributes?: Record<string, string> | undefined;
+	categoryLimits?: Partial<Record<ExpenseCategory, CategoryLimit>> | undefined;
+	/**
+	 * "merge" (default) replaces only the categories listed; "replace"
+	 * also drops the limits of every other category.
+	 */
+	categoryLimitsMode?: "merge" | "replace" | undefined;
+	ageLimit?:
+		| {
+				rejectedAfterDays?: number | undefined;
+				pendingAfterDays?: number | undefined;
+		  }
+		| undefined;
+	/** First day (inclusive) the override applies to, by expense date. */
+	validFrom?: Date | undefined;
+	/** Last day (inclusive) the override applies to, by expense date. */
+	validUntil?: Date | undefined;
+}
+
+export interface Budget {
+	/** Names the budget in alerts and the report (e.g. "sales-lodging-q"). */
+	id: string;
+	costCenterId: string;
+	/** Category the budget covers; omit to cover every category. */
+	category?: ExpenseCategory | undefined;
+	/** Calendar period the budget renews on (UTC). */
+	period: "month" | "quarter" | "year";
+	amount: number;
+	/**
+	 * Share of the budget (0..1) from which expenses go to review
+	 * instead of auto-approving (default 0.9).
+	 */
+	warnAt?: number | undefined;
+}
+
+export interface ApprovalSettings {
+	/** Steps a PENDING expense goes through, in order. */
+	steps: ApprovalStep[];
+	/**
+	 * Chains replacing `steps` for a cost center and its descendants; the
+	 * nearest cost center wins.
+	 */
+	costCenters?: CostCenterApprovals[] | undefined;
+}
+
+export interface CostCenterApprovals {
+	costCenterId: string;
+	steps: ApprovalStep[];
+}
+
+/**
+ * One review in an approval chain. Steps without `above` always apply, so
+ * every chain has at least one.
+ */
+export interface ApprovalStep {
+	/** Names the step in the workflow history (e.g. "finance-review"). */
+	id: string;
+	/** Role that acts on the step (e.g. "manager", "finance"). */
+	approver: string;
+	/**
+	 * Only require the step for amounts over this, in major units of
+	 * baseCurrency. Expenses that could not be converted always get it.
+	 */
+	above?: number | undefined;
+	/** Hours the approver has to act before the step escalates. */
+	slaHours?: number | undefined;
+	/** Role the step is reassigned to once `slaHours` run out. */
+	escalateTo?: string | undefined;
+}
+
+/**
+ * A policy together with the period in which it is in force.
+ * Versions are effective from `effectiveFrom` (inclusive) until
+ * `effectiveTo` (exclusive); an omitted `effectiveTo` means open-ended.
+ */
+export interface PolicyVersion extends Policy {
+	id: string;
+	effectiveFrom: Date;
+	effectiveTo?: Date | undefined;
+}
+
+/**
+ * Non-overlapping policy versions, in any order.
+ */
+export type PolicyHistory = PolicyVersion[];
+
+/**
+ * Either a single policy applied to every expense, or a history whose
+ * version is picked per expense.
+ */
+export type PolicySource = Policy | PolicyHistory;
+
+/**
+ * Which date selects the policy version for an expense:
+ * - "expense": the date the expense was incurred
+ * - "submission": the date it was submitted for reimbursement
+ */
+export type PolicyDateBasis = "expense" | "submission";
@@ -1,12 +1,207 @@
 import type { ExpenseStatus } from "./expense";
+import type { Money } from "./money";
 
 export interface ValidationResult {
 	expenseId: string;
 	status: ExpenseStatus;
 	alerts: Alert[];
+	/**
+	 * Id of the policy version applied, when validating against a history.
+	 */
+	policyVersionId?: string;
+	/**
+	 * Amount the rules checked, in the policy base currency. Absent when the
+	 * expense was settled before the rules ran or could not be converted.
+	 */
+	checkedAmount?: Money;
+	/** Ids of the policy overrides applied to this expense, if any. */
+	overrideIds?: string[];
+	/**
+	 * What is reimbursed, for APPROVED and PARTIALLY_APPROVED expenses whose
+	 * amount could be converted; `original` is in the expense currency.
+	 */
+	approvedAmount?: { base: Money; original: Money };
+	/** What is not reimbursed of the same expenses (zero when APPROVED). */
+	nonReimbursableAmount?: { base: Money; original: Money };
+	/** How the decision was reached, when validated with `{ explain: true }`. */
+	trace?: DecisionTrace;
 }
 
-export interface Alert {
+/**
+ * Everything that went into a decision, in plain JSON-friendly values:
+ * amounts in major units, dates as YYYY-MM-DD.
+ */
+export interface DecisionTrace {
+	expenseId: string;
+	amount: number;
+	currency: string;
+	category: string;
+	expenseDate: string;
+	asOf: string;
+	/** Date that picked the policy version. */
+	policyDate: string;
+	policyVersionId?: string;
+	overrideIds: string[];
+	conversion?: ConversionTrace;
+	/** Rules in the order they ran (none when settled before the rules). */
+	rules: RuleTrace[];
+	status: ExpenseStatus;
+	/**
+	 * Rules (or engine steps such as "currency-conversion") that produced
+	 * the final status; empty when every rule approved.
+	 */
+	decidedBy: string[];
+}
+
+export interface ConversionTrace {
+	originalAmount: number;
+	originalCurrency: string;
+	baseCurrency: string;
+	convertedAmount?: number;
+	/** Units of base currency per unit of the original currency. */
+	rate?: number;
+	/** Day of the rates used, when not the expense date. */
+	rateDate?: string;
+	/** Provider of the rates, when they came from an `FxProvider`. */
+	provider?: string;
+	/** Why the conversion failed. */
+	error?: string;
+}
+
+export interface RuleTrace {
+	ruleId: string;
+	description: string;
+	status: ExpenseStatus;
+	/** Values the rule looked at (e.g. daysOld, amount). */
+	inputs: AlertParams;
+	/** Limits it compared them against (e.g. pendingUpTo). */
+	thresholds: AlertParams;
+	/** Whether this rule's status is the final one. */
+	deciding: boolean;
+}
+
+export enum AlertSeverity {
+	INFO = "INFO",
+	WARNING = "WARNING",
+	ERROR = "ERROR",
+}
+
+export type AlertParamValue = string | number | boolean;
+export type AlertParams = Record<string, AlertParamValue>;
+
+export interface Alert<P extends AlertParams = AlertParams> {
 	code: string;
+	/**
+	 * Id of the rule that raised the alert. Checks done by the engine itself
+	 * (amount, policy version, currency conversion) use their own ids.
+	 */
+	ruleId: string;
+	/** Status produced by the rule that raised the alert. */
+	status: ExpenseStatus;
+	severity: AlertSeverity;
+	/** Values needed to render the alert (amounts, currencies, limits, days). */
+	params: P;
+	/**
+	 * Description rendered in `ValidateOptions.locale` (English by default);
+	 * to show it in another language, render from `code` and `params`.
+	 */
 	message: string;
 }
+
+/**
+ * Params carried by each alert code the engine and built-in rules raise.
+ * Amounts are in major units of the accompanying currency.
+ */
+export interface BuiltinAlertParams {
+	NEGATIVE_AMOUNT: { amount: number; currency: string };
+	POLICY_VERSION_NOT_FOUND: { date: string };
+	CURRENCY_MISMATCH: {
+		originalAmount: number;
+		originalCurrency: string;
+		convertedAmount: number;
+		baseCurrency: string;
+	};
+	CURRENCY_CONVERSION_ERROR: {
+		amount: number;
+		currency: string;
+		baseCurrency: string;
+		reason: string;
+	};
+	FX_RATE_STALE: {
+		requestedDate: string;
+		rateDate: string;
+		provider: string;
+		currency: string;
+	};
+	AGE_LIMIT: { daysOld: number; limitDays: number };
+	CATEGORY_LIMIT: {
+		amount: number;
+		currency: string;
+		category: string;
+		limit: number;
+		limitKind: "approvedUpTo" | "pendingUpTo";
+		/** Cost center whose limit applied, when not the policy-wide one. */
+		definedOn?: string;
+	};
+	CATEGORY_LIMIT_CAPPED: {
+		amount: number;
+		currency: string;
+		category: string;
+		/** Reimbursed amount, the category's approvedUpTo. */
+		limit: number;
+		nonReimbursable: number;
+		/** Cost center whose limit applied, when not the policy-wide one. */
+		definedOn?: string;
+	};
+	COST_CENTER_POLICY: {
+		costCenterId: string;
+		category: string;
+		/** Ancestor that set the rule, when it is not `costCenterId` itself. */
+		ruleCostCenterId?: string;
+	};
+	CUMULATIVE_LIMIT: {
+		limitId: string;
+		scope: "employee" | "costCenter";
+		/** Employee id or cost center id, per `scope`. */
+		scopeId: string;
+		/** The limit's category, or "ALL". */
+		category: string;
+		periodStart: string;
+		periodEnd: string;
+		/** Spending in the period including this expense. */
+		total: number;
+		currency: string;
+		limit: number;
+		limitKind: "approvedUpTo" | "pendingUpTo";
+	};
+	BUDGET_LIMIT: {
+		budgetId: string;
+		costCenterId: string;
+		/** The budget's category, or "ALL". */
+		category: string;
+		periodStart: string;
+		periodEnd: string;
+		/** Approved spending charged before this expense. */
+		spent: number;
+		/** Spending including this expense. */
+		total: number;
+		budget: number;
+		currency: string;
+		/** `total` as a percentage of `budget`. */
+		usedPercent: number;
+	};
+}
+
+export type BuiltinAlertCode = keyof BuiltinAlertParams;
+
+export type BuiltinAlert = {
+	[C in BuiltinAlertCode]: Alert<BuiltinAlertParams[C]> & { code: C };
+}[BuiltinAlertCode];
+
+/**
+ * Params type for an alert code: the built-in shape for built-in codes,
+ * free-form params for codes raised by custom rules.
+ */
+export type AlertParamsFor<C extends string> = C extends BuiltinAlertCode
+	? BuiltinAlertParams[C]
+	: AlertParams;
@@ -0,0 +1,17 @@
+import type { ExpenseCategory } from "./expense";
+import type { Money } from "./money";
+
+/**
+ * An expense already counted against cumulative limits. Callers keep these
+ * for the expenses they accepted (APPROVED or PENDING) and pass them to
+ * `validateExpense` as the spending history.
+ */
+export interface SpendingRecord {
+	expenseId: string;
+	employeeId: string;
+	costCenterId: string;
+	category: ExpenseCategory;
+	date: Date;
+	/** Amount in the policy base currency. */
+	amount: Money;
+}
@@ -0,0 +1,91 @@
+import type { Money } from "./money";
+import type { ApprovalStep } from "./policy";
+
+/**
+ * Where a PENDING expense stands in its review:
+ * - IN_REVIEW: waiting for the assignee of the current step
+ * - INFO_REQUESTED: waiting for the employee to answer a question (the
+ *   SLA clock is stopped)
+ * - APPROVED / REJECTED: settled, no further actions are accepted
+ */
+export type WorkflowState =
+	| "IN_REVIEW"
+	| "INFO_REQUESTED"
+	| "APPROVED"
+	| "REJECTED";
+
+export type WorkflowEventType =
+	| "STARTED"
+	| "APPROVED"
+	| "REJECTED"
+	| "INFO_REQUESTED"
+	| "INFO_PROVIDED"
+	| "ESCALATED";
+
+/**
+ * The review of one PENDING expense, with everything that happened to it.
+ * Workflows are replaced, never mutated, by each action.
+ */
+export interface ApprovalWorkflow {
+	expenseId: string;
+	employeeId: string;
+	costCenterId: string;
+	/** Id of the policy version the chain was taken from, for histories. */
+	policyVersionId?: string | undefined;
+	/**
+	 * Amount under review, in the policy base currency. Absent when the
+	 * expense could not be converted.
+	 */
+	amount?: Money | undefined;
+	/** Steps that apply to this expense, in order. */
+	steps: ApprovalStep[];
+	/** Index in `steps` of the step awaiting action. */
+	currentStep: number;
+	state: WorkflowState;
+	/**
+	 * Role expected to act: the step's approver, or its `escalateTo` once
+	 * escalated. Absent once settled.
+	 */
+	assignee?: string | undefined;
+	/** When the current step escalates; absent without SLA or while paused. */
+	dueAt?: Date | undefined;
+	/** Every event, oldest first. */
+	history: WorkflowEvent[];
+}
+
+export interface WorkflowEvent {
+	at: Date;
+	type: WorkflowEventType;
+	/** Step the event happened on. */
+	stepId: string;
+	/** Who acted; absent for events raised by the workflow itself. */
+	actorId?: string | undefined;
+	/** Role assigned after the event, while the workflow is open. */
+	assignee?: string | undefined;
+	comment?: string | undefined;
+}
+
+/**
+ * Someone acting on a workflow, with the role they act in.
+ */
+export interface WorkflowActor {
+	id: string;
+	role: string;
+}
+
+/**
+ * - approve / reject / request-info: by the assignee of the current step
+ * - provide-info: by the employee who submitted the expense
+ */
+export type WorkflowActionType =
+	| "approve"
+	| "reject"
+	| "request-info"
+	| "provide-info";
+
+export interface WorkflowAction {
+	type: WorkflowActionType;
+	actor: WorkflowActor;
+	/** Required to reject and to request information. */
+	comment?: string | undefined;
+}
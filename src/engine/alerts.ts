@@ -0,0 +1,58 @@
+/**
+ * Alert helpers shared by the engine and rules (built-in or custom).
+ */
+
+import { ExpenseStatus } from "../domain/expense";
+import {
+	type Alert,
+	type AlertParamsFor,
+	AlertSeverity,
+	type BuiltinAlertCode,
+	type BuiltinAlertParams,
+} from "../domain/result";
+
+/**
+ * Default severity for an alert raised alongside `status`.
+ */
+export function severityFor(status: ExpenseStatus): AlertSeverity {
+	switch (status) {
+		case ExpenseStatus.REJECTED:
+			return AlertSeverity.ERROR;
+		case ExpenseStatus.PENDING:
+		case ExpenseStatus.PARTIALLY_APPROVED:
+			return AlertSeverity.WARNING;
+		default:
+			return AlertSeverity.INFO;
+	}
+}
+
+/**
+ * Builds an alert, deriving its severity from `status` unless given.
+ * Built-in codes are type-checked against their params shape.
+ *
+ * `message` can be omitted for codes that have an entry in the message
+ * catalog; the engine renders it in the requested locale.
+ */
+export function createAlert<C extends string>(
+	fields: Omit<Alert<AlertParamsFor<C>>, "code" | "severity" | "message"> & {
+		code: C;
+		severity?: AlertSeverity;
+		message?: string;
+	},
+): Alert<AlertParamsFor<C>> & { code: C } {
+	return {
+		...fields,
+		severity: fields.severity ?? severityFor(fields.status),
+		message: fields.message ?? "",
+	};
+}
+
+/**
+ * Narrows an alert to a built-in code so its params can be read with their types.
+ */
+export function isAlertCode<C extends BuiltinAlertCode>(
+	alert: Alert,
+	code: C,
+): alert is Alert<BuiltinAlertParams[C]> & { code: C } {
+	return alert.code === code;
+}
@@ -0,0 +1,108 @@
+/**
+ * Budget Ledger Module
+ *
+ * Keeps what each budget has consumed per period, in the policy base
+ * currency. The engine reads it when applying the budget rule and adds
+ * an expense's amount to every budget it falls under once the expense is
+ * APPROVED, so one ledger should follow a whole batch of validations.
+ */
+
+import type { Employee } from "../domain/employee";
+import type { Expense } from "../domain/expense";
+import type { Money } from "../domain/money";
+import type { Budget, Policy } from "../domain/policy";
+import { resolveBudgets } from "../policy/cost-centers";
+import { calendarPeriod, toDateKey } from "../utils/date";
+import { addMoney, zeroMoney } from "../utils/money";
+
+export interface BudgetAccount {
+	budget: Budget;
+	/** First and last day (YYYY-MM-DD, inclusive) of the period. */
+	periodStart: string;
+	periodEnd: string;
+	/** Approved spending charged to the budget in the period. */
+	spent: Money;
+}
+
+export class BudgetLedger {
+	private readonly byKey = new Map<string, BudgetAccount>();
+
+	/**
+	 * The account of `budget` for the period containing `date`, with nothing
+	 * spent if no expense has been charged to it yet. Reading does not open
+	 * the account; only `charge` does.
+	 */
+	account(budget: Budget, date: Date, currency: string): BudgetAccount {
+		const [periodStart, periodEnd] = calendarPeriod(
+			toDateKey(date),
+			budget.period,
+		);
+		return (
+			this.byKey.get(accountKey(budget, periodStart)) ?? {
+				budget,
+				periodStart,
+				periodEnd,
+				spent: zeroMoney(currency),
+			}
+		);
+	}
+
+	/**
+	 * Charges an approved expense's amount (in base currency) to every
+	 * budget of `policy` it falls under.
+	 */
+	charge(
+		policy: Policy,
+		expense: Expense,
+		employee: Employee,
+		amount: Money,
+	): void {
+		for (const budget of budgetsFor(policy, expense, employee)) {
+			const account = this.account(budget, expense.date, amount.currency);
+			this.byKey.set(accountKey(budget, account.periodStart), {
+				...account,
+				spent: addMoney(account.spent, amount),
+			});
+		}
+	}
+
+	/**
+	 * Every account charged so far, by budget id then period.
+	 */
+	accounts(): BudgetAccount[] {
+		return [...this.byKey.values()].sort(
+			(a, b) =>
+				a.budget.id.localeCompare(b.budget.id) ||
+				a.periodStart.localeCompare(b.periodStart),
+		);
+	}
+}
+
+/**
+ * Budgets of `policy` covering the employee's cost center (directly or
+ * through an ancestor) and the expense category.
+ */
+export function budgetsFor(
+	policy: Policy,
+	expense: Expense,
+	employee: Employee,
+): Budget[] {
+	return resolveBudgets(policy, employee.costCenterId, expense.category);
+}
+
+/**
+ * `spent` as a whole percentage of `budget` (100 for an empty budget).
+ */
+export function usedPercent(spent: Money, budget: Money): number {
+	return budget.minor > 0
+		? Math.round((spent.minor / budget.minor) * 100)
+		: 100;
+}
+
+// --- Internal helpers ---
+
+// Policy versions may reuse a budget id with another amount; each amount
+// keeps its own account
+function accountKey(budget: Budget, periodStart: string): string {
+	return `${budget.id}|${budget.amount}|${periodStart}`;
+}
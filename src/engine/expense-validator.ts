@@ -2,184 +2,484 @@
  * Expense Validator Module
  *
  * Validates expenses against a configurable policy, returning a status
- * (APPROVED, PENDING, REJECTED) and a list of alerts explaining the decision.
+ * (APPROVED, PARTIALLY_APPROVED, PENDING, REJECTED) and a list of alerts
+ * explaining the decision.
  *
- * Validation rules:
+ * Validation rules come from a `RuleRegistry` (see rule-registry.ts); the
+ * built-in ones are:
  * - Age limit: rejects expenses older than a threshold
- * - Category limits: enforces per-category spending caps
+ * - Category limits: enforces per-category spending caps, or caps the
+ *   reimbursed amount (PARTIALLY_APPROVED) for categories that allow it
  * - Cost center rules: blocks forbidden category/cost-center combinations
- * - Currency conversion: converts to base currency before comparing limits
+ * - Cumulative limits: caps spending per employee or cost center over a
+ *   period, counting the spending history passed in `options.history`
+ * - Budgets: charges approved expenses to cost center budgets tracked in
+ *   `options.ledger`
+ *
+ * Before running rules, the amount is converted to the policy base currency,
+ * using the given rates or rates for the expense date from an `FxProvider`.
+ * Rates the provider took from another day or a fallback provider raise
+ * FX_RATE_STALE, so reviewers can see which rate backed the decision.
+ *
+ * The policy can also be a history of effective-dated versions; the version
+ * in force on the expense date (or submission date) is applied, with the
+ * overrides matching the employee folded in.
+ *
+ * With `options.explain` the result carries a `DecisionTrace`: the
+ * conversion, each rule's inputs, thresholds and status, and which rules
+ * decided the outcome (see explain.ts to render it).
  */
 
 import type { Employee } from "../domain/employee";
 import { type Expense, ExpenseStatus } from "../domain/expense";
-import type { Policy } from "../domain/policy";
-import type { Alert, ValidationResult } from "../domain/result";
-import { daysBetween } from "../utils/date";
-import { convertCurrency, type ExchangeRates } from "../utils/fx";
-
-type RuleContext = {
-	expense: Expense;
-	employee: Employee;
-	policy: Policy;
-	amountToCheck: number;
-	asOf: Date;
-};
+import type { Money } from "../domain/money";
+import type { Policy, PolicyDateBasis, PolicySource } from "../domain/policy";
+import {
+	type Alert,
+	AlertSeverity,
+	type ConversionTrace,
+	type DecisionTrace,
+	type RuleTrace,
+	type ValidationResult,
+} from "../domain/result";
+import type { SpendingRecord } from "../domain/spending";
+import { getTranslator } from "../i18n/translator";
+import { type FxProvider, isFxProvider } from "../fx/provider";
+import type { Locale } from "../i18n/types";
+import { policyDateFor, selectPolicy } from "../policy/history";
+import { applyOverrides } from "../policy/overrides";
+import { toDateKey } from "../utils/date";
+import { convertCurrency, convertMoney, type ExchangeRates } from "../utils/fx";
+import {
+	compareMoney,
+	DEFAULT_ROUNDING_MODE,
+	roundToInteger,
+	subtractMoney,
+	toMajor,
+} from "../utils/money";
+import { createAlert } from "./alerts";
+import type { BudgetLedger } from "./budget-ledger";
+import type { RuleContext } from "./rule";
+import { defaultRuleRegistry, type RuleRegistry } from "./rule-registry";
+import { SpendingHistory } from "./spending-history";
+
+const CURRENCY_RULE_ID = "currency-conversion";
+
+export interface ValidateOptions {
+	/**
+	 * Which date picks the version when `policy` is a history (default "expense").
+	 * "submission" uses `expense.submittedAt`, falling back to `asOf`.
+	 */
+	policyDate?: PolicyDateBasis;
+	/** Rules to run (default `defaultRuleRegistry`). */
+	registry?: RuleRegistry;
+	/** Language of the alert messages (default "en"). */
+	locale?: Locale;
+	/** Earlier accepted spending, for cumulative limits (default none). */
+	history?: SpendingHistory | SpendingRecord[];
+	/** Attach a `DecisionTrace` to the result (default false). */
+	explain?: boolean;
+	/**
+	 * Budget consumption to check against and, when the expense ends up
+	 * APPROVED or PARTIALLY_APPROVED, charge the approved amount to
+	 * (default none).
+	 */
+	ledger?: BudgetLedger;
+}
 
 /**
- * Validates an expense against a policy and returns the result.
+ * The rates `validateExpense` will ask an `FxProvider` for, if any: the
+ * expense date and the currencies to convert between. Follows the same
+ * steps (amount check, policy version, overrides) so batch runs can fetch
+ * rates ahead of validation.
+ */
+export function rateLookupFor(
+	expense: Expense,
+	employee: Employee,
+	policySource: PolicySource,
+	asOf: Date = new Date(),
+	policyDate: PolicyDateBasis = "expense",
+): { dateKey: string; currencies: string[] } | undefined {
+	if (expense.amount.minor <= 0) return undefined;
+	const selected = selectPolicy(
+		policySource,
+		policyDateFor(expense, policyDate, asOf),
+	);
+	if (!selected) return undefined;
+	const { policy } = applyOverrides(selected.policy, employee, expense.date);
+	if (expense.amount.currency === policy.baseCurrency) return undefined;
+	return {
+		dateKey: toDateKey(expense.date),
+		currencies: [expense.amount.currency, policy.baseCurrency],
+	};
+}
+
+/**
+ * Validates an expense against a policy (or policy history) and returns the result.
  */
 export async function validateExpense(
 	expense: Expense,
 	employee: Employee,
-	policy: Policy,
-	rates: ExchangeRates | undefined,
+	policySource: PolicySource,
+	rates: ExchangeRates | FxProvider | undefined,
 	asOf: Date = new Date(),
+	options: ValidateOptions = {},
 ): Promise<ValidationResult> {
-	if (expense.amount <= 0) {
+	const policyDate = policyDateFor(
+		expense,
+		options.policyDate ?? "expense",
+		asOf,
+	);
+
+	if (expense.amount.minor <= 0) {
 		const alerts: Alert[] = [
-			{
+			createAlert({
 				code: "NEGATIVE_AMOUNT",
-				message: `Expense has non-positive amount (${expense.amount}).`,
-			},
+				ruleId: "amount",
+				status: ExpenseStatus.REJECTED,
+				params: {
+					amount: toMajor(expense.amount),
+					currency: expense.amount.currency,
+				},
+			}),
 		];
 		return {
 			expenseId: expense.id,
 			status: ExpenseStatus.REJECTED,
-			alerts,
+			alerts: renderMessages(alerts, options),
+			...(options.explain && {
+				trace: decisionTrace(expense, asOf, policyDate, {
+					status: ExpenseStatus.REJECTED,
+					decidedBy: ["amount"],
+				}),
+			}),
 		};
 	}
 
+	const selected = selectPolicy(policySource, policyDate);
+	if (!selected) {
+		return {
+			expenseId: expense.id,
+			status: ExpenseStatus.PENDING,
+			alerts: renderMessages(
+				[
+					createAlert({
+						code: "POLICY_VERSION_NOT_FOUND",
+						ruleId: "policy-version",
+						status: ExpenseStatus.PENDING,
+						params: { date: toDateKey(policyDate) },
+					}),
+				],
+				options,
+			),
+			...(options.explain && {
+				trace: decisionTrace(expense, asOf, policyDate, {
+					status: ExpenseStatus.PENDING,
+					decidedBy: ["policy-version"],
+				}),
+			}),
+		};
+	}
+	const { versionId } = selected;
+	const { policy, overrideIds } = applyOverrides(
+		selected.policy,
+		employee,
+		expense.date,
+	);
+
 	let amountToCheck = expense.amount;
 	const alerts: Alert[] = [];
+	let conversion: ConversionTrace | undefined;
 
 	// Handle currency mismatch
-	if (expense.currency !== policy.baseCurrency) {
+	if (expense.amount.currency !== policy.baseCurrency) {
 		if (!rates) {
 			throw new Error(
-				`Exchange rates are required to convert ${expense.currency} -> ${policy.baseCurrency}`,
+				`Exchange rates are required to convert ${expense.amount.currency} -> ${policy.baseCurrency}`,
 			);
 		}
-		const originalAmount = expense.amount;
-		const fromCurrency = expense.currency;
+		const originalAmount = toMajor(expense.amount);
+		const fromCurrency = expense.amount.currency;
+		const requestedDate = toDateKey(expense.date);
 		try {
-			const convertedAmount = convertCurrency(
+			const exchangeRates = isFxProvider(rates)
+				? await rates.getRatesForDate(requestedDate, [
+						fromCurrency,
+						policy.baseCurrency,
+					])
+				: rates;
+			const converted = convertMoney(
 				expense.amount,
-				expense.currency,
 				policy.baseCurrency,
-				rates,
+				exchangeRates,
+				policy.rounding ?? DEFAULT_ROUNDING_MODE,
+			);
+			amountToCheck = converted;
+			const convertedAmount = toMajor(converted);
+			conversion = {
+				originalAmount,
+				originalCurrency: fromCurrency,
+				baseCurrency: policy.baseCurrency,
+				convertedAmount,
+				rate: convertCurrency(
+					1,
+					fromCurrency,
+					policy.baseCurrency,
+					exchangeRates,
+				),
+				...(exchangeRates.date !== undefined && {
+					rateDate: exchangeRates.date,
+				}),
+				...(isFxProvider(rates) && {
+					provider: exchangeRates.provider ?? rates.name,
+				}),
+			};
+			alerts.push(
+				createAlert({
+					code: "CURRENCY_MISMATCH",
+					ruleId: CURRENCY_RULE_ID,
+					status: ExpenseStatus.APPROVED,
+					params: {
+						originalAmount,
+						originalCurrency: fromCurrency,
+						convertedAmount,
+						baseCurrency: policy.baseCurrency,
+					},
+				}),
 			);
-			amountToCheck = convertedAmount;
-			alerts.push({
-				code: "CURRENCY_MISMATCH",
-				message: `Converting ${originalAmount.toFixed(2)} ${fromCurrency} --> ${convertedAmount.toFixed(2)} ${policy.baseCurrency}.`,
-			});
+			if (
+				isFxProvider(rates) &&
+				(exchangeRates.date !== undefined ||
+					exchangeRates.provider !== undefined)
+			) {
+				alerts.push(
+					createAlert({
+						code: "FX_RATE_STALE",
+						ruleId: CURRENCY_RULE_ID,
+						status: ExpenseStatus.APPROVED,
+						severity: AlertSeverity.WARNING,
+						params: {
+							requestedDate,
+							rateDate: exchangeRates.date ?? requestedDate,
+							provider: exchangeRates.provider ?? rates.name,
+							currency: fromCurrency,
+						},
+					}),
+				);
+			}
 		} catch (error) {
-			alerts.push({
-				code: "CURRENCY_CONVERSION_ERROR",
-				message: `Failed to convert ${originalAmount.toFixed(2)} ${fromCurrency} to ${policy.baseCurrency}: ${error instanceof Error ? error.message : "Unknown error"}. Manual review required.`,
-			});
+			const reason = error instanceof Error ? error.message : "Unknown error";
+			conversion = {
+				originalAmount,
+				originalCurrency: fromCurrency,
+				baseCurrency: policy.baseCurrency,
+				error: reason,
+			};
+			alerts.push(
+				createAlert({
+					code: "CURRENCY_CONVERSION_ERROR",
+					ruleId: CURRENCY_RULE_ID,
+					status: ExpenseStatus.PENDING,
+					params: {
+						amount: originalAmount,
+						currency: fromCurrency,
+						baseCurrency: policy.baseCurrency,
+						reason,
+					},
+				}),
+			);
 		}
 	}
 
-	const ctx: RuleContext = { expense, employee, policy, amountToCheck, asOf };
+	const ctx: RuleContext = {
+		expense,
+		employee,
+		policy,
+		amountToCheck,
+		asOf,
+		history: Array.isArray(options.history)
+			? SpendingHistory.from(options.history)
+			: (options.history ?? new SpendingHistory()),
+		ledger: options.ledger,
+	};
 
-	// Check each rule and collect the most restrictive status
-	const ageStatus = checkAge(ctx, alerts);
-	const categoryStatus = checkCategoryLimit(ctx, alerts);
-	const costCenterStatus = checkCostCenter(ctx, alerts);
+	// Run each active rule and collect the most restrictive status
+	const rules = (options.registry ?? defaultRuleRegistry).resolve(policy.rules);
+	const statuses: ExpenseStatus[] = [];
+	const ruleTraces: RuleTrace[] = [];
+	let reimbursableUpTo: Money | undefined;
+	for (const rule of rules) {
+		const outcome = await rule.evaluate(ctx);
+		statuses.push(outcome.status);
+		ruleTraces.push({
+			ruleId: rule.id,
+			description: rule.description,
+			status: outcome.status,
+			inputs: outcome.inputs ?? {},
+			thresholds: outcome.thresholds ?? {},
+			deciding: false,
+		});
+		alerts.push(...outcome.alerts);
+		if (
+			outcome.status === ExpenseStatus.PARTIALLY_APPROVED &&
+			outcome.reimbursableUpTo &&
+			(!reimbursableUpTo ||
+				compareMoney(outcome.reimbursableUpTo, reimbursableUpTo) < 0)
+		) {
+			reimbursableUpTo = outcome.reimbursableUpTo;
+		}
+	}
 
 	// Get the most restrictive status
-	let finalStatus = getMostRestrictive([
-		ageStatus,
-		categoryStatus,
-		costCenterStatus,
-	]);
+	let finalStatus = getMostRestrictive(statuses);
 
 	// If currency conversion failed, ensure status is at least PENDING
+	const conversionFailed = alerts.some(
+		(a) => a.code === "CURRENCY_CONVERSION_ERROR",
+	);
 	if (
-		alerts.some((a) => a.code === "CURRENCY_CONVERSION_ERROR") &&
-		finalStatus === ExpenseStatus.APPROVED
+		conversionFailed &&
+		(finalStatus === ExpenseStatus.APPROVED ||
+			finalStatus === ExpenseStatus.PARTIALLY_APPROVED)
 	) {
 		finalStatus = ExpenseStatus.PENDING;
 	}
 
+	const amounts =
+		(finalStatus === ExpenseStatus.APPROVED ||
+			finalStatus === ExpenseStatus.PARTIALLY_APPROVED) &&
+		amountToCheck.currency === policy.baseCurrency
+			? splitApprovedAmount(
+					expense.amount,
+					amountToCheck,
+					finalStatus === ExpenseStatus.PARTIALLY_APPROVED
+						? reimbursableUpTo
+						: undefined,
+					policy,
+				)
+			: undefined;
+	if (amounts) {
+		options.ledger?.charge(policy, expense, employee, amounts.approved.base);
+	}
+
+	// A rule decided the outcome when it reported the final status
+	if (finalStatus !== ExpenseStatus.APPROVED) {
+		for (const rule of ruleTraces) {
+			rule.deciding = rule.status === finalStatus;
+		}
+	}
+
 	return {
 		expenseId: expense.id,
 		status: finalStatus,
-		alerts,
+		alerts: renderMessages(alerts, options),
+		...(versionId !== undefined && { policyVersionId: versionId }),
+		...(overrideIds.length > 0 && { overrideIds }),
+		...(amountToCheck.currency === policy.baseCurrency && {
+			checkedAmount: amountToCheck,
+		}),
+		...(amounts && {
+			approvedAmount: amounts.approved,
+			nonReimbursableAmount: amounts.nonReimbursable,
+		}),
+		...(options.explain && {
+			trace: decisionTrace(expense, asOf, policyDate, {
+				status: finalStatus,
+				decidedBy: [
+					...(conversionFailed && finalStatus === ExpenseStatus.PENDING
+						? [CURRENCY_RULE_ID]
+						: []),
+					...ruleTraces
+						.filter((rule) => rule.deciding)
+						.map((rule) => rule.ruleId),
+				],
+				...(versionId !== undefined && { policyVersionId: versionId }),
+				overrideIds,
+				...(conversion && { conversion }),
+				rules: ruleTraces,
+			}),
+		}),
 	};
 }
 
 // --- Internal helper functions (not exported = module-private) ---
 
-function checkAge(ctx: RuleContext, alerts: Alert[]): ExpenseStatus {
-	const daysOld = Math.max(0, daysBetween(ctx.expense.date, ctx.asOf));
-	const { rejectedAfterDays, pendingAfterDays } = ctx.policy.ageLimit;
-
-	if (daysOld > rejectedAfterDays) {
-		alerts.push({
-			code: "AGE_LIMIT",
-			message: `Expense is ${daysOld} days old (Limit: ${rejectedAfterDays}).`,
-		});
-		return ExpenseStatus.REJECTED;
-	}
-
-	if (daysOld > pendingAfterDays) {
-		alerts.push({
-			code: "AGE_LIMIT",
-			message: `Expense is ${daysOld} days old; requires review.`,
-		});
-		return ExpenseStatus.PENDING;
-	}
-
-	return ExpenseStatus.APPROVED;
-}
-
-function checkCategoryLimit(ctx: RuleContext, alerts: Alert[]): ExpenseStatus {
-	const categoryPolicy = ctx.policy.categoryLimits[ctx.expense.category];
-
-	if (!categoryPolicy) return ExpenseStatus.APPROVED;
-
-	if (ctx.amountToCheck > categoryPolicy.pendingUpTo) {
-		alerts.push({
-			code: "CATEGORY_LIMIT",
-			message: `$${ctx.amountToCheck.toFixed(2)} exceeds maximum allowed ($${categoryPolicy.pendingUpTo.toFixed(2)}) for ${ctx.expense.category}.`,
-		});
-		return ExpenseStatus.REJECTED;
-	}
-
-	if (ctx.amountToCheck > categoryPolicy.approvedUpTo) {
-		alerts.push({
-			code: "CATEGORY_LIMIT",
-			message: `$${ctx.amountToCheck.toFixed(2)} exceeds auto-approval limit ($${categoryPolicy.approvedUpTo.toFixed(2)}), requires review.`,
-		});
-		return ExpenseStatus.PENDING;
-	}
-
-	return ExpenseStatus.APPROVED;
+function renderMessages(alerts: Alert[], options: ValidateOptions): Alert[] {
+	const translator = getTranslator(options.locale ?? "en");
+	return alerts.map((alert) => ({
+		...alert,
+		message: translator.alert(alert),
+	}));
 }
 
-function checkCostCenter(ctx: RuleContext, alerts: Alert[]): ExpenseStatus {
-	const violation = ctx.policy.costCenterRules.find(
-		(r) =>
-			r.costCenterId === ctx.employee.costCenterId &&
-			r.forbiddenCategory === ctx.expense.category,
-	);
-
-	if (violation) {
-		alerts.push({
-			code: "COST_CENTER_POLICY",
-			message: `Cost center '${ctx.employee.costCenterId}' is not allowed to expense '${ctx.expense.category}'.`,
-		});
-		return ExpenseStatus.REJECTED;
-	}
-
-	return ExpenseStatus.APPROVED;
+function decisionTrace(
+	expense: Expense,
+	asOf: Date,
+	policyDate: Date,
+	decision: Pick<DecisionTrace, "status" | "decidedBy"> &
+		Partial<
+			Pick<
+				DecisionTrace,
+				"policyVersionId" | "overrideIds" | "conversion" | "rules"
+			>
+		>,
+): DecisionTrace {
+	return {
+		expenseId: expense.id,
+		amount: toMajor(expense.amount),
+		currency: expense.amount.currency,
+		category: expense.category,
+		expenseDate: toDateKey(expense.date),
+		asOf: toDateKey(asOf),
+		policyDate: toDateKey(policyDate),
+		overrideIds: [],
+		rules: [],
+		...decision,
+	};
 }
 
 function getMostRestrictive(statuses: ExpenseStatus[]): ExpenseStatus {
 	if (statuses.includes(ExpenseStatus.REJECTED)) return ExpenseStatus.REJECTED;
 	if (statuses.includes(ExpenseStatus.PENDING)) return ExpenseStatus.PENDING;
+	if (statuses.includes(ExpenseStatus.PARTIALLY_APPROVED)) {
+		return ExpenseStatus.PARTIALLY_APPROVED;
+	}
 	return ExpenseStatus.APPROVED;
 }
+
+/**
+ * Splits the expense into what is reimbursed (at most `cap`, in base
+ * currency) and what is not, in base and in the original currency. The
+ * original-currency share is proportional to the base one, so both halves
+ * add up to the expense amount exactly.
+ */
+function splitApprovedAmount(
+	original: Money,
+	checked: Money,
+	cap: Money | undefined,
+	policy: Policy,
+): {
+	approved: { base: Money; original: Money };
+	nonReimbursable: { base: Money; original: Money };
+} {
+	const approvedBase = cap && compareMoney(cap, checked) < 0 ? cap : checked;
+	const approvedOriginal: Money =
+		approvedBase === checked
+			? original
+			: original.currency === checked.currency
+				? approvedBase
+				: {
+						minor: roundToInteger(
+							(original.minor * approvedBase.minor) / checked.minor,
+							policy.rounding ?? DEFAULT_ROUNDING_MODE,
+						),
+						currency: original.currency,
+					};
+	return {
+		approved: { base: approvedBase, original: approvedOriginal },
+		nonReimbursable: {
+			base: subtractMoney(checked, approvedBase),
+			original: subtractMoney(original, approvedOriginal),
+		},
+	};
+}
@@ -0,0 +1,123 @@
+/**
+ * Explain Module
+ *
+ * Renders the `DecisionTrace` of a result validated with `{ explain: true }`
+ * as a human-readable explanation in the chosen locale. The trace itself
+ * is plain data, so `JSON.stringify(result.trace)` gives the JSON form.
+ */
+
+import type { AlertParams, ValidationResult } from "../domain/result";
+import { getTranslator, type Translator } from "../i18n/translator";
+import type { Locale } from "../i18n/types";
+
+/**
+ * Explains how `result` was decided: the expense, policy version and
+ * overrides, the conversion, each rule with its inputs, thresholds and
+ * alerts, and the rules that decided the final status.
+ * @throws {Error} If the result carries no trace
+ */
+export function explainResult(
+	result: ValidationResult,
+	locale: Locale = "en",
+): string {
+	const { trace } = result;
+	if (!trace) {
+		throw new Error(
+			`Result for expense ${result.expenseId} has no trace; validate with { explain: true }`,
+		);
+	}
+	const t = getTranslator(locale);
+
+	const lines = [
+		t.report("explainHeading", {
+			expenseId: trace.expenseId,
+			status: t.status(trace.status),
+		}),
+		`- ${t.report("explainExpense", {
+			amount: trace.amount,
+			currency: trace.currency,
+			category: trace.category,
+			expenseDate: trace.expenseDate,
+			asOf: trace.asOf,
+		})}`,
+	];
+	if (trace.policyVersionId !== undefined) {
+		lines.push(
+			`- ${t.report("explainPolicyVersion", {
+				policyVersionId: trace.policyVersionId,
+				policyDate: trace.policyDate,
+			})}`,
+		);
+	}
+	if (trace.overrideIds.length > 0) {
+		lines.push(
+			`- ${t.report("explainOverrides", {
+				overrideIds: trace.overrideIds.join(", "),
+			})}`,
+		);
+	}
+
+	const { conversion } = trace;
+	if (conversion?.error !== undefined) {
+		lines.push(`- ${t.report("explainConversionFailed", { ...conversion })}`);
+	} else if (conversion?.rate !== undefined) {
+		lines.push(
+			`- ${t.report("explainConversion", {
+				...conversion,
+				// Rates are far below the 2 digits numbers are formatted with
+				rate: String(Number(conversion.rate.toPrecision(6))),
+			})}`,
+		);
+		if (conversion.provider !== undefined) {
+			lines.push(
+				`- ${t.report("explainRateSource", {
+					provider: conversion.provider,
+					rateDate: conversion.rateDate ?? trace.expenseDate,
+				})}`,
+			);
+		}
+	}
+
+	if (trace.rules.length > 0) {
+		lines.push("", t.report("explainRulesHeading"));
+		for (const rule of trace.rules) {
+			const details = [
+				Object.keys(rule.inputs).length > 0 &&
+					t.report("explainInputs", { values: formatValues(t, rule.inputs) }),
+				Object.keys(rule.thresholds).length > 0 &&
+					t.report("explainThresholds", {
+						values: formatValues(t, rule.thresholds),
+					}),
+			].filter((detail) => detail !== false);
+			const heading = t.report(
+				rule.deciding ? "explainRuleDeciding" : "explainRule",
+				{ ruleId: rule.ruleId, status: t.status(rule.status) },
+			);
+			lines.push(
+				details.length > 0
+					? `- ${heading} (${details.join("; ")})`
+					: `- ${heading}`,
+			);
+			for (const alert of result.alerts) {
+				if (alert.ruleId === rule.ruleId) lines.push(`  - ${alert.message}`);
+			}
+		}
+	}
+
+	lines.push(
+		"",
+		trace.decidedBy.length > 0
+			? t.report("explainDecidedBy", { rules: trace.decidedBy.join(", ") })
+			: t.report("explainAllApproved"),
+	);
+	return lines.join("\n");
+}
+
+function formatValues(t: Translator, values: AlertParams): string {
+	return Object.entries(values)
+		.map(
+			([name, value]) =>
+				`${name}=${typeof value === "number" ? t.formatNumber(value) : String(value)}`,
+		)
+		.join(", ");
+}
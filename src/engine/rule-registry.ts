@@ -0,0 +1,114 @@
+/**
+ * Rule Registry Module
+ *
+ * Holds the rules the engine can run. Built-in rules are registered in
+ * `defaultRuleRegistry`; teams can register their own rules there or build
+ * a separate registry with `createRuleRegistry()` and pass it to
+ * `validateExpense`. Each policy then picks and orders rules via `Policy.rules`.
+ */
+
+import type { RuleSettings } from "../domain/policy";
+import type { Rule } from "./rule";
+import { ageLimitRule } from "./rules/age-limit";
+import { budgetRule } from "./rules/budget";
+import { categoryLimitRule } from "./rules/category-limit";
+import { costCenterRule } from "./rules/cost-center";
+import { cumulativeLimitRule } from "./rules/cumulative-limit";
+
+export const builtinRules: readonly Rule[] = [
+	ageLimitRule,
+	categoryLimitRule,
+	costCenterRule,
+	cumulativeLimitRule,
+	budgetRule,
+];
+
+export interface RegisterOptions {
+	/** Insert before the rule with this id instead of appending. */
+	before?: string;
+}
+
+export class RuleRegistry {
+	private rules: Rule[] = [];
+
+	/**
+	 * Adds a rule to the registry.
+	 * @throws {Error} If a rule with the same id is already registered
+	 */
+	register(rule: Rule, options: RegisterOptions = {}): this {
+		if (this.get(rule.id)) {
+			throw new Error(`Rule '${rule.id}' is already registered`);
+		}
+		if (options.before === undefined) {
+			this.rules.push(rule);
+			return this;
+		}
+		const index = this.rules.findIndex((r) => r.id === options.before);
+		if (index === -1) {
+			throw new Error(`Cannot insert before unknown rule '${options.before}'`);
+		}
+		this.rules.splice(index, 0, rule);
+		return this;
+	}
+
+	/**
+	 * Removes a rule; returns false if it was not registered.
+	 */
+	unregister(id: string): boolean {
+		const before = this.rules.length;
+		this.rules = this.rules.filter((r) => r.id !== id);
+		return this.rules.length !== before;
+	}
+
+	get(id: string): Rule | undefined {
+		return this.rules.find((r) => r.id === id);
+	}
+
+	/**
+	 * All registered rules, in registration order.
+	 */
+	list(): Rule[] {
+		return [...this.rules];
+	}
+
+	/**
+	 * Returns the rules to run for a policy's rule settings, in run order.
+	 * @throws {Error} If the settings reference a rule that is not registered
+	 */
+	resolve(settings: RuleSettings = {}): Rule[] {
+		const { enabled = [], disabled = [], order = [] } = settings;
+		for (const id of [...enabled, ...disabled, ...order]) {
+			if (!this.get(id)) {
+				throw new Error(`Policy references unknown rule '${id}'`);
+			}
+		}
+
+		const active = this.rules.filter(
+			(rule) =>
+				!disabled.includes(rule.id) &&
+				(rule.enabledByDefault !== false || enabled.includes(rule.id)),
+		);
+		const rank = (rule: Rule) => {
+			const index = order.indexOf(rule.id);
+			return index === -1 ? order.length : index;
+		};
+		// Array.prototype.sort is stable, so unlisted rules keep registration order
+		return active.sort((a, b) => rank(a) - rank(b));
+	}
+}
+
+/**
+ * Creates a registry pre-loaded with the built-in rules.
+ */
+export function createRuleRegistry(): RuleRegistry {
+	const registry = new RuleRegistry();
+	for (const rule of builtinRules) {
+		registry.register(rule);
+	}
+	return registry;
+}
+
+/**
+ * Registry used by `validateExpense` when none is passed explicitly.
+ */
+export const defaultRuleRegistry = createRuleRegistry();
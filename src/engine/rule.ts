@@ -0,0 +1,58 @@
+import type { Employee } from "../domain/employee";
+import type { Expense, ExpenseStatus } from "../domain/expense";
+import type { Money } from "../domain/money";
+import type { Policy } from "../domain/policy";
+import type { Alert, AlertParams } from "../domain/result";
+import type { BudgetLedger } from "./budget-ledger";
+import type { SpendingHistory } from "./spending-history";
+
+/**
+ * Everything a rule can look at when evaluating an expense.
+ */
+export interface RuleContext {
+	expense: Expense;
+	employee: Employee;
+	/** The policy (or policy version) in force for this expense. */
+	policy: Policy;
+	/** Expense amount converted to the policy base currency. */
+	amountToCheck: Money;
+	asOf: Date;
+	/** Earlier spending counted against cumulative limits (may be empty). */
+	history: SpendingHistory;
+	/** Budget consumption so far, when the caller tracks it. */
+	ledger?: BudgetLedger | undefined;
+}
+
+/**
+ * What a rule decided: its status and the alerts explaining it.
+ * A rule that does not apply returns APPROVED with no alerts.
+ */
+export interface RuleOutcome {
+	status: ExpenseStatus;
+	alerts: Alert[];
+	/**
+	 * With PARTIALLY_APPROVED: the most that can be reimbursed, in the
+	 * policy base currency.
+	 */
+	reimbursableUpTo?: Money;
+	/** Values the rule looked at, for the decision trace. */
+	inputs?: AlertParams;
+	/** Limits it compared them against, for the decision trace. */
+	thresholds?: AlertParams;
+}
+
+/**
+ * A single validation rule. Rules are registered in a `RuleRegistry` and
+ * their statuses are merged by taking the most restrictive one.
+ */
+export interface Rule {
+	/** Stable identifier, referenced by `Policy.rules`. */
+	id: string;
+	description: string;
+	/**
+	 * Whether the rule runs for policies that don't mention it (default true).
+	 * Rules registered with `false` must be listed in `Policy.rules.enabled`.
+	 */
+	enabledByDefault?: boolean;
+	evaluate(ctx: RuleContext): RuleOutcome | Promise<RuleOutcome>;
+}
@@ -0,0 +1,61 @@
+import { ExpenseStatus } from "../../domain/expense";
+import { daysBetween, toDateKey } from "../../utils/date";
+import { createAlert } from "../alerts";
+import type { Rule } from "../rule";
+
+const RULE_ID = "age-limit";
+
+/**
+ * Rejects expenses older than `ageLimit.rejectedAfterDays` and sends
+ * those older than `ageLimit.pendingAfterDays` to review.
+ */
+export const ageLimitRule: Rule = {
+	id: RULE_ID,
+	description: "Expense age against policy age limits",
+	evaluate(ctx) {
+		const daysOld = Math.max(0, daysBetween(ctx.expense.date, ctx.asOf));
+		const { rejectedAfterDays, pendingAfterDays } = ctx.policy.ageLimit;
+		const trace = {
+			inputs: {
+				daysOld,
+				expenseDate: toDateKey(ctx.expense.date),
+				asOf: toDateKey(ctx.asOf),
+			},
+			thresholds: { pendingAfterDays, rejectedAfterDays },
+		};
+
+		if (daysOld > rejectedAfterDays) {
+			const status = ExpenseStatus.REJECTED;
+			return {
+				status,
+				alerts: [
+					createAlert({
+						code: "AGE_LIMIT",
+						ruleId: RULE_ID,
+						status,
+						params: { daysOld, limitDays: rejectedAfterDays },
+					}),
+				],
+				...trace,
+			};
+		}
+
+		if (daysOld > pendingAfterDays) {
+			const status = ExpenseStatus.PENDING;
+			return {
+				status,
+				alerts: [
+					createAlert({
+						code: "AGE_LIMIT",
+						ruleId: RULE_ID,
+						status,
+						params: { daysOld, limitDays: pendingAfterDays },
+					}),
+				],
+				...trace,
+			};
+		}
+
+		return { status: ExpenseStatus.APPROVED, alerts: [], ...trace };
+	},
+};
@@ -0,0 +1,93 @@
+import { ExpenseStatus } from "../../domain/expense";
+import type { Alert, AlertParams } from "../../domain/result";
+import { policyMoney } from "../../policy/amounts";
+import { calendarPeriod, toDateKey } from "../../utils/date";
+import { addMoney, compareMoney, toMajor, zeroMoney } from "../../utils/money";
+import { createAlert } from "../alerts";
+import { budgetsFor, usedPercent } from "../budget-ledger";
+import type { Rule } from "../rule";
+import { reimbursableAmount } from "./category-limit";
+
+const RULE_ID = "budget";
+const DEFAULT_WARN_AT = 0.9;
+
+/**
+ * Charges the expense against its cost center budgets: PENDING once it
+ * would take a budget past its `warnAt` share, REJECTED past the budget.
+ * Spending so far comes from the ledger in the context; without one only
+ * the expense itself counts. A partially approved expense counts for the
+ * capped amount, which is what the ledger is charged.
+ */
+export const budgetRule: Rule = {
+	id: RULE_ID,
+	description: "Cost center budget consumption including this expense",
+	evaluate(ctx) {
+		// Without a converted amount there is nothing to charge; the engine
+		// already flags the failed conversion for review.
+		if (ctx.amountToCheck.currency !== ctx.policy.baseCurrency) {
+			return { status: ExpenseStatus.APPROVED, alerts: [] };
+		}
+
+		const charged = reimbursableAmount(ctx);
+		const alerts: Alert[] = [];
+		const inputs: AlertParams = {};
+		const thresholds: AlertParams = {};
+		for (const budget of budgetsFor(ctx.policy, ctx.expense, ctx.employee)) {
+			const account = ctx.ledger?.account(
+				budget,
+				ctx.expense.date,
+				ctx.policy.baseCurrency,
+			);
+			const [periodStart, periodEnd] = account
+				? [account.periodStart, account.periodEnd]
+				: calendarPeriod(toDateKey(ctx.expense.date), budget.period);
+			const spent = account?.spent ?? zeroMoney(ctx.policy.baseCurrency);
+			const total = addMoney(spent, charged);
+			const limit = policyMoney(ctx.policy, budget.amount);
+			const warnFrom = policyMoney(
+				ctx.policy,
+				budget.amount * (budget.warnAt ?? DEFAULT_WARN_AT),
+			);
+
+			inputs[`${budget.id}.spent`] = toMajor(spent);
+			inputs[`${budget.id}.total`] = toMajor(total);
+			thresholds[`${budget.id}.warnFrom`] = toMajor(warnFrom);
+			thresholds[`${budget.id}.budget`] = toMajor(limit);
+
+			const status =
+				compareMoney(total, limit) > 0
+					? ExpenseStatus.REJECTED
+					: compareMoney(total, warnFrom) >= 0
+						? ExpenseStatus.PENDING
+						: ExpenseStatus.APPROVED;
+			if (status === ExpenseStatus.APPROVED) continue;
+
+			alerts.push(
+				createAlert({
+					code: "BUDGET_LIMIT",
+					ruleId: RULE_ID,
+					status,
+					params: {
+						budgetId: budget.id,
+						costCenterId: budget.costCenterId,
+						category: budget.category ?? "ALL",
+						periodStart,
+						periodEnd,
+						spent: toMajor(spent),
+						total: toMajor(total),
+						budget: toMajor(limit),
+						currency: limit.currency,
+						usedPercent: usedPercent(total, limit),
+					},
+				}),
+			);
+		}
+
+		const status = alerts.some((a) => a.status === ExpenseStatus.REJECTED)
+			? ExpenseStatus.REJECTED
+			: alerts.length > 0
+				? ExpenseStatus.PENDING
+				: ExpenseStatus.APPROVED;
+		return { status, alerts, inputs, thresholds };
+	},
+};
@@ -0,0 +1,147 @@
+import { ExpenseStatus } from "../../domain/expense";
+import type { Money } from "../../domain/money";
+import { policyMoney } from "../../policy/amounts";
+import { resolveCategoryLimit } from "../../policy/cost-centers";
+import { compareMoney, subtractMoney, toMajor } from "../../utils/money";
+import { createAlert } from "../alerts";
+import type { Rule, RuleContext } from "../rule";
+
+const RULE_ID = "category-limit";
+
+/**
+ * Applies the per-category spending caps to the amount in base currency,
+ * taking the nearest caps set in the cost center tree over the policy-wide ones.
+ * Categories with `partialApproval` reimburse up to approvedUpTo instead.
+ */
+export const categoryLimitRule: Rule = {
+	id: RULE_ID,
+	description: "Amount in base currency against the category limits",
+	evaluate(ctx) {
+		const resolved = resolveCategoryLimit(
+			ctx.policy,
+			ctx.employee.costCenterId,
+			ctx.expense.category,
+		);
+		const categoryPolicy = resolved?.limit;
+
+		// Without a converted amount there is nothing to compare; the engine
+		// already flags the failed conversion for review.
+		if (
+			!categoryPolicy ||
+			ctx.amountToCheck.currency !== ctx.policy.baseCurrency
+		) {
+			return { status: ExpenseStatus.APPROVED, alerts: [] };
+		}
+
+		const params = {
+			amount: toMajor(ctx.amountToCheck),
+			currency: ctx.amountToCheck.currency,
+			category: ctx.expense.category,
+			...(resolved?.definedOn !== undefined && {
+				definedOn: resolved.definedOn,
+			}),
+		};
+		const pendingUpTo = policyMoney(ctx.policy, categoryPolicy.pendingUpTo);
+		const approvedUpTo = policyMoney(ctx.policy, categoryPolicy.approvedUpTo);
+		const trace = {
+			inputs: params,
+			thresholds: {
+				approvedUpTo: toMajor(approvedUpTo),
+				pendingUpTo: toMajor(pendingUpTo),
+				...(categoryPolicy.partialApproval && { partialApproval: true }),
+			},
+		};
+
+		if (
+			categoryPolicy.partialApproval &&
+			compareMoney(ctx.amountToCheck, approvedUpTo) > 0
+		) {
+			const status = ExpenseStatus.PARTIALLY_APPROVED;
+			return {
+				status,
+				alerts: [
+					createAlert({
+						code: "CATEGORY_LIMIT_CAPPED",
+						ruleId: RULE_ID,
+						status,
+						params: {
+							...params,
+							limit: toMajor(approvedUpTo),
+							nonReimbursable: toMajor(
+								subtractMoney(ctx.amountToCheck, approvedUpTo),
+							),
+						},
+					}),
+				],
+				reimbursableUpTo: approvedUpTo,
+				...trace,
+			};
+		}
+
+		if (compareMoney(ctx.amountToCheck, pendingUpTo) > 0) {
+			const status = ExpenseStatus.REJECTED;
+			return {
+				status,
+				alerts: [
+					createAlert({
+						code: "CATEGORY_LIMIT",
+						ruleId: RULE_ID,
+						status,
+						params: {
+							...params,
+							limit: toMajor(pendingUpTo),
+							limitKind: "pendingUpTo",
+						},
+					}),
+				],
+				...trace,
+			};
+		}
+
+		if (compareMoney(ctx.amountToCheck, approvedUpTo) > 0) {
+			const status = ExpenseStatus.PENDING;
+			return {
+				status,
+				alerts: [
+					createAlert({
+						code: "CATEGORY_LIMIT",
+						ruleId: RULE_ID,
+						status,
+						params: {
+							...params,
+							limit: toMajor(approvedUpTo),
+							limitKind: "approvedUpTo",
+						},
+					}),
+				],
+				...trace,
+			};
+		}
+
+		return { status: ExpenseStatus.APPROVED, alerts: [], ...trace };
+	},
+};
+
+/**
+ * The part of the expense that is charged if it is approved: the amount in
+ * base currency, capped at approvedUpTo for categories with
+ * `partialApproval` (unless this rule is disabled).
+ */
+export function reimbursableAmount(ctx: RuleContext): Money {
+	const limit = resolveCategoryLimit(
+		ctx.policy,
+		ctx.employee.costCenterId,
+		ctx.expense.category,
+	)?.limit;
+	if (
+		!limit?.partialApproval ||
+		ctx.policy.rules?.disabled?.includes(RULE_ID) ||
+		ctx.amountToCheck.currency !== ctx.policy.baseCurrency
+	) {
+		return ctx.amountToCheck;
+	}
+	const approvedUpTo = policyMoney(ctx.policy, limit.approvedUpTo);
+	return compareMoney(ctx.amountToCheck, approvedUpTo) > 0
+		? approvedUpTo
+		: ctx.amountToCheck;
+}
@@ -0,0 +1,55 @@
+import { ExpenseStatus } from "../../domain/expense";
+import { findForbiddingRule } from "../../policy/cost-centers";
+import { createAlert } from "../alerts";
+import type { Rule } from "../rule";
+
+const RULE_ID = "cost-center";
+
+/**
+ * Rejects categories that the employee's cost center, or an ancestor in
+ * the cost center tree, may not expense.
+ */
+export const costCenterRule: Rule = {
+	id: RULE_ID,
+	description: "Category against the cost center's forbidden categories",
+	evaluate(ctx) {
+		const violation = findForbiddingRule(
+			ctx.policy,
+			ctx.employee.costCenterId,
+			ctx.expense.category,
+		);
+
+		const trace = {
+			inputs: {
+				costCenterId: ctx.employee.costCenterId,
+				category: ctx.expense.category,
+				...(violation && { forbiddenBy: violation.costCenterId }),
+			},
+			thresholds: {},
+		};
+
+		if (violation) {
+			const status = ExpenseStatus.REJECTED;
+			return {
+				status,
+				alerts: [
+					createAlert({
+						code: "COST_CENTER_POLICY",
+						ruleId: RULE_ID,
+						status,
+						params: {
+							costCenterId: ctx.employee.costCenterId,
+							category: ctx.expense.category,
+							...(violation.costCenterId !== ctx.employee.costCenterId && {
+								ruleCostCenterId: violation.costCenterId,
+							}),
+						},
+					}),
+				],
+				...trace,
+			};
+		}
+
+		return { status: ExpenseStatus.APPROVED, alerts: [], ...trace };
+	},
+};
@@ -0,0 +1,127 @@
+import { ExpenseStatus } from "../../domain/expense";
+import type { Money } from "../../domain/money";
+import type { CumulativeLimit } from "../../domain/policy";
+import type { Alert, AlertParams } from "../../domain/result";
+import { policyMoney } from "../../policy/amounts";
+import { addDays, calendarPeriod, toDateKey } from "../../utils/date";
+import { addMoney, compareMoney, toMajor } from "../../utils/money";
+import { createAlert } from "../alerts";
+import type { Rule, RuleContext } from "../rule";
+
+const RULE_ID = "cumulative-limit";
+
+/**
+ * Adds the expense to the spending history of its employee or cost center
+ * over each limit's period and applies the limit to the total.
+ */
+export const cumulativeLimitRule: Rule = {
+	id: RULE_ID,
+	description:
+		"Spending per employee or cost center over a period against the cumulative limits",
+	evaluate(ctx) {
+		// Without a converted amount there is nothing to add up; the engine
+		// already flags the failed conversion for review.
+		if (ctx.amountToCheck.currency !== ctx.policy.baseCurrency) {
+			return { status: ExpenseStatus.APPROVED, alerts: [] };
+		}
+
+		const statuses: ExpenseStatus[] = [];
+		const alerts: Alert[] = [];
+		const trace: { inputs: AlertParams; thresholds: AlertParams } = {
+			inputs: {},
+			thresholds: {},
+		};
+		for (const limit of ctx.policy.cumulativeLimits ?? []) {
+			if (limit.category && limit.category !== ctx.expense.category) continue;
+			const alert = checkLimit(ctx, limit, trace);
+			if (alert) {
+				statuses.push(alert.status);
+				alerts.push(alert);
+			}
+		}
+
+		const status = statuses.includes(ExpenseStatus.REJECTED)
+			? ExpenseStatus.REJECTED
+			: statuses.includes(ExpenseStatus.PENDING)
+				? ExpenseStatus.PENDING
+				: ExpenseStatus.APPROVED;
+		return { status, alerts, ...trace };
+	},
+};
+
+/**
+ * Checks one limit, recording its total and thresholds (keyed by limit id)
+ * in `trace`.
+ */
+function checkLimit(
+	ctx: RuleContext,
+	limit: CumulativeLimit,
+	trace: { inputs: AlertParams; thresholds: AlertParams },
+): Alert | null {
+	const [periodStart, periodEnd] = limitPeriod(
+		limit,
+		toDateKey(ctx.expense.date),
+	);
+	const scopeId =
+		limit.scope === "employee" ? ctx.employee.id : ctx.employee.costCenterId;
+
+	let total: Money = ctx.amountToCheck;
+	for (const record of ctx.history.records(
+		limit.scope,
+		scopeId,
+		periodStart,
+		periodEnd,
+	)) {
+		if (
+			record.expenseId !== ctx.expense.id &&
+			(!limit.category || record.category === limit.category)
+		) {
+			total = addMoney(total, record.amount);
+		}
+	}
+
+	const pendingUpTo = policyMoney(ctx.policy, limit.pendingUpTo);
+	const approvedUpTo = policyMoney(ctx.policy, limit.approvedUpTo);
+	trace.inputs[`${limit.id}.total`] = toMajor(total);
+	trace.inputs[`${limit.id}.period`] = `${periodStart}..${periodEnd}`;
+	trace.thresholds[`${limit.id}.approvedUpTo`] = toMajor(approvedUpTo);
+	trace.thresholds[`${limit.id}.pendingUpTo`] = toMajor(pendingUpTo);
+	const [status, limitKind, threshold] =
+		compareMoney(total, pendingUpTo) > 0
+			? ([ExpenseStatus.REJECTED, "pendingUpTo", pendingUpTo] as const)
+			: compareMoney(total, approvedUpTo) > 0
+				? ([ExpenseStatus.PENDING, "approvedUpTo", approvedUpTo] as const)
+				: [];
+	if (status === undefined) return null;
+
+	return createAlert({
+		code: "CUMULATIVE_LIMIT",
+		ruleId: RULE_ID,
+		status,
+		params: {
+			limitId: limit.id,
+			scope: limit.scope,
+			scopeId,
+			category: limit.category ?? "ALL",
+			periodStart,
+			periodEnd,
+			total: toMajor(total),
+			currency: total.currency,
+			limit: toMajor(threshold),
+			limitKind,
+		},
+	});
+}
+
+/**
+ * First and last day (YYYY-MM-DD, inclusive) of the limit's period
+ * containing `dateKey`.
+ */
+export function limitPeriod(
+	limit: CumulativeLimit,
+	dateKey: string,
+): [string, string] {
+	return limit.period === "rolling"
+		? [addDays(dateKey, 1 - (limit.rollingDays ?? 1)), dateKey]
+		: calendarPeriod(dateKey, limit.period);
+}
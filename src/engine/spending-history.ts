@@ -0,0 +1,100 @@
+/**
+ * Spending History Module
+ *
+ * Accepted spending that cumulative limits add up, indexed by day and
+ * then by employee or cost center, so checking a limit only visits the
+ * days of its period. Built with the limits that will read it, the
+ * history drops the days no period of theirs can reach any more, so a
+ * long batch keeps one window of spending rather than the whole file.
+ */
+
+import type { CumulativeLimit } from "../domain/policy";
+import type { SpendingRecord } from "../domain/spending";
+import { addDays, toDateKey } from "../utils/date";
+import { limitPeriod } from "./rules/cumulative-limit";
+
+export type SpendingScope = CumulativeLimit["scope"];
+
+export class SpendingHistory {
+	// Day (YYYY-MM-DD) → scope key → records of that day
+	private readonly byDay = new Map<string, Map<string, SpendingRecord[]>>();
+	// Latest day added so far; the periods of later expenses start no earlier
+	// than the ones containing it
+	private latestDay: string | undefined;
+	private oldestKept: string | undefined;
+
+	/**
+	 * @param limits Limits that will read the history, to prune it by (keeps
+	 *   everything when empty). Pruning assumes expenses arrive in date order:
+	 *   one dated before the longest window of the latest expense is checked
+	 *   without the spending that has been dropped.
+	 */
+	constructor(private readonly limits: CumulativeLimit[] = []) {}
+
+	/**
+	 * A history holding `records`, none of them pruned.
+	 */
+	static from(records: Iterable<SpendingRecord>): SpendingHistory {
+		const history = new SpendingHistory();
+		for (const record of records) history.add(record);
+		return history;
+	}
+
+	add(record: SpendingRecord): void {
+		const day = toDateKey(record.date);
+		if (this.latestDay === undefined || day > this.latestDay) {
+			this.latestDay = day;
+			this.prune(day);
+		}
+		if (this.oldestKept !== undefined && day < this.oldestKept) return;
+
+		let scopes = this.byDay.get(day);
+		if (!scopes) {
+			scopes = new Map();
+			this.byDay.set(day, scopes);
+		}
+		for (const key of [
+			scopeKey("employee", record.employeeId),
+			scopeKey("costCenter", record.costCenterId),
+		]) {
+			const records = scopes.get(key);
+			if (records) records.push(record);
+			else scopes.set(key, [record]);
+		}
+	}
+
+	/**
+	 * Records of the employee or cost center `scopeId` dated from `periodStart`
+	 * to `periodEnd` (YYYY-MM-DD, inclusive).
+	 */
+	*records(
+		scope: SpendingScope,
+		scopeId: string,
+		periodStart: string,
+		periodEnd: string,
+	): Generator<SpendingRecord> {
+		const key = scopeKey(scope, scopeId);
+		for (let day = periodStart; day <= periodEnd; day = addDays(day, 1)) {
+			yield* this.byDay.get(day)?.get(key) ?? [];
+		}
+	}
+
+	// Drops the days before the earliest period that contains `latestDay`
+	private prune(latestDay: string): void {
+		if (this.limits.length === 0) return;
+		const oldest = this.limits
+			.map((limit) => limitPeriod(limit, latestDay)[0])
+			.reduce((a, b) => (a < b ? a : b));
+		if (this.oldestKept !== undefined && oldest <= this.oldestKept) return;
+		this.oldestKept = oldest;
+		for (const day of this.byDay.keys()) {
+			if (day < oldest) this.byDay.delete(day);
+		}
+	}
+}
+
+// --- Internal helpers ---
+
+function scopeKey(scope: SpendingScope, scopeId: string): string {
+	return `${scope}|${scopeId}`;
+}
@@ -0,0 +1,156 @@
+/**
+ * FX Provider Configuration
+ *
+ * Builds the configured `FxProvider`. From the environment:
+ * - FX_PROVIDER: "openexchangerates" (default), "file" or "fixed"
+ * - FX_RATES_FILE: rate table path (CSV or JSON) for "file"
+ * - FX_FIXED_RATES: "CLP=950,EUR=0.92" for "fixed"
+ * - FX_BASE_CURRENCY: base of the rate table or fixed rates (default USD)
+ * - FX_CACHE_DIR: where historical Open Exchange Rates responses are cached
+ *   (default ./.fx-cache); FX_CACHE=off disables the cache
+ * - FX_FALLBACK_DAYS: how many previous days to try when a day's rates are
+ *   missing (default 0)
+ * - FX_FALLBACK_PROVIDER: provider tried after the primary one, configured
+ *   with the same variables (e.g. "fixed" with FX_FIXED_RATES)
+ */
+
+import path from "path";
+import type { ExchangeRates } from "../utils/fx";
+import { CachingFxProvider, DiskRateCache } from "./disk-cache";
+import { FallbackFxProvider } from "./fallback-provider";
+import { FixedRatesProvider } from "./fixed-rates-provider";
+import { OpenExchangeRatesProvider } from "./open-exchange-rates-provider";
+import type { FxProvider } from "./provider";
+import { RateTableProvider } from "./rate-table-provider";
+
+export type FxProviderConfig =
+	| { type: "openexchangerates"; cacheDir?: string }
+	| { type: "file"; path: string; base?: string }
+	| { type: "fixed"; rates: ExchangeRates }
+	| {
+			type: "fallback";
+			primary: FxProviderConfig;
+			maxStaleDays: number;
+			secondary?: FxProviderConfig;
+	  };
+
+/**
+ * Reads the provider configuration from environment variables.
+ * @throws {Error} If the variables are missing or malformed
+ */
+export function fxConfigFromEnv(
+	env: NodeJS.ProcessEnv = process.env,
+): FxProviderConfig {
+	const primary = providerConfigFromEnv(env);
+	if (
+		env.FX_FALLBACK_DAYS === undefined &&
+		env.FX_FALLBACK_PROVIDER === undefined
+	) {
+		return primary;
+	}
+
+	const maxStaleDays = Number(env.FX_FALLBACK_DAYS ?? "0");
+	if (!Number.isInteger(maxStaleDays) || maxStaleDays < 0) {
+		throw new Error(
+			`Invalid FX_FALLBACK_DAYS '${env.FX_FALLBACK_DAYS}' (expected a whole number of days)`,
+		);
+	}
+	return {
+		type: "fallback",
+		primary,
+		maxStaleDays,
+		...(env.FX_FALLBACK_PROVIDER !== undefined && {
+			secondary: providerConfigFromEnv({
+				...env,
+				FX_PROVIDER: env.FX_FALLBACK_PROVIDER,
+			}),
+		}),
+	};
+}
+
+function providerConfigFromEnv(env: NodeJS.ProcessEnv): FxProviderConfig {
+	const type = env.FX_PROVIDER ?? "openexchangerates";
+	const base = env.FX_BASE_CURRENCY ?? "USD";
+
+	switch (type) {
+		case "openexchangerates":
+			return env.FX_CACHE === "off"
+				? { type }
+				: {
+						type,
+						cacheDir: env.FX_CACHE_DIR ?? path.join(process.cwd(), ".fx-cache"),
+					};
+		case "file":
+			if (!env.FX_RATES_FILE) {
+				throw new Error("FX_RATES_FILE is required when FX_PROVIDER=file");
+			}
+			return { type, path: env.FX_RATES_FILE, base };
+		case "fixed":
+			return {
+				type,
+				rates: { base, rates: parseFixedRates(env.FX_FIXED_RATES ?? "") },
+			};
+		default:
+			throw new Error(
+				`Unknown FX_PROVIDER '${type}' (expected openexchangerates, file or fixed)`,
+			);
+	}
+}
+
+/**
+ * Creates the provider described by `config` (default: from the environment).
+ */
+export function createFxProvider(
+	config: FxProviderConfig = fxConfigFromEnv(),
+): FxProvider {
+	switch (config.type) {
+		case "openexchangerates":
+			return config.cacheDir === undefined
+				? new OpenExchangeRatesProvider()
+				: new CachingFxProvider(
+						new OpenExchangeRatesProvider(),
+						new DiskRateCache(config.cacheDir),
+					);
+		case "file":
+			return new RateTableProvider(config.path, config.base);
+		case "fixed":
+			return new FixedRatesProvider(config.rates);
+		case "fallback":
+			return new FallbackFxProvider(createFxProvider(config.primary), {
+				maxStaleDays: config.maxStaleDays,
+				secondary:
+					config.secondary === undefined
+						? undefined
+						: createFxProvider(config.secondary),
+			});
+	}
+}
+
+/**
+ * The disk-caching layer of a provider built by `createFxProvider`, if any
+ * (the primary provider is cached; a fallback wrapper is looked through).
+ */
+export function findCachingProvider(
+	provider: FxProvider,
+): CachingFxProvider | undefined {
+	if (provider instanceof CachingFxProvider) return provider;
+	if (provider instanceof FallbackFxProvider) {
+		return findCachingProvider(provider.inner);
+	}
+	return undefined;
+}
+
+function parseFixedRates(spec: string): Record<string, number> {
+	const rates: Record<string, number> = {};
+	for (const pair of spec.split(",").filter((p) => p.trim() !== "")) {
+		const [currency, value] = pair.split("=").map((s) => s.trim());
+		const rate = Number(value);
+		if (!currency || !Number.isFinite(rate) || rate <= 0) {
+			throw new Error(
+				`Invalid FX_FIXED_RATES entry '${pair}' (expected CODE=rate)`,
+			);
+		}
+		rates[currency] = rate;
+	}
+	return rates;
+}
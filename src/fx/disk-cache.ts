@@ -0,0 +1,111 @@
+/**
+ * Disk Rate Cache Module
+ *
+ * Historical rates never change, so rates fetched for past days are kept
+ * as one JSON file per provider and day (`<dir>/<provider>/<YYYY-MM-DD>.json`)
+ * and reused across runs. Today's and future dates are never cached.
+ */
+
+import fs from "fs";
+import path from "path";
+import { toDateKey } from "../utils/date";
+import type { ExchangeRates } from "../utils/fx";
+import type { FxProvider } from "./provider";
+
+export interface RateCacheStats {
+	/** Dates served from disk. */
+	hits: number;
+	/** Dates fetched from the wrapped provider. */
+	misses: number;
+	/** Dates written to disk. */
+	writes: number;
+}
+
+export class DiskRateCache {
+	constructor(readonly dir: string) {}
+
+	read(provider: string, dateKey: string): ExchangeRates | undefined {
+		const file = this.fileFor(provider, dateKey);
+		if (!fs.existsSync(file)) return undefined;
+		try {
+			const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+			if (typeof data?.base === "string" && typeof data?.rates === "object") {
+				return { base: data.base, rates: data.rates };
+			}
+		} catch {
+			// Corrupt entry: treat as a miss, it is overwritten on the next write
+		}
+		return undefined;
+	}
+
+	write(provider: string, dateKey: string, rates: ExchangeRates): void {
+		const file = this.fileFor(provider, dateKey);
+		fs.mkdirSync(path.dirname(file), { recursive: true });
+		// Write then rename so concurrent runs never read a half-written file
+		const tmp = `${file}.${process.pid}.tmp`;
+		fs.writeFileSync(tmp, JSON.stringify(rates), "utf-8");
+		fs.renameSync(tmp, file);
+	}
+
+	private fileFor(provider: string, dateKey: string): string {
+		return path.join(this.dir, provider, `${dateKey}.json`);
+	}
+}
+
+/**
+ * Wraps a provider so historical rates are read from and saved to a
+ * `DiskRateCache`. Latest rates always go to the wrapped provider.
+ * Concurrent lookups of a date that is not cached share one fetch,
+ * whatever currencies each asks for, as the cache keeps a date's rates.
+ */
+export class CachingFxProvider implements FxProvider {
+	readonly stats: RateCacheStats = { hits: 0, misses: 0, writes: 0 };
+	private readonly fetching = new Map<string, Promise<ExchangeRates>>();
+
+	constructor(
+		private readonly inner: FxProvider,
+		private readonly cache: DiskRateCache,
+		private readonly today: () => string = () => toDateKey(new Date()),
+	) {}
+
+	get name(): string {
+		return this.inner.name;
+	}
+
+	getLatestRates(): Promise<ExchangeRates> {
+		return this.inner.getLatestRates();
+	}
+
+	async getRatesForDate(
+		dateKey: string,
+		currencies?: string[],
+	): Promise<ExchangeRates> {
+		const cached = this.cache.read(this.inner.name, dateKey);
+		if (cached) {
+			this.stats.hits += 1;
+			return cached;
+		}
+
+		let fetch = this.fetching.get(dateKey);
+		if (!fetch) {
+			fetch = this.fetch(dateKey, currencies).finally(() =>
+				this.fetching.delete(dateKey),
+			);
+			this.fetching.set(dateKey, fetch);
+		}
+		return fetch;
+	}
+
+	private async fetch(
+		dateKey: string,
+		currencies: string[] | undefined,
+	): Promise<ExchangeRates> {
+		this.stats.misses += 1;
+		const rates = await this.inner.getRatesForDate(dateKey, currencies);
+		if (dateKey < this.today()) {
+			this.cache.write(this.inner.name, dateKey, rates);
+			this.stats.writes += 1;
+		}
+		return rates;
+	}
+}
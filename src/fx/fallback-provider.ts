@@ -0,0 +1,91 @@
+/**
+ * FX Fallback Module
+ *
+ * Wraps a primary provider so a missing day or currency does not stop a
+ * decision. For a requested day the candidates are tried in order:
+ * 1. The primary provider on that day
+ * 2. The primary provider on each previous day, up to `maxStaleDays` back
+ * 3. The same for the secondary provider, if any
+ *
+ * Rates served from another day or provider carry `date` and `provider`,
+ * so the engine can raise an FX_RATE_STALE alert naming the rate used.
+ */
+
+import { addDays } from "../utils/date";
+import type { ExchangeRates } from "../utils/fx";
+import type { FxProvider } from "./provider";
+
+export interface FxFallbackOptions {
+	/** How many previous days to try when a day has no usable rates. */
+	maxStaleDays: number;
+	/** Provider tried after the primary one is exhausted. */
+	secondary?: FxProvider | undefined;
+}
+
+export class FallbackFxProvider implements FxProvider {
+	constructor(
+		private readonly primary: FxProvider,
+		private readonly options: FxFallbackOptions,
+	) {}
+
+	get name(): string {
+		return this.primary.name;
+	}
+
+	/**
+	 * The primary provider (e.g. to read its cache stats).
+	 */
+	get inner(): FxProvider {
+		return this.primary;
+	}
+
+	async getLatestRates(): Promise<ExchangeRates> {
+		try {
+			return await this.primary.getLatestRates();
+		} catch (error) {
+			if (!this.options.secondary) throw error;
+			return {
+				...(await this.options.secondary.getLatestRates()),
+				provider: this.options.secondary.name,
+			};
+		}
+	}
+
+	async getRatesForDate(
+		dateKey: string,
+		currencies: string[] = [],
+	): Promise<ExchangeRates> {
+		const providers = [this.primary, this.options.secondary].filter(
+			(p): p is FxProvider => p !== undefined,
+		);
+		const failures: string[] = [];
+
+		for (const provider of providers) {
+			for (let back = 0; back <= this.options.maxStaleDays; back++) {
+				const candidate = addDays(dateKey, -back);
+				try {
+					const rates = await provider.getRatesForDate(candidate, currencies);
+					const missing = currencies.filter(
+						(c) => c !== rates.base && rates.rates[c] === undefined,
+					);
+					if (missing.length > 0) {
+						throw new Error(`missing ${missing.join(", ")}`);
+					}
+					return {
+						...rates,
+						...(candidate !== dateKey && { date: candidate }),
+						...(provider !== this.primary && { provider: provider.name }),
+					};
+				} catch (error) {
+					failures.push(
+						`${provider.name} ${candidate}: ${error instanceof Error ? error.message : "Unknown error"}`,
+					);
+				}
+			}
+		}
+
+		throw new Error(
+			`No usable rates for ${dateKey} within ${this.options.maxStaleDays} days (${failures.join("; ")})`,
+		);
+	}
+}
@@ -0,0 +1,20 @@
+import type { ExchangeRates } from "../utils/fx";
+import type { FxProvider } from "./provider";
+
+/**
+ * Returns the same rates for every date. Meant for tests and for runs
+ * where a single agreed rate set should back every decision.
+ */
+export class FixedRatesProvider implements FxProvider {
+	readonly name = "fixed";
+
+	constructor(private readonly rates: ExchangeRates) {}
+
+	async getLatestRates(): Promise<ExchangeRates> {
+		return this.rates;
+	}
+
+	async getRatesForDate(_dateKey: string): Promise<ExchangeRates> {
+		return this.rates;
+	}
+}
@@ -0,0 +1,25 @@
+import type { ExchangeRates } from "../utils/fx";
+import type { FxProvider } from "./provider";
+
+/**
+ * Remembers each lookup (including failures) for the rest of the run, so
+ * a date and pair of currencies is looked up once however many expenses
+ * share them. Lookups of one date for different currencies reach the
+ * wrapped provider separately; `CachingFxProvider` fetches that date once.
+ */
+export function memoizeRates(provider: FxProvider): FxProvider {
+	const lookups = new Map<string, Promise<ExchangeRates>>();
+	return {
+		name: provider.name,
+		getLatestRates: () => provider.getLatestRates(),
+		getRatesForDate: (dateKey, currencies = []) => {
+			const key = `${dateKey}|${currencies.join(",")}`;
+			let lookup = lookups.get(key);
+			if (!lookup) {
+				lookup = provider.getRatesForDate(dateKey, currencies);
+				lookups.set(key, lookup);
+			}
+			return lookup;
+		},
+	};
+}
@@ -0,0 +1,27 @@
+import {
+	defaultFxHttpClient,
+	type ExchangeRates,
+	fetchLatestRates,
+	fetchRatesForDate,
+} from "../utils/fx";
+import type { HttpClient } from "../utils/http";
+import type { FxProvider } from "./provider";
+
+/**
+ * Rates from the Open Exchange Rates API (configured through
+ * `OPEN_EXCHANGE_RATES_APP_ID` and `OPEN_EXCHANGE_RATES_BASE_URL`), fetched
+ * through an `HttpClient` that retries transient failures.
+ */
+export class OpenExchangeRatesProvider implements FxProvider {
+	readonly name = "openexchangerates";
+
+	constructor(private readonly client: HttpClient = defaultFxHttpClient()) {}
+
+	getLatestRates(): Promise<ExchangeRates> {
+		return fetchLatestRates(this.client);
+	}
+
+	getRatesForDate(dateKey: string): Promise<ExchangeRates> {
+		return fetchRatesForDate(dateKey, this.client);
+	}
+}
@@ -0,0 +1,49 @@
+import type { FxProvider } from "./provider";
+
+/**
+ * Fetches rates ahead of a batch run's validation, up to `concurrency`
+ * lookups at a time. Give it the same memoized provider the run validates
+ * with (see memoize.ts): validation then awaits the lookup already in
+ * flight instead of fetching the date again. Concurrent lookups of one
+ * date for different currencies share a fetch in `CachingFxProvider`.
+ */
+export class RatePrefetcher {
+	private readonly requested = new Set<string>();
+	private readonly queue: { dateKey: string; currencies: string[] }[] = [];
+	private active = 0;
+
+	constructor(
+		private readonly rates: FxProvider,
+		private readonly concurrency = 4,
+	) {}
+
+	/** Distinct lookups requested so far. */
+	get lookups(): number {
+		return this.requested.size;
+	}
+
+	/** Queues a lookup unless the same one was already requested. */
+	request(dateKey: string, currencies: string[]): void {
+		const key = `${dateKey}|${currencies.join(",")}`;
+		if (this.requested.has(key)) return;
+		this.requested.add(key);
+		this.queue.push({ dateKey, currencies });
+		this.startNext();
+	}
+
+	private startNext(): void {
+		while (this.active < Math.max(1, this.concurrency)) {
+			const next = this.queue.shift();
+			if (!next) return;
+			this.active += 1;
+			this.rates
+				.getRatesForDate(next.dateKey, next.currencies)
+				// Failures surface when validation awaits the same lookup
+				.catch(() => undefined)
+				.finally(() => {
+					this.active -= 1;
+					this.startNext();
+				});
+		}
+	}
+}
@@ -0,0 +1,71 @@
+import { eachDateKey } from "../utils/date";
+import { findCachingProvider } from "./config";
+import type { RateCacheStats } from "./disk-cache";
+import type { FxProvider } from "./provider";
+
+/**
+ * Fetches rates for every day from `fromKey` to `toKey` (inclusive) so a
+ * caching provider stores them ahead of an analysis run. Up to
+ * `concurrency` days are fetched at once.
+ * @returns The dates that could not be fetched, with the error message
+ */
+export async function prewarmRates(
+	provider: FxProvider,
+	fromKey: string,
+	toKey: string,
+	onProgress?: (dateKey: string, done: number, total: number) => void,
+	concurrency = 4,
+): Promise<{ dateKey: string; error: string }[]> {
+	const dateKeys = eachDateKey(fromKey, toKey);
+	const failures: { dateKey: string; error: string }[] = [];
+	let next = 0;
+	let done = 0;
+
+	const worker = async () => {
+		while (next < dateKeys.length) {
+			const dateKey = dateKeys[next++] as string;
+			try {
+				await provider.getRatesForDate(dateKey);
+			} catch (error) {
+				failures.push({
+					dateKey,
+					error: error instanceof Error ? error.message : "Unknown error",
+				});
+			}
+			done += 1;
+			onProgress?.(dateKey, done, dateKeys.length);
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.max(1, concurrency) }, () => worker()),
+	);
+	return failures.sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+}
+
+/**
+ * Prewarms the disk cache of a provider built by `createFxProvider`.
+ * @returns The cache statistics of the run and the dates that failed
+ * @throws {Error} If the range is reversed or the provider is not cached
+ */
+export async function prewarmCache(
+	configured: FxProvider,
+	fromKey: string,
+	toKey: string,
+	onProgress?: (dateKey: string, done: number, total: number) => void,
+): Promise<{
+	stats: RateCacheStats;
+	failures: { dateKey: string; error: string }[];
+}> {
+	if (fromKey > toKey) {
+		throw new Error(`from (${fromKey}) must not be after to (${toKey})`);
+	}
+	const provider = findCachingProvider(configured);
+	if (!provider) {
+		throw new Error(
+			`FX provider '${configured.name}' is not cached; prewarming only applies to openexchangerates with FX_CACHE enabled`,
+		);
+	}
+	const failures = await prewarmRates(provider, fromKey, toKey, onProgress);
+	return { stats: { ...provider.stats }, failures };
+}
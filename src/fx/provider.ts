@@ -0,0 +1,33 @@
+/**
+ * FX Provider Module
+ *
+ * The engine and the analyzer get exchange rates through an `FxProvider`,
+ * so the source (Open Exchange Rates, a local rate table, fixed rates) is
+ * a configuration choice rather than a code change.
+ */
+
+import type { ExchangeRates } from "../utils/fx";
+
+export interface FxProvider {
+	/** Short name used in logs and reports. */
+	readonly name: string;
+	getLatestRates(): Promise<ExchangeRates>;
+	/**
+	 * Rates for a UTC day.
+	 * @param dateKey ISO date string in the form YYYY-MM-DD
+	 * @param currencies Currencies the caller needs; providers may ignore it
+	 */
+	getRatesForDate(
+		dateKey: string,
+		currencies?: string[],
+	): Promise<ExchangeRates>;
+}
+
+/**
+ * Type guard telling a provider apart from a plain set of rates.
+ */
+export function isFxProvider(
+	value: FxProvider | ExchangeRates,
+): value is FxProvider {
+	return "getRatesForDate" in value;
+}
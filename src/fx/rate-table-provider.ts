@@ -0,0 +1,109 @@
+import csv from "csv-parser";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { ExchangeRates } from "../utils/fx";
+import type { FxProvider } from "./provider";
+
+const RateRowSchema = z.object({
+	date: z.iso.date({ error: "date must be YYYY-MM-DD" }),
+	currency: z
+		.string()
+		.regex(/^[A-Z]{3}$/, { error: "currency must be a 3-letter code" }),
+	rate: z.coerce
+		.number({ error: "rate must be a number" })
+		.positive({ error: "rate must be > 0" }),
+});
+
+type RateRow = z.infer<typeof RateRowSchema>;
+
+/**
+ * Rates read from a local table with one row per (date, currency, rate),
+ * as CSV (with a `date,currency,rate` header) or a JSON array of rows.
+ * Rates are units of `currency` per one unit of the table's base currency.
+ */
+export class RateTableProvider implements FxProvider {
+	readonly name = "file";
+	private table: Promise<Map<string, Record<string, number>>> | undefined;
+
+	constructor(
+		private readonly filePath: string,
+		private readonly base: string = "USD",
+	) {}
+
+	async getLatestRates(): Promise<ExchangeRates> {
+		const table = await this.load();
+		const latest = [...table.keys()].sort().at(-1);
+		if (latest === undefined) {
+			throw new Error(`Rate table ${this.filePath} is empty`);
+		}
+		return this.getRatesForDate(latest);
+	}
+
+	async getRatesForDate(dateKey: string): Promise<ExchangeRates> {
+		const rates = (await this.load()).get(dateKey);
+		if (!rates) {
+			throw new Error(`No rates for ${dateKey} in rate table ${this.filePath}`);
+		}
+		return { base: this.base, rates };
+	}
+
+	/**
+	 * Dates present in the table, in ascending order.
+	 */
+	async availableDates(): Promise<string[]> {
+		return [...(await this.load()).keys()].sort();
+	}
+
+	private load(): Promise<Map<string, Record<string, number>>> {
+		this.table ??= readRateRows(this.filePath).then((rows) => {
+			const table = new Map<string, Record<string, number>>();
+			for (const row of rows) {
+				const rates = table.get(row.date) ?? {};
+				rates[row.currency] = row.rate;
+				table.set(row.date, rates);
+			}
+			return table;
+		});
+		return this.table;
+	}
+}
+
+async function readRateRows(filePath: string): Promise<RateRow[]> {
+	const raw =
+		path.extname(filePath).toLowerCase() === ".json"
+			? readJsonRows(filePath)
+			: await readCsvRows(filePath);
+
+	return raw.map((row, index) => {
+		const result = RateRowSchema.safeParse(row);
+		if (!result.success) {
+			throw new Error(
+				`Invalid row ${index + 1} in rate table ${filePath}: ${result.error.issues.map((issue) => issue.message).join("; ")}`,
+			);
+		}
+		return result.data;
+	});
+}
+
+function readJsonRows(filePath: string): unknown[] {
+	const data: unknown = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+	if (!Array.isArray(data)) {
+		throw new Error(
+			`Rate table ${filePath} must be a JSON array of { date, currency, rate } rows`,
+		);
+	}
+	return data;
+}
+
+function readCsvRows(filePath: string): Promise<unknown[]> {
+	return new Promise((resolve, reject) => {
+		const rows: unknown[] = [];
+		fs.createReadStream(filePath)
+			.on("error", (err: unknown) => reject(err))
+			.pipe(csv())
+			.on("data", (data: unknown) => rows.push(data))
+			.on("end", () => resolve(rows))
+			.on("error", (err: unknown) => reject(err));
+	});
+}
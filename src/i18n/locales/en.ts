@@ -0,0 +1,109 @@
+import type { MessageCatalog } from "../types";
+
+export const en: MessageCatalog = {
+	intlLocale: "en-US",
+	status: {
+		APPROVED: "APPROVED",
+		PARTIALLY_APPROVED: "PARTIALLY APPROVED",
+		PENDING: "PENDING",
+		REJECTED: "REJECTED",
+	},
+	alerts: {
+		NEGATIVE_AMOUNT: "Expense has non-positive amount ({amount, number}).",
+		POLICY_VERSION_NOT_FOUND:
+			"No policy version is in force on {date, date}. Manual review required.",
+		CURRENCY_MISMATCH:
+			"Converting {originalAmount, money, originalCurrency} --> {convertedAmount, money, baseCurrency}.",
+		CURRENCY_CONVERSION_ERROR:
+			"Failed to convert {amount, money, currency} to {baseCurrency}: {reason}. Manual review required.",
+		FX_RATE_STALE:
+			"Rates for {requestedDate, date} were unavailable; converted with {provider} rates from {rateDate, date}.",
+		"AGE_LIMIT.REJECTED": "Expense is {daysOld} days old (Limit: {limitDays}).",
+		"AGE_LIMIT.PENDING": "Expense is {daysOld} days old; requires review.",
+		"CATEGORY_LIMIT.pendingUpTo":
+			"{amount, money} exceeds maximum allowed ({limit, money}) for {category}.",
+		"CATEGORY_LIMIT.approvedUpTo":
+			"{amount, money} exceeds auto-approval limit ({limit, money}), requires review.",
+		"CATEGORY_LIMIT.pendingUpTo.costCenter":
+			"{amount, money} exceeds maximum allowed ({limit, money}) for {category} set on cost center '{definedOn}'.",
+		"CATEGORY_LIMIT.approvedUpTo.costCenter":
+			"{amount, money} exceeds auto-approval limit ({limit, money}) set on cost center '{definedOn}', requires review.",
+		CATEGORY_LIMIT_CAPPED:
+			"{amount, money} exceeds the reimbursable limit ({limit, money}) for {category}; {nonReimbursable, money} will not be reimbursed.",
+		"CATEGORY_LIMIT_CAPPED.costCenter":
+			"{amount, money} exceeds the reimbursable limit ({limit, money}) for {category} set on cost center '{definedOn}'; {nonReimbursable, money} will not be reimbursed.",
+		"CUMULATIVE_LIMIT.pendingUpTo":
+			"Total of {total, money} for {scopeId} ({category}) from {periodStart, date} to {periodEnd, date} exceeds the cumulative limit {limitId} ({limit, money}).",
+		"CUMULATIVE_LIMIT.approvedUpTo":
+			"Total of {total, money} for {scopeId} ({category}) from {periodStart, date} to {periodEnd, date} exceeds the auto-approval cumulative limit {limitId} ({limit, money}), requires review.",
+		"BUDGET_LIMIT.REJECTED":
+			"Budget {budgetId} of {costCenterId} ({category}) for {periodStart, date} to {periodEnd, date} is exhausted: {total, money} of {budget, money}.",
+		"BUDGET_LIMIT.PENDING":
+			"Budget {budgetId} of {costCenterId} ({category}) for {periodStart, date} to {periodEnd, date} would be {usedPercent}% used ({total, money} of {budget, money}); requires review.",
+		COST_CENTER_POLICY:
+			"Cost center '{costCenterId}' is not allowed to expense '{category}'.",
+		"COST_CENTER_POLICY.inherited":
+			"Cost center '{costCenterId}' is not allowed to expense '{category}' (rule set on '{ruleCostCenterId}').",
+	},
+	report: {
+		title: "ANALYSIS",
+		statusHeading: "Expense status",
+		anomaliesHeading: "Detected anomalies",
+		negativeAmounts: "Negative amounts: {count}",
+		exactDuplicates: "Exact duplicates: {count}",
+		anomalyBreakdownHeading: "Anomaly breakdown",
+		anomalyNegativeAmount:
+			"NEGATIVE_AMOUNT: expense {expenseId}, amount {amount, number}",
+		anomalyDuplicate:
+			"DUPLICATE: expense {expenseId} duplicates {firstExpenseId} ({amount, money} on {date, date})",
+		invalidRowsHeading: "Skipped invalid rows",
+		invalidRowsTotal: "Total: {count}",
+		invalidRowsMore: "... {count} more skipped",
+		anomaliesMore: "... {count} more",
+		policyVersionsHeading: "Applied policy versions",
+		policyVersionCount: "{versionId}: {count} expenses",
+		overridesHeading: "Applied overrides",
+		overrideCount: "{overrideId}: {count} expenses",
+		alertsHeading: "Alerts by expense",
+		alertsMore: "... {count} more expenses with alerts",
+		budgetsHeading: "Budget utilization",
+		budgetUsage:
+			"{budgetId} ({costCenterId}, {category}) {periodStart, date} to {periodEnd, date}: {spent, money} of {budget, money} ({usedPercent}%)",
+		fxCacheHeading: "Exchange rate cache",
+		fxCacheStats: "{hits} dates from cache, {misses} fetched, {writes} saved",
+		nonReimbursableTotal: "Not reimbursed (partial approvals): {amount, money}",
+		explainHeading: "Expense {expenseId}: {status}",
+		explainExpense:
+			"{amount, money} for {category} dated {expenseDate, date}, evaluated as of {asOf, date}",
+		explainPolicyVersion:
+			"Policy version {policyVersionId}, in force on {policyDate, date}",
+		explainOverrides: "Overrides applied: {overrideIds}",
+		explainConversion:
+			"Converted {originalAmount, money, originalCurrency} to {convertedAmount, money, baseCurrency} at a rate of {rate}",
+		explainRateSource: "Rates from {provider} for {rateDate, date}",
+		explainConversionFailed:
+			"Could not convert {originalAmount, money, originalCurrency} to {baseCurrency}: {error}",
+		explainRulesHeading: "Rules evaluated:",
+		explainRule: "{ruleId}: {status}",
+		explainRuleDeciding: "{ruleId}: {status} (deciding)",
+		explainInputs: "inputs: {values}",
+		explainThresholds: "thresholds: {values}",
+		explainDecidedBy: "Decided by: {rules}",
+		explainAllApproved: "Every rule approved the expense.",
+		simulationTitle: "Policy simulation",
+		simulationPolicies: "Current policy: {current}; candidate: {candidate}",
+		simulationSummary: "{count} expenses, {changed} with a different outcome",
+		transitionsHeading: "Status transitions",
+		transitionCount: "{from} → {to}: {count}",
+		noTransitions: "No status changes",
+		approvedSpendHeading: "Approved spend",
+		approvedSpendChange:
+			"{current, money} → {candidate, money} (change: {delta, money})",
+		affectedEmployeesHeading: "Affected employees",
+		affectedCostCentersHeading: "Affected cost centers",
+		groupImpact:
+			"{id}: {count} expenses changed, approved spend change {delta}",
+		changedExpensesHeading: "Changed expenses",
+		expenseChange: "{expenseId} ({employeeId}, {costCenterId}): {from} → {to}",
+	},
+};
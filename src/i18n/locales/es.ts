@@ -0,0 +1,111 @@
+import type { MessageCatalog } from "../types";
+
+export const es: MessageCatalog = {
+	intlLocale: "es-CL",
+	status: {
+		APPROVED: "APROBADO",
+		PARTIALLY_APPROVED: "APROBADO PARCIALMENTE",
+		PENDING: "PENDIENTE",
+		REJECTED: "RECHAZADO",
+	},
+	alerts: {
+		NEGATIVE_AMOUNT: "Monto no positivo ({amount, number})",
+		POLICY_VERSION_NOT_FOUND:
+			"No hay versión de política vigente al {date, date}, requiere revisión manual",
+		CURRENCY_MISMATCH:
+			"Conversión: {originalAmount, money, originalCurrency} → {convertedAmount, money, baseCurrency}",
+		CURRENCY_CONVERSION_ERROR:
+			"Error de conversión de moneda ({amount, money, currency} a {baseCurrency}), requiere revisión manual",
+		FX_RATE_STALE:
+			"Sin tipos de cambio para {requestedDate, date}; se usaron los de {provider} del {rateDate, date}",
+		"AGE_LIMIT.REJECTED": "Antigüedad: {daysOld} días (límite: {limitDays})",
+		"AGE_LIMIT.PENDING": "Antigüedad: {daysOld} días, requiere revisión",
+		"CATEGORY_LIMIT.pendingUpTo":
+			"{amount, money} excede máximo permitido ({limit, money}) para {category}",
+		"CATEGORY_LIMIT.approvedUpTo":
+			"{amount, money} excede auto-aprobación ({limit, money}), requiere revisión",
+		"CATEGORY_LIMIT.pendingUpTo.costCenter":
+			"{amount, money} excede máximo permitido ({limit, money}) para {category} del centro de costo '{definedOn}'",
+		"CATEGORY_LIMIT.approvedUpTo.costCenter":
+			"{amount, money} excede auto-aprobación ({limit, money}) del centro de costo '{definedOn}', requiere revisión",
+		CATEGORY_LIMIT_CAPPED:
+			"{amount, money} excede el monto reembolsable ({limit, money}) para {category}; {nonReimbursable, money} no se reembolsa",
+		"CATEGORY_LIMIT_CAPPED.costCenter":
+			"{amount, money} excede el monto reembolsable ({limit, money}) para {category} del centro de costo '{definedOn}'; {nonReimbursable, money} no se reembolsa",
+		"CUMULATIVE_LIMIT.pendingUpTo":
+			"Acumulado de {total, money} para {scopeId} ({category}) entre {periodStart, date} y {periodEnd, date} excede el límite acumulado {limitId} ({limit, money})",
+		"CUMULATIVE_LIMIT.approvedUpTo":
+			"Acumulado de {total, money} para {scopeId} ({category}) entre {periodStart, date} y {periodEnd, date} excede la auto-aprobación acumulada {limitId} ({limit, money}), requiere revisión",
+		"BUDGET_LIMIT.REJECTED":
+			"Presupuesto {budgetId} de {costCenterId} ({category}) del {periodStart, date} al {periodEnd, date} agotado: {total, money} de {budget, money}",
+		"BUDGET_LIMIT.PENDING":
+			"Presupuesto {budgetId} de {costCenterId} ({category}) del {periodStart, date} al {periodEnd, date} quedaría al {usedPercent}% ({total, money} de {budget, money}), requiere revisión",
+		COST_CENTER_POLICY:
+			"Centro de costo '{costCenterId}' no puede reportar '{category}'",
+		"COST_CENTER_POLICY.inherited":
+			"Centro de costo '{costCenterId}' no puede reportar '{category}' (regla de '{ruleCostCenterId}')",
+	},
+	report: {
+		title: "ANALISIS",
+		statusHeading: "Estado de los gastos",
+		anomaliesHeading: "Anomalias detectadas",
+		negativeAmounts: "Montos negativos: {count}",
+		exactDuplicates: "Duplicados exactos: {count}",
+		anomalyBreakdownHeading: "Desglose de anomalias",
+		anomalyNegativeAmount:
+			"NEGATIVE_AMOUNT: gasto {expenseId}, monto {amount, number}",
+		anomalyDuplicate:
+			"DUPLICATE: gasto {expenseId} duplica {firstExpenseId} ({amount, money} el {date, date})",
+		invalidRowsHeading: "Filas inválidas omitidas",
+		invalidRowsTotal: "Total: {count}",
+		invalidRowsMore: "... {count} más omitidas",
+		anomaliesMore: "... {count} más",
+		policyVersionsHeading: "Versiones de política aplicadas",
+		policyVersionCount: "{versionId}: {count} gastos",
+		overridesHeading: "Excepciones aplicadas",
+		overrideCount: "{overrideId}: {count} gastos",
+		alertsHeading: "Alertas por gasto",
+		alertsMore: "... {count} gastos más con alertas",
+		budgetsHeading: "Uso de presupuestos",
+		budgetUsage:
+			"{budgetId} ({costCenterId}, {category}) del {periodStart, date} al {periodEnd, date}: {spent, money} de {budget, money} ({usedPercent}%)",
+		fxCacheHeading: "Caché de tipos de cambio",
+		fxCacheStats:
+			"{hits} fechas desde caché, {misses} descargadas, {writes} guardadas",
+		nonReimbursableTotal:
+			"No reembolsado (aprobaciones parciales): {amount, money}",
+		explainHeading: "Gasto {expenseId}: {status}",
+		explainExpense:
+			"{amount, money} en {category} con fecha {expenseDate, date}, evaluado al {asOf, date}",
+		explainPolicyVersion:
+			"Versión de política {policyVersionId}, vigente el {policyDate, date}",
+		explainOverrides: "Excepciones aplicadas: {overrideIds}",
+		explainConversion:
+			"Convertido {originalAmount, money, originalCurrency} a {convertedAmount, money, baseCurrency} con tasa {rate}",
+		explainRateSource: "Tasas de {provider} del {rateDate, date}",
+		explainConversionFailed:
+			"No se pudo convertir {originalAmount, money, originalCurrency} a {baseCurrency}: {error}",
+		explainRulesHeading: "Reglas evaluadas:",
+		explainRule: "{ruleId}: {status}",
+		explainRuleDeciding: "{ruleId}: {status} (determinante)",
+		explainInputs: "datos: {values}",
+		explainThresholds: "umbrales: {values}",
+		explainDecidedBy: "Decidido por: {rules}",
+		explainAllApproved: "Todas las reglas aprobaron el gasto.",
+		simulationTitle: "Simulación de política",
+		simulationPolicies: "Política actual: {current}; candidata: {candidate}",
+		simulationSummary: "{count} gastos, {changed} con un resultado distinto",
+		transitionsHeading: "Cambios de estado",
+		transitionCount: "{from} → {to}: {count}",
+		noTransitions: "Sin cambios de estado",
+		approvedSpendHeading: "Gasto aprobado",
+		approvedSpendChange:
+			"{current, money} → {candidate, money} (variación: {delta, money})",
+		affectedEmployeesHeading: "Empleados afectados",
+		affectedCostCentersHeading: "Centros de costo afectados",
+		groupImpact:
+			"{id}: {count} gastos cambian, variación del gasto aprobado {delta}",
+		changedExpensesHeading: "Gastos que cambian",
+		expenseChange: "{expenseId} ({employeeId}, {costCenterId}): {from} → {to}",
+	},
+};
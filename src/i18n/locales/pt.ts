@@ -0,0 +1,110 @@
+import type { MessageCatalog } from "../types";
+
+export const pt: MessageCatalog = {
+	intlLocale: "pt-BR",
+	status: {
+		APPROVED: "APROVADO",
+		PARTIALLY_APPROVED: "APROVADO PARCIALMENTE",
+		PENDING: "PENDENTE",
+		REJECTED: "REJEITADO",
+	},
+	alerts: {
+		NEGATIVE_AMOUNT: "Valor não positivo ({amount, number})",
+		POLICY_VERSION_NOT_FOUND:
+			"Nenhuma versão de política vigente em {date, date}, requer revisão manual",
+		CURRENCY_MISMATCH:
+			"Conversão: {originalAmount, money, originalCurrency} → {convertedAmount, money, baseCurrency}",
+		CURRENCY_CONVERSION_ERROR:
+			"Erro na conversão de moeda ({amount, money, currency} para {baseCurrency}), requer revisão manual",
+		FX_RATE_STALE:
+			"Sem taxas de câmbio para {requestedDate, date}; foram usadas as de {provider} de {rateDate, date}",
+		"AGE_LIMIT.REJECTED": "Antiguidade: {daysOld} dias (limite: {limitDays})",
+		"AGE_LIMIT.PENDING": "Antiguidade: {daysOld} dias, requer revisão",
+		"CATEGORY_LIMIT.pendingUpTo":
+			"{amount, money} excede o máximo permitido ({limit, money}) para {category}",
+		"CATEGORY_LIMIT.approvedUpTo":
+			"{amount, money} excede o limite de aprovação automática ({limit, money}), requer revisão",
+		"CATEGORY_LIMIT.pendingUpTo.costCenter":
+			"{amount, money} excede o máximo permitido ({limit, money}) para {category} do centro de custo '{definedOn}'",
+		"CATEGORY_LIMIT.approvedUpTo.costCenter":
+			"{amount, money} excede o limite de aprovação automática ({limit, money}) do centro de custo '{definedOn}', requer revisão",
+		CATEGORY_LIMIT_CAPPED:
+			"{amount, money} excede o valor reembolsável ({limit, money}) para {category}; {nonReimbursable, money} não será reembolsado",
+		"CATEGORY_LIMIT_CAPPED.costCenter":
+			"{amount, money} excede o valor reembolsável ({limit, money}) para {category} do centro de custo '{definedOn}'; {nonReimbursable, money} não será reembolsado",
+		"CUMULATIVE_LIMIT.pendingUpTo":
+			"Acumulado de {total, money} para {scopeId} ({category}) entre {periodStart, date} e {periodEnd, date} excede o limite acumulado {limitId} ({limit, money})",
+		"CUMULATIVE_LIMIT.approvedUpTo":
+			"Acumulado de {total, money} para {scopeId} ({category}) entre {periodStart, date} e {periodEnd, date} excede o limite acumulado de aprovação automática {limitId} ({limit, money}), requer revisão",
+		"BUDGET_LIMIT.REJECTED":
+			"Orçamento {budgetId} de {costCenterId} ({category}) de {periodStart, date} a {periodEnd, date} esgotado: {total, money} de {budget, money}",
+		"BUDGET_LIMIT.PENDING":
+			"Orçamento {budgetId} de {costCenterId} ({category}) de {periodStart, date} a {periodEnd, date} ficaria em {usedPercent}% ({total, money} de {budget, money}), requer revisão",
+		COST_CENTER_POLICY:
+			"Centro de custo '{costCenterId}' não pode lançar '{category}'",
+		"COST_CENTER_POLICY.inherited":
+			"Centro de custo '{costCenterId}' não pode lançar '{category}' (regra de '{ruleCostCenterId}')",
+	},
+	report: {
+		title: "ANÁLISE",
+		statusHeading: "Status das despesas",
+		anomaliesHeading: "Anomalias detectadas",
+		negativeAmounts: "Valores negativos: {count}",
+		exactDuplicates: "Duplicatas exatas: {count}",
+		anomalyBreakdownHeading: "Detalhamento das anomalias",
+		anomalyNegativeAmount:
+			"NEGATIVE_AMOUNT: despesa {expenseId}, valor {amount, number}",
+		anomalyDuplicate:
+			"DUPLICATE: despesa {expenseId} duplica {firstExpenseId} ({amount, money} em {date, date})",
+		invalidRowsHeading: "Linhas inválidas ignoradas",
+		invalidRowsTotal: "Total: {count}",
+		invalidRowsMore: "... mais {count} ignoradas",
+		anomaliesMore: "... mais {count}",
+		policyVersionsHeading: "Versões de política aplicadas",
+		policyVersionCount: "{versionId}: {count} despesas",
+		overridesHeading: "Exceções aplicadas",
+		overrideCount: "{overrideId}: {count} despesas",
+		alertsHeading: "Alertas por despesa",
+		alertsMore: "... mais {count} despesas com alertas",
+		budgetsHeading: "Uso de orçamentos",
+		budgetUsage:
+			"{budgetId} ({costCenterId}, {category}) de {periodStart, date} a {periodEnd, date}: {spent, money} de {budget, money} ({usedPercent}%)",
+		fxCacheHeading: "Cache de taxas de câmbio",
+		fxCacheStats: "{hits} datas do cache, {misses} baixadas, {writes} salvas",
+		nonReimbursableTotal:
+			"Não reembolsado (aprovações parciais): {amount, money}",
+		explainHeading: "Despesa {expenseId}: {status}",
+		explainExpense:
+			"{amount, money} em {category} com data {expenseDate, date}, avaliada em {asOf, date}",
+		explainPolicyVersion:
+			"Versão da política {policyVersionId}, vigente em {policyDate, date}",
+		explainOverrides: "Exceções aplicadas: {overrideIds}",
+		explainConversion:
+			"Convertido {originalAmount, money, originalCurrency} para {convertedAmount, money, baseCurrency} com taxa {rate}",
+		explainRateSource: "Taxas de {provider} de {rateDate, date}",
+		explainConversionFailed:
+			"Não foi possível converter {originalAmount, money, originalCurrency} para {baseCurrency}: {error}",
+		explainRulesHeading: "Regras avaliadas:",
+		explainRule: "{ruleId}: {status}",
+		explainRuleDeciding: "{ruleId}: {status} (determinante)",
+		explainInputs: "dados: {values}",
+		explainThresholds: "limites: {values}",
+		explainDecidedBy: "Decidido por: {rules}",
+		explainAllApproved: "Todas as regras aprovaram a despesa.",
+		simulationTitle: "Simulação de política",
+		simulationPolicies: "Política atual: {current}; candidata: {candidate}",
+		simulationSummary: "{count} despesas, {changed} com resultado diferente",
+		transitionsHeading: "Mudanças de status",
+		transitionCount: "{from} → {to}: {count}",
+		noTransitions: "Sem mudanças de status",
+		approvedSpendHeading: "Gasto aprovado",
+		approvedSpendChange:
+			"{current, money} → {candidate, money} (variação: {delta, money})",
+		affectedEmployeesHeading: "Funcionários afetados",
+		affectedCostCentersHeading: "Centros de custo afetados",
+		groupImpact:
+			"{id}: {count} despesas mudam, variação do gasto aprovado {delta}",
+		changedExpensesHeading: "Despesas que mudam",
+		expenseChange: "{expenseId} ({employeeId}, {costCenterId}): {from} → {to}",
+	},
+};
@@ -0,0 +1,156 @@
+/**
+ * Translator Module
+ *
+ * Renders alerts, statuses and report text from the per-locale message
+ * catalogs, formatting numbers, money and dates for the chosen locale.
+ */
+
+import type { ExpenseStatus } from "../domain/expense";
+import type { Alert, AlertParams, AlertParamValue } from "../domain/result";
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+import { pt } from "./locales/pt";
+import type { Locale, MessageCatalog, ReportMessageKey } from "./types";
+
+const catalogs: Record<Locale, MessageCatalog> = { en, es, pt };
+
+export const SUPPORTED_LOCALES = Object.keys(catalogs) as Locale[];
+
+export function isLocale(value: string): value is Locale {
+	return (SUPPORTED_LOCALES as string[]).includes(value);
+}
+
+/**
+ * Returns the catalog key for an alert: `CODE.variant` for codes whose
+ * wording depends on the outcome, the bare code otherwise.
+ */
+export function alertMessageKey(alert: Alert): string {
+	switch (alert.code) {
+		case "AGE_LIMIT":
+		case "BUDGET_LIMIT":
+			return `${alert.code}.${alert.status}`;
+		case "CATEGORY_LIMIT":
+			return alert.params.definedOn === undefined
+				? `${alert.code}.${String(alert.params.limitKind)}`
+				: `${alert.code}.${String(alert.params.limitKind)}.costCenter`;
+		case "CATEGORY_LIMIT_CAPPED":
+			return alert.params.definedOn === undefined
+				? alert.code
+				: `${alert.code}.costCenter`;
+		case "CUMULATIVE_LIMIT":
+			return `${alert.code}.${String(alert.params.limitKind)}`;
+		case "COST_CENTER_POLICY":
+			return alert.params.ruleCostCenterId === undefined
+				? alert.code
+				: `${alert.code}.inherited`;
+		default:
+			return alert.code;
+	}
+}
+
+export interface Translator {
+	locale: Locale;
+	/** Renders a report message. */
+	report(key: ReportMessageKey, params?: AlertParams): string;
+	/** Localized label for a status. */
+	status(status: ExpenseStatus): string;
+	/**
+	 * Renders an alert from its code and params; alerts without a catalog
+	 * entry (e.g. from custom rules) keep their own message.
+	 */
+	alert(alert: Alert): string;
+	formatNumber(value: number): string;
+	formatMoney(amount: number, currency: string): string;
+	/** Formats an ISO date (YYYY-MM-DD or full timestamp) as a UTC day. */
+	formatDate(isoDate: string): string;
+}
+
+const translators = new Map<Locale, Translator>();
+
+/**
+ * Returns a shared translator for `locale`, creating it on first use.
+ */
+export function getTranslator(locale: Locale): Translator {
+	let translator = translators.get(locale);
+	if (!translator) {
+		translator = createTranslator(locale);
+		translators.set(locale, translator);
+	}
+	return translator;
+}
+
+/**
+ * Creates a translator for `locale`.
+ */
+export function createTranslator(locale: Locale): Translator {
+	const catalog = catalogs[locale];
+	const numberFormat = new Intl.NumberFormat(catalog.intlLocale, {
+		maximumFractionDigits: 2,
+	});
+	const dateFormat = new Intl.DateTimeFormat(catalog.intlLocale, {
+		dateStyle: "medium",
+		timeZone: "UTC",
+	});
+	const moneyFormats = new Map<string, Intl.NumberFormat>();
+
+	const formatNumber = (value: number) => numberFormat.format(value);
+
+	const formatMoney = (amount: number, currency: string) => {
+		let format = moneyFormats.get(currency);
+		if (!format) {
+			try {
+				format = new Intl.NumberFormat(catalog.intlLocale, {
+					style: "currency",
+					currency,
+				});
+			} catch {
+				// Not a currency Intl knows about: fall back to "<number> <code>"
+				return `${formatNumber(amount)} ${currency}`;
+			}
+			moneyFormats.set(currency, format);
+		}
+		return format.format(amount);
+	};
+
+	const formatDate = (isoDate: string) => {
+		const date = new Date(isoDate);
+		return Number.isNaN(date.getTime()) ? isoDate : dateFormat.format(date);
+	};
+
+	const interpolate = (template: string, params: AlertParams) =>
+		template.replace(
+			/\{(\w+)(?:,\s*(number|date|money)(?:,\s*(\w+))?)?\}/g,
+			(placeholder, name: string, format?: string, currencyParam?: string) => {
+				const value: AlertParamValue | undefined = params[name];
+				if (value === undefined) return placeholder;
+				if (format === "number" && typeof value === "number") {
+					return formatNumber(value);
+				}
+				if (format === "money" && typeof value === "number") {
+					return formatMoney(
+						value,
+						String(params[currencyParam ?? "currency"]),
+					);
+				}
+				if (format === "date") {
+					return formatDate(String(value));
+				}
+				return typeof value === "number" ? formatNumber(value) : String(value);
+			},
+		);
+
+	return {
+		locale,
+		report: (key, params = {}) => interpolate(catalog.report[key], params),
+		status: (status) => catalog.status[status],
+		alert: (alert) => {
+			const template = catalog.alerts[alertMessageKey(alert)];
+			return template === undefined
+				? alert.message
+				: interpolate(template, alert.params);
+		},
+		formatNumber,
+		formatMoney,
+		formatDate,
+	};
+}
@@ -0,0 +1,76 @@
+import type { ExpenseStatus } from "../domain/expense";
+
+export type Locale = "es" | "en" | "pt";
+
+export type ReportMessageKey =
+	| "title"
+	| "statusHeading"
+	| "anomaliesHeading"
+	| "negativeAmounts"
+	| "exactDuplicates"
+	| "anomalyBreakdownHeading"
+	| "anomalyNegativeAmount"
+	| "anomalyDuplicate"
+	| "invalidRowsHeading"
+	| "invalidRowsTotal"
+	| "invalidRowsMore"
+	| "anomaliesMore"
+	| "policyVersionsHeading"
+	| "policyVersionCount"
+	| "overridesHeading"
+	| "overrideCount"
+	| "alertsHeading"
+	| "alertsMore"
+	| "budgetsHeading"
+	| "budgetUsage"
+	| "fxCacheHeading"
+	| "fxCacheStats"
+	| "nonReimbursableTotal"
+	| "explainHeading"
+	| "explainExpense"
+	| "explainPolicyVersion"
+	| "explainOverrides"
+	| "explainConversion"
+	| "explainRateSource"
+	| "explainConversionFailed"
+	| "explainRulesHeading"
+	| "explainRule"
+	| "explainRuleDeciding"
+	| "explainInputs"
+	| "explainThresholds"
+	| "explainDecidedBy"
+	| "explainAllApproved"
+	| "simulationTitle"
+	| "simulationPolicies"
+	| "simulationSummary"
+	| "transitionsHeading"
+	| "transitionCount"
+	| "noTransitions"
+	| "approvedSpendHeading"
+	| "approvedSpendChange"
+	| "affectedEmployeesHeading"
+	| "affectedCostCentersHeading"
+	| "groupImpact"
+	| "changedExpensesHeading"
+	| "expenseChange";
+
+/**
+ * Message templates for one locale.
+ *
+ * Templates interpolate params with `{name}`, optionally with a format:
+ * `{name, number}`, `{name, date}` (ISO date strings) or
+ * `{name, money, currencyParam}` (amount in major units of the currency
+ * held in `currencyParam`, default `currency`).
+ */
+export interface MessageCatalog {
+	/** BCP 47 tag used for number, currency and date formatting. */
+	intlLocale: string;
+	status: Record<ExpenseStatus, string>;
+	/**
+	 * Alert templates keyed by alert code, or `CODE.variant` for codes whose
+	 * wording depends on the outcome (see `alertMessageKey`).
+	 */
+	alerts: Record<string, string>;
+	/** Report text, without Markdown markup. */
+	report: Record<ReportMessageKey, string>;
+}
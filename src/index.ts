@@ -1,32 +1,15 @@
 import type { Employee } from "./domain/employee";
 import { ExpenseCategory } from "./domain/expense";
-import type { Policy } from "./domain/policy";
 import { validateExpense } from "./engine/expense-validator";
-import { fetchLatestRates } from "./utils/fx";
+import { createFxProvider } from "./fx/config";
+import { loadPolicy } from "./policy/loader";
+import { moneyFromMajor } from "./utils/money";
 
 console.log("Setting up Expense Rules Engine Skeleton...");
 
-const policy: Policy = {
-	baseCurrency: "USD",
-	ageLimit: {
-		rejectedAfterDays: 60,
-		pendingAfterDays: 30,
-	},
-	categoryLimits: {
-		[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
-	},
-	costCenterRules: [
-		{
-			costCenterId: "core_engineering",
-			forbiddenCategory: ExpenseCategory.FOOD,
-		},
-	],
-};
-
 const expense = {
 	id: "1",
-	amount: 120000,
-	currency: "CLP",
+	amount: moneyFromMajor(120000, "CLP"),
 	category: ExpenseCategory.FOOD,
 	date: new Date(),
 };
@@ -40,7 +23,8 @@ const employee: Employee = {
 
 (async () => {
 	try {
-		const rates = await fetchLatestRates();
+		const policy = loadPolicy(process.env.POLICY ?? "default");
+		const rates = await createFxProvider().getLatestRates();
 		const result = await validateExpense(expense, employee, policy, rates);
 		console.log(JSON.stringify(result, null, 2));
 	} catch (error) {
@@ -0,0 +1,15 @@
+import type { Money } from "../domain/money";
+import type { Policy } from "../domain/policy";
+import { DEFAULT_ROUNDING_MODE, moneyFromMajor } from "../utils/money";
+
+/**
+ * Turns an amount written in a policy (major units of the base currency)
+ * into Money, using the policy's rounding mode.
+ */
+export function policyMoney(policy: Policy, amount: number): Money {
+	return moneyFromMajor(
+		amount,
+		policy.baseCurrency,
+		policy.rounding ?? DEFAULT_ROUNDING_MODE,
+	);
+}
@@ -0,0 +1,103 @@
+/**
+ * Cost Center Tree Module
+ *
+ * Resolves what a policy sets for a cost center, looking at the cost
+ * center itself first and then up through its ancestors (`Policy.costCenters`).
+ * Cost centers missing from the tree only see what is set on themselves.
+ */
+
+import type { ExpenseCategory } from "../domain/expense";
+import type {
+	Budget,
+	CategoryLimit,
+	CostCenterRule,
+	Policy,
+} from "../domain/policy";
+
+/**
+ * The cost center followed by its ancestors, nearest first.
+ */
+export function costCenterLineage(
+	policy: Policy,
+	costCenterId: string,
+): string[] {
+	const parents = new Map(
+		(policy.costCenters ?? []).map((cc) => [cc.id, cc.parent]),
+	);
+	const lineage: string[] = [];
+	for (
+		let id: string | undefined = costCenterId;
+		id !== undefined && !lineage.includes(id);
+		id = parents.get(id)
+	) {
+		lineage.push(id);
+	}
+	return lineage;
+}
+
+/**
+ * The category limit in force for a cost center: the nearest one set in
+ * the tree, else the policy-wide one. `definedOn` names the cost center
+ * it came from, when it came from the tree.
+ */
+export function resolveCategoryLimit(
+	policy: Policy,
+	costCenterId: string,
+	category: ExpenseCategory,
+): { limit: CategoryLimit; definedOn?: string } | undefined {
+	for (const id of costCenterLineage(policy, costCenterId)) {
+		const limit = findCostCenter(policy, id)?.categoryLimits?.[category];
+		if (limit) return { limit, definedOn: id };
+	}
+	const limit = policy.categoryLimits[category];
+	return limit && { limit };
+}
+
+/**
+ * The nearest rule forbidding `category` for a cost center, unless a
+ * nearer cost center allows the category again.
+ */
+export function findForbiddingRule(
+	policy: Policy,
+	costCenterId: string,
+	category: ExpenseCategory,
+): CostCenterRule | undefined {
+	for (const id of costCenterLineage(policy, costCenterId)) {
+		const rule = policy.costCenterRules.find(
+			(r) => r.costCenterId === id && r.forbiddenCategory === category,
+		);
+		if (rule) return rule;
+		if (findCostCenter(policy, id)?.allowedCategories?.includes(category)) {
+			return undefined;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Budgets covering a cost center and category: for each category (or
+ * "every category") the budgets of the nearest cost center that has one.
+ */
+export function resolveBudgets(
+	policy: Policy,
+	costCenterId: string,
+	category: ExpenseCategory,
+): Budget[] {
+	const resolved: Budget[] = [];
+	const covered = new Set<string>();
+	for (const id of costCenterLineage(policy, costCenterId)) {
+		const own = (policy.budgets ?? []).filter(
+			(budget) =>
+				budget.costCenterId === id &&
+				(!budget.category || budget.category === category) &&
+				!covered.has(budget.category ?? "ALL"),
+		);
+		resolved.push(...own);
+		for (const budget of own) covered.add(budget.category ?? "ALL");
+	}
+	return resolved;
+}
+
+function findCostCenter(policy: Policy, id: string) {
+	return policy.costCenters?.find((cc) => cc.id === id);
+}
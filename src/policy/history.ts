@@ -0,0 +1,73 @@
+/**
+ * Policy History Module
+ *
+ * Picks the policy version in force on a given date so that expenses are
+ * judged by the rules that applied when they were incurred (or submitted).
+ */
+
+import type { Expense } from "../domain/expense";
+import type {
+	Policy,
+	PolicyDateBasis,
+	PolicyHistory,
+	PolicySource,
+	PolicyVersion,
+} from "../domain/policy";
+
+export interface SelectedPolicy {
+	policy: Policy;
+	/** Set when the policy was picked from a history. */
+	versionId?: string;
+}
+
+export function isPolicyHistory(source: PolicySource): source is PolicyHistory {
+	return Array.isArray(source);
+}
+
+/**
+ * Returns true if `version` is in force on `date`.
+ */
+export function isEffectiveOn(version: PolicyVersion, date: Date): boolean {
+	const time = date.getTime();
+	return (
+		version.effectiveFrom.getTime() <= time &&
+		(version.effectiveTo === undefined || time < version.effectiveTo.getTime())
+	);
+}
+
+/**
+ * Returns the version of `history` in force on `date`, if any.
+ */
+export function resolvePolicyVersion(
+	history: PolicyHistory,
+	date: Date,
+): PolicyVersion | undefined {
+	return history.find((version) => isEffectiveOn(version, date));
+}
+
+/**
+ * Returns the policy to apply on `date`: the policy itself for a single
+ * policy, or the matching version for a history (undefined if none matches).
+ */
+export function selectPolicy(
+	source: PolicySource,
+	date: Date,
+): SelectedPolicy | undefined {
+	if (!isPolicyHistory(source)) {
+		return { policy: source };
+	}
+	const version = resolvePolicyVersion(source, date);
+	return version ? { policy: version, versionId: version.id } : undefined;
+}
+
+/**
+ * Returns the date that selects the policy version for `expense`.
+ * For "submission", falls back to `asOf` when the submission date is unknown.
+ */
+export function policyDateFor(
+	expense: Expense,
+	basis: PolicyDateBasis,
+	asOf: Date,
+): Date {
+	return basis === "submission" ? (expense.submittedAt ?? asOf) : expense.date;
+}
@@ -0,0 +1,354 @@
+/**
+ * Policy Lint Module
+ *
+ * Finds contradictory or dead configuration in a policy: limits whose
+ * thresholds are out of order or negative, an unsupported base currency,
+ * duplicate cost center rules and ids, limits set for a category the cost
+ * center may not expense, rules that are not registered, and settings the
+ * engine never reads (such as approval escalations without an SLA).
+ *
+ * Policy files get the same structural checks from the schema on load;
+ * the linter also covers policies built in code and the cross-field
+ * problems the schema does not look at. Errors make a policy unusable,
+ * warnings point at configuration that has no effect.
+ */
+
+import type { ExpenseCategory } from "../domain/expense";
+import type {
+	ApprovalStep,
+	CategoryLimit,
+	Policy,
+	PolicySource,
+} from "../domain/policy";
+import {
+	defaultRuleRegistry,
+	type RuleRegistry,
+} from "../engine/rule-registry";
+import { findForbiddingRule } from "./cost-centers";
+import { loadPolicy, PolicyValidationError } from "./loader";
+
+export type LintSeverity = "error" | "warning";
+
+export type LintCode =
+	/** The document does not match the schema (see lintPolicyReference). */
+	| "SCHEMA"
+	| "AGE_LIMIT_ORDER"
+	| "LIMIT_ORDER"
+	| "NEGATIVE_LIMIT"
+	| "UNSUPPORTED_CURRENCY"
+	| "DUPLICATE_COST_CENTER_RULE"
+	| "DUPLICATE_ID"
+	| "FORBIDDEN_CATEGORY_LIMIT"
+	| "UNKNOWN_COST_CENTER"
+	| "UNKNOWN_RULE"
+	| "UNUSED_PENDING_LIMIT"
+	| "UNUSED_ESCALATION";
+
+export interface LintIssue {
+	severity: LintSeverity;
+	code: LintCode;
+	/** Dotted path of the offending field, as in schema errors. */
+	path: string;
+	/** Reads as a sentence when prefixed with the path. */
+	message: string;
+}
+
+/**
+ * Lints a policy, or each version of a policy history (paths then start
+ * with `versions.<index>`). Errors come before warnings.
+ * @param registry Rules `Policy.rules` may reference (default `defaultRuleRegistry`)
+ */
+export function lintPolicy(
+	source: PolicySource,
+	registry: RuleRegistry = defaultRuleRegistry,
+): LintIssue[] {
+	const issues = Array.isArray(source)
+		? source.flatMap((version, index) =>
+				lintOne(version, `versions.${index}.`, registry),
+			)
+		: lintOne(source, "", registry);
+	return [
+		...issues.filter((issue) => issue.severity === "error"),
+		...issues.filter((issue) => issue.severity === "warning"),
+	];
+}
+
+/**
+ * Formats an issue as "<SEVERITY> <path> <message> [<code>]".
+ */
+export function formatLintIssue(issue: LintIssue): string {
+	return `${issue.severity.toUpperCase()} ${issue.path} ${issue.message} [${issue.code}]`;
+}
+
+/**
+ * Lints a policy before a run: warnings are passed to `warn`, errors
+ * stop the run.
+ * @param source Names the policy in the error (usually its file path)
+ * @throws {PolicyValidationError} If the policy has lint errors
+ */
+export function assertPolicyLints(
+	policy: PolicySource,
+	source: string,
+	warn: (message: string) => void = console.warn,
+): void {
+	const issues = lintPolicy(policy);
+	for (const issue of issues) {
+		if (issue.severity === "warning") warn(formatLintIssue(issue));
+	}
+	const errors = issues.filter((issue) => issue.severity === "error");
+	if (errors.length > 0) {
+		throw new PolicyValidationError(
+			source,
+			errors.map((issue) => `${issue.path} ${issue.message}`),
+		);
+	}
+}
+
+/**
+ * Lints a policy by name or path, reporting schema errors as SCHEMA
+ * issues instead of throwing.
+ * @throws {Error} If the policy cannot be found or parsed
+ */
+export function lintPolicyReference(nameOrPath: string): LintIssue[] {
+	try {
+		return lintPolicy(loadPolicy(nameOrPath));
+	} catch (error) {
+		if (!(error instanceof PolicyValidationError)) throw error;
+		// "<path> <message>" lines from the schema
+		return error.issues.map((issue) => {
+			const space = issue.indexOf(" ");
+			return {
+				severity: "error",
+				code: "SCHEMA",
+				path: issue.slice(0, space),
+				message: issue.slice(space + 1),
+			};
+		});
+	}
+}
+
+// --- Internal helpers ---
+
+function lintOne(
+	policy: Policy,
+	prefix: string,
+	registry: RuleRegistry,
+): LintIssue[] {
+	const issues: LintIssue[] = [];
+	const error = (code: LintCode, path: string, message: string) =>
+		issues.push({ severity: "error", code, path: prefix + path, message });
+	const warning = (code: LintCode, path: string, message: string) =>
+		issues.push({ severity: "warning", code, path: prefix + path, message });
+
+	if (!isSupportedCurrency(policy.baseCurrency)) {
+		error(
+			"UNSUPPORTED_CURRENCY",
+			"baseCurrency",
+			`'${policy.baseCurrency}' is not a supported ISO 4217 currency`,
+		);
+	}
+
+	const { rejectedAfterDays, pendingAfterDays } = policy.ageLimit;
+	for (const [name, days] of Object.entries(policy.ageLimit)) {
+		if (days < 0) error("NEGATIVE_LIMIT", `ageLimit.${name}`, "must be >= 0");
+	}
+	if (pendingAfterDays > rejectedAfterDays) {
+		error(
+			"AGE_LIMIT_ORDER",
+			"ageLimit.rejectedAfterDays",
+			`must be >= pendingAfterDays (${rejectedAfterDays} < ${pendingAfterDays}); expenses would be rejected before they could go to review`,
+		);
+	}
+
+	// The engine refuses to run a policy that names a rule it cannot find
+	for (const list of ["enabled", "disabled", "order"] as const) {
+		policy.rules?.[list]?.forEach((id, index) => {
+			if (!registry.get(id)) {
+				error(
+					"UNKNOWN_RULE",
+					`rules.${list}.${index}`,
+					`references rule '${id}', which is not registered`,
+				);
+			}
+		});
+	}
+
+	const checkLimits = (
+		path: string,
+		limits: Partial<Record<ExpenseCategory, CategoryLimit>> | undefined,
+	) => {
+		for (const [category, limit] of Object.entries(limits ?? {})) {
+			checkThresholds(`${path}.${category}`, limit, error);
+			if (limit.partialApproval && limit.pendingUpTo !== limit.approvedUpTo) {
+				warning(
+					"UNUSED_PENDING_LIMIT",
+					`${path}.${category}.pendingUpTo`,
+					"is not used with partialApproval",
+				);
+			}
+		}
+	};
+	checkLimits("categoryLimits", policy.categoryLimits);
+
+	const seenRules = new Map<string, number>();
+	policy.costCenterRules.forEach((rule, index) => {
+		const key = `${rule.costCenterId}|${rule.forbiddenCategory}`;
+		const first = seenRules.get(key);
+		if (first !== undefined) {
+			warning(
+				"DUPLICATE_COST_CENTER_RULE",
+				`costCenterRules.${index}`,
+				`repeats costCenterRules.${first} (${rule.costCenterId} may not expense ${rule.forbiddenCategory})`,
+			);
+		} else {
+			seenRules.set(key, index);
+		}
+	});
+
+	const knownCostCenters = policy.costCenters
+		? new Set(policy.costCenters.map((cc) => cc.id))
+		: undefined;
+	const checkCostCenter = (path: string, costCenterId: string) => {
+		if (knownCostCenters && !knownCostCenters.has(costCenterId)) {
+			warning(
+				"UNKNOWN_COST_CENTER",
+				path,
+				`references cost center '${costCenterId}', which is not in costCenters`,
+			);
+		}
+	};
+	policy.costCenterRules.forEach((rule, index) =>
+		checkCostCenter(`costCenterRules.${index}.costCenterId`, rule.costCenterId),
+	);
+
+	// A limit set for a cost center on a category it may not expense never applies
+	const checkForbidden = (
+		path: string,
+		costCenterId: string,
+		limits: Partial<Record<ExpenseCategory, CategoryLimit>> | undefined,
+	) => {
+		for (const category of Object.keys(limits ?? {}) as ExpenseCategory[]) {
+			const rule = findForbiddingRule(policy, costCenterId, category);
+			if (rule) {
+				warning(
+					"FORBIDDEN_CATEGORY_LIMIT",
+					`${path}.${category}`,
+					`never applies: cost center '${rule.costCenterId}' may not expense ${category}`,
+				);
+			}
+		}
+	};
+
+	policy.costCenters?.forEach((costCenter, index) => {
+		checkLimits(
+			`costCenters.${index}.categoryLimits`,
+			costCenter.categoryLimits,
+		);
+		checkForbidden(
+			`costCenters.${index}.categoryLimits`,
+			costCenter.id,
+			costCenter.categoryLimits,
+		);
+	});
+
+	checkDuplicateIds("cumulativeLimits", policy.cumulativeLimits, error);
+	policy.cumulativeLimits?.forEach((limit, index) =>
+		checkThresholds(`cumulativeLimits.${index}`, limit, error),
+	);
+
+	checkDuplicateIds("budgets", policy.budgets, error);
+	policy.budgets?.forEach((budget, index) => {
+		if (budget.amount < 0) {
+			error("NEGATIVE_LIMIT", `budgets.${index}.amount`, "must be >= 0");
+		}
+		checkCostCenter(`budgets.${index}.costCenterId`, budget.costCenterId);
+	});
+
+	checkDuplicateIds("overrides", policy.overrides, error);
+	policy.overrides?.forEach((override, index) => {
+		const path = `overrides.${index}`;
+		checkLimits(`${path}.categoryLimits`, override.categoryLimits);
+		if (override.costCenterId !== undefined) {
+			checkCostCenter(`${path}.costCenterId`, override.costCenterId);
+			if (override.employeeId === undefined) {
+				checkForbidden(
+					`${path}.categoryLimits`,
+					override.costCenterId,
+					override.categoryLimits,
+				);
+			}
+		}
+		for (const [name, days] of Object.entries(override.ageLimit ?? {})) {
+			if (days !== undefined && days < 0) {
+				error("NEGATIVE_LIMIT", `${path}.ageLimit.${name}`, "must be >= 0");
+			}
+		}
+	});
+
+	const checkEscalations = (path: string, steps: ApprovalStep[]) =>
+		steps.forEach((step, index) => {
+			if (step.escalateTo !== undefined && step.slaHours === undefined) {
+				warning(
+					"UNUSED_ESCALATION",
+					`${path}.${index}.escalateTo`,
+					"never applies without slaHours",
+				);
+			}
+		});
+	if (policy.approvals) {
+		checkEscalations("approvals.steps", policy.approvals.steps);
+		policy.approvals.costCenters?.forEach((chain, index) => {
+			const path = `approvals.costCenters.${index}`;
+			checkCostCenter(`${path}.costCenterId`, chain.costCenterId);
+			checkEscalations(`${path}.steps`, chain.steps);
+		});
+	}
+
+	return issues;
+}
+
+function checkThresholds(
+	path: string,
+	limit: { approvedUpTo: number; pendingUpTo: number },
+	error: (code: LintCode, path: string, message: string) => void,
+): void {
+	for (const name of ["approvedUpTo", "pendingUpTo"] as const) {
+		if (limit[name] < 0) {
+			error("NEGATIVE_LIMIT", `${path}.${name}`, "must be >= 0");
+		}
+	}
+	if (limit.approvedUpTo > limit.pendingUpTo) {
+		error(
+			"LIMIT_ORDER",
+			`${path}.pendingUpTo`,
+			`must be >= approvedUpTo (${limit.pendingUpTo} < ${limit.approvedUpTo})`,
+		);
+	}
+}
+
+function checkDuplicateIds(
+	path: string,
+	items: { id: string }[] | undefined,
+	error: (code: LintCode, path: string, message: string) => void,
+): void {
+	const seen = new Map<string, number>();
+	items?.forEach((item, index) => {
+		const first = seen.get(item.id);
+		if (first !== undefined) {
+			error(
+				"DUPLICATE_ID",
+				`${path}.${index}.id`,
+				`duplicates the id of ${path}.${first}`,
+			);
+		} else {
+			seen.set(item.id, index);
+		}
+	});
+}
+
+let supportedCurrencies: Set<string> | undefined;
+
+function isSupportedCurrency(code: string): boolean {
+	supportedCurrencies ??= new Set(Intl.supportedValuesOf("currency"));
+	return supportedCurrencies.has(code);
+}
@@ -0,0 +1,149 @@
+/**
+ * Policy Loader Module
+ *
+ * Loads policy documents (JSON or YAML) from disk and validates them
+ * against the policy schema before handing them to the engine.
+ *
+ * A document holds either a single policy, or a `versions` list of
+ * effective-dated policies (a policy history).
+ *
+ * A policy can be referenced by file path or by name; names are resolved
+ * against the policy directory (`POLICY_DIR`, defaulting to `./policies`).
+ */
+
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import type { PolicySource } from "../domain/policy";
+import {
+	formatIssues,
+	PolicyDocumentSchema,
+	PolicyHistoryDocumentSchema,
+} from "./schema";
+
+const POLICY_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * Raised when a policy document does not match the schema.
+ * `issues` holds one "<path> <message>" entry per problem found.
+ */
+export class PolicyValidationError extends Error {
+	constructor(
+		readonly source: string,
+		readonly issues: string[],
+	) {
+		super(
+			`Invalid policy in ${source}:\n${issues.map((i) => `  - ${i}`).join("\n")}`,
+		);
+		this.name = "PolicyValidationError";
+	}
+}
+
+/**
+ * Returns the directory named policies are resolved against.
+ */
+export function defaultPolicyDir(): string {
+	return process.env.POLICY_DIR ?? path.join(process.cwd(), "policies");
+}
+
+/**
+ * Validates an already-parsed policy or policy history document.
+ * @param source Used in error messages (usually the file path)
+ * @throws {PolicyValidationError} If the document does not match the schema
+ */
+export function parsePolicyDocument(
+	raw: unknown,
+	source: string,
+): PolicySource {
+	if (typeof raw === "object" && raw !== null && "versions" in raw) {
+		const result = PolicyHistoryDocumentSchema.safeParse(raw);
+		if (!result.success) {
+			throw new PolicyValidationError(source, formatIssues(result.error));
+		}
+		return result.data.versions;
+	}
+
+	const result = PolicyDocumentSchema.safeParse(raw);
+	if (!result.success) {
+		throw new PolicyValidationError(source, formatIssues(result.error));
+	}
+	const { schemaVersion: _schemaVersion, ...policy } = result.data;
+	return policy;
+}
+
+/**
+ * Reads and parses a policy file, choosing the parser from its extension.
+ */
+export function readPolicyFile(filePath: string): unknown {
+	const text = fs.readFileSync(filePath, "utf-8");
+	const ext = path.extname(filePath).toLowerCase();
+	try {
+		return ext === ".json" ? JSON.parse(text) : YAML.parse(text);
+	} catch (error) {
+		throw new Error(
+			`Failed to parse policy file ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+		);
+	}
+}
+
+/**
+ * Loads and validates the policy (or policy history) stored at `filePath`.
+ */
+export function loadPolicyFile(filePath: string): PolicySource {
+	return parsePolicyDocument(readPolicyFile(filePath), filePath);
+}
+
+/**
+ * Resolves a policy reference to a file path.
+ * References containing a path separator or a known extension are treated
+ * as paths; anything else is looked up as `<dir>/<name>.{json,yaml,yml}`.
+ * @throws {Error} If no matching file exists
+ */
+export function resolvePolicyPath(
+	nameOrPath: string,
+	dir: string = defaultPolicyDir(),
+): string {
+	const candidates = isPolicyPath(nameOrPath)
+		? [path.resolve(nameOrPath)]
+		: POLICY_EXTENSIONS.map((ext) => path.join(dir, `${nameOrPath}${ext}`));
+
+	const found = candidates.find((candidate) => fs.existsSync(candidate));
+	if (!found) {
+		throw new Error(
+			`Policy '${nameOrPath}' not found (looked for ${candidates.join(", ")})`,
+		);
+	}
+	return found;
+}
+
+/**
+ * Whether `resolvePolicyPath` treats the reference as a path rather than a name.
+ */
+export function isPolicyPath(nameOrPath: string): boolean {
+	return (
+		nameOrPath.includes("/") ||
+		nameOrPath.includes(path.sep) ||
+		POLICY_EXTENSIONS.includes(path.extname(nameOrPath).toLowerCase())
+	);
+}
+
+/**
+ * Names of the policies in `dir` (files with a policy extension), sorted.
+ */
+export function listPolicyNames(dir: string = defaultPolicyDir()): string[] {
+	if (!fs.existsSync(dir)) return [];
+	const names = fs
+		.readdirSync(dir)
+		.filter((file) =>
+			POLICY_EXTENSIONS.includes(path.extname(file).toLowerCase()),
+		)
+		.map((file) => path.basename(file, path.extname(file)));
+	return [...new Set(names)].sort();
+}
+
+/**
+ * Loads a policy by name (from the policy directory) or by path.
+ */
+export function loadPolicy(nameOrPath: string, dir?: string): PolicySource {
+	return loadPolicyFile(resolvePolicyPath(nameOrPath, dir));
+}
@@ -0,0 +1,111 @@
+/**
+ * Policy Overrides Module
+ *
+ * Folds the overrides matching an employee (and in force on the expense
+ * date) into the policy, so rules see the limits that apply to that
+ * employee without knowing about overrides.
+ */
+
+import type { Employee } from "../domain/employee";
+import type { CostCenter, Policy, PolicyOverride } from "../domain/policy";
+import { toDateKey } from "../utils/date";
+import { costCenterLineage } from "./cost-centers";
+
+export interface OverriddenPolicy {
+	policy: Policy;
+	/** Ids of the overrides applied, in the order they were applied. */
+	overrideIds: string[];
+}
+
+/**
+ * Applies the overrides of `policy` that match `employee` on `date`,
+ * least specific first. Category limits an override sets also replace
+ * those set in the cost center tree.
+ */
+export function applyOverrides(
+	policy: Policy,
+	employee: Employee,
+	date: Date,
+): OverriddenPolicy {
+	const matching = (policy.overrides ?? [])
+		.filter((override) => matches(policy, override, employee, date))
+		.map((override, index) => ({ override, index }))
+		.sort(
+			(a, b) =>
+				specificity(a.override) - specificity(b.override) || a.index - b.index,
+		)
+		.map(({ override }) => override);
+	if (matching.length === 0) return { policy, overrideIds: [] };
+
+	let effective: Policy = policy;
+	for (const override of matching) {
+		effective = applyOverride(effective, override);
+	}
+	return { policy: effective, overrideIds: matching.map((o) => o.id) };
+}
+
+function matches(
+	policy: Policy,
+	override: PolicyOverride,
+	employee: Employee,
+	date: Date,
+): boolean {
+	const day = toDateKey(date);
+	if (override.validFrom && day < toDateKey(override.validFrom)) return false;
+	if (override.validUntil && day > toDateKey(override.validUntil)) return false;
+	if (
+		override.employeeId !== undefined &&
+		override.employeeId !== employee.id
+	) {
+		return false;
+	}
+	if (
+		override.costCenterId !== undefined &&
+		!costCenterLineage(policy, employee.costCenterId).includes(
+			override.costCenterId,
+		)
+	) {
+		return false;
+	}
+	return Object.entries(override.attributes ?? {}).every(
+		([name, value]) => employee.attributes?.[name] === value,
+	);
+}
+
+function specificity(override: PolicyOverride): number {
+	if (override.employeeId !== undefined) return 2;
+	if (override.costCenterId !== undefined) return 1;
+	return 0;
+}
+
+function applyOverride(policy: Policy, override: PolicyOverride): Policy {
+	const replaced = override.categoryLimits ?? {};
+	const replaceAll = override.categoryLimitsMode === "replace";
+	const isReplaced = (category: string) => replaceAll || category in replaced;
+
+	return {
+		...policy,
+		ageLimit: {
+			rejectedAfterDays:
+				override.ageLimit?.rejectedAfterDays ??
+				policy.ageLimit.rejectedAfterDays,
+			pendingAfterDays:
+				override.ageLimit?.pendingAfterDays ?? policy.ageLimit.pendingAfterDays,
+		},
+		categoryLimits: replaceAll
+			? { ...replaced }
+			: { ...policy.categoryLimits, ...replaced },
+		costCenters: policy.costCenters?.map((costCenter) =>
+			costCenter.categoryLimits
+				? {
+						...costCenter,
+						categoryLimits: Object.fromEntries(
+							Object.entries(costCenter.categoryLimits).filter(
+								([category]) => !isReplaced(category),
+							),
+						) as CostCenter["categoryLimits"],
+					}
+				: costCenter,
+		),
+	};
+}
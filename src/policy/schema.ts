@@ -0,0 +1,400 @@
+/**
+ * Policy Schema Module
+ *
+ * Zod schemas mirroring the `Policy`, `CategoryLimit` and `CostCenterRule`
+ * domain types. Messages are phrased so that, prefixed with the issue path,
+ * they read as a sentence (e.g. "categoryLimits.FOOD.pendingUpTo must be >= approvedUpTo").
+ */
+
+import { z } from "zod";
+import { ExpenseCategory } from "../domain/expense";
+import { RoundingMode } from "../domain/money";
+import type {
+	ApprovalSettings,
+	ApprovalStep,
+	Budget,
+	CategoryLimit,
+	CostCenter,
+	CostCenterRule,
+	CumulativeLimit,
+	Policy,
+	PolicyOverride,
+	PolicyVersion,
+	RuleSettings,
+} from "../domain/policy";
+
+/**
+ * Current version of the on-disk policy document format.
+ */
+export const POLICY_SCHEMA_VERSION = 1;
+
+const nonNegativeAmount = z
+	.number({ error: "must be a number" })
+	.nonnegative({ error: "must be >= 0" });
+
+const nonNegativeDays = z
+	.number({ error: "must be a number" })
+	.int({ error: "must be a whole number of days" })
+	.nonnegative({ error: "must be >= 0" });
+
+const isoDay = z.iso
+	.date({ error: "must be a date in the form YYYY-MM-DD" })
+	.transform((day) => new Date(`${day}T00:00:00.000Z`));
+
+const categorySchema = z.enum(ExpenseCategory, {
+	error: `must be one of ${Object.values(ExpenseCategory).join(", ")}`,
+});
+
+export const CategoryLimitSchema = z
+	.strictObject({
+		approvedUpTo: nonNegativeAmount,
+		pendingUpTo: nonNegativeAmount,
+		partialApproval: z.boolean({ error: "must be true or false" }).optional(),
+	})
+	.refine((limit) => limit.pendingUpTo >= limit.approvedUpTo, {
+		path: ["pendingUpTo"],
+		error: "must be >= approvedUpTo",
+	}) satisfies z.ZodType<CategoryLimit>;
+
+export const CostCenterRuleSchema = z.strictObject({
+	costCenterId: z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" }),
+	forbiddenCategory: categorySchema,
+}) satisfies z.ZodType<CostCenterRule>;
+
+export const CostCenterSchema = z.strictObject({
+	id: z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" }),
+	parent: z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" })
+		.optional(),
+	categoryLimits: z
+		.partialRecord(categorySchema, CategoryLimitSchema)
+		.optional(),
+	allowedCategories: z
+		.array(categorySchema, { error: "must be a list" })
+		.optional(),
+}) satisfies z.ZodType<CostCenter>;
+
+/**
+ * Cost centers with unique ids, known parents and no cycles.
+ */
+const CostCenterTreeSchema = z
+	.array(CostCenterSchema, { error: "must be a list" })
+	.superRefine((costCenters, ctx) => {
+		const parents = new Map<string, string | undefined>();
+		costCenters.forEach((costCenter, index) => {
+			if (parents.has(costCenter.id)) {
+				ctx.addIssue({
+					code: "custom",
+					path: [index, "id"],
+					message: `duplicates cost center '${costCenter.id}'`,
+				});
+			}
+			parents.set(costCenter.id, costCenter.parent);
+		});
+
+		costCenters.forEach((costCenter, index) => {
+			if (costCenter.parent === undefined) return;
+			if (!parents.has(costCenter.parent)) {
+				ctx.addIssue({
+					code: "custom",
+					path: [index, "parent"],
+					message: `references unknown cost center '${costCenter.parent}'`,
+				});
+				return;
+			}
+			const seen = new Set([costCenter.id]);
+			for (
+				let id: string | undefined = costCenter.parent;
+				id !== undefined;
+				id = parents.get(id)
+			) {
+				if (seen.has(id)) {
+					ctx.addIssue({
+						code: "custom",
+						path: [index, "parent"],
+						message: `makes a cycle through '${id}'`,
+					});
+					return;
+				}
+				seen.add(id);
+			}
+		});
+	});
+
+export const CumulativeLimitSchema = z
+	.strictObject({
+		id: z
+			.string({ error: "must be a string" })
+			.min(1, { error: "must not be empty" }),
+		scope: z.enum(["employee", "costCenter"], {
+			error: "must be one of employee, costCenter",
+		}),
+		category: categorySchema.optional(),
+		period: z.enum(["day", "week", "month", "rolling"], {
+			error: "must be one of day, week, month, rolling",
+		}),
+		rollingDays: z
+			.number({ error: "must be a number" })
+			.int({ error: "must be a whole number of days" })
+			.positive({ error: "must be > 0" })
+			.optional(),
+		approvedUpTo: nonNegativeAmount,
+		pendingUpTo: nonNegativeAmount,
+	})
+	.refine((limit) => limit.pendingUpTo >= limit.approvedUpTo, {
+		path: ["pendingUpTo"],
+		error: "must be >= approvedUpTo",
+	})
+	.refine(
+		(limit) =>
+			(limit.period === "rolling") === (limit.rollingDays !== undefined),
+		{
+			path: ["rollingDays"],
+			error: 'is required with period "rolling" and only allowed with it',
+		},
+	) satisfies z.ZodType<CumulativeLimit>;
+
+export const BudgetSchema = z.strictObject({
+	id: z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" }),
+	costCenterId: z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" }),
+	category: categorySchema.optional(),
+	period: z.enum(["month", "quarter", "year"], {
+		error: "must be one of month, quarter, year",
+	}),
+	amount: nonNegativeAmount,
+	warnAt: z
+		.number({ error: "must be a number" })
+		.min(0, { error: "must be between 0 and 1" })
+		.max(1, { error: "must be between 0 and 1" })
+		.optional(),
+}) satisfies z.ZodType<Budget>;
+
+export const PolicyOverrideSchema = z
+	.strictObject({
+		id: z
+			.string({ error: "must be a string" })
+			.min(1, { error: "must not be empty" }),
+		employeeId: z
+			.string({ error: "must be a string" })
+			.min(1, { error: "must not be empty" })
+			.optional(),
+		costCenterId: z
+			.string({ error: "must be a string" })
+			.min(1, { error: "must not be empty" })
+			.optional(),
+		attributes: z
+			.record(z.string(), z.string({ error: "must be a string" }))
+			.optional(),
+		categoryLimits: z
+			.partialRecord(categorySchema, CategoryLimitSchema)
+			.optional(),
+		categoryLimitsMode: z
+			.enum(["merge", "replace"], { error: "must be one of merge, replace" })
+			.optional(),
+		ageLimit: z
+			.strictObject({
+				rejectedAfterDays: nonNegativeDays.optional(),
+				pendingAfterDays: nonNegativeDays.optional(),
+			})
+			.optional(),
+		validFrom: isoDay.optional(),
+		validUntil: isoDay.optional(),
+	})
+	.refine(
+		(override) =>
+			override.employeeId !== undefined ||
+			override.costCenterId !== undefined ||
+			override.attributes !== undefined,
+		{ error: "must set employeeId, costCenterId or attributes" },
+	)
+	.refine(
+		(override) =>
+			override.validFrom === undefined ||
+			override.validUntil === undefined ||
+			override.validUntil.getTime() >= override.validFrom.getTime(),
+		{ path: ["validUntil"], error: "must not be before validFrom" },
+	) satisfies z.ZodType<PolicyOverride>;
+
+const ruleIdList = z.array(
+	z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" }),
+	{ error: "must be a list of rule ids" },
+);
+
+export const RuleSettingsSchema = z.strictObject({
+	enabled: ruleIdList.optional(),
+	disabled: ruleIdList.optional(),
+	order: ruleIdList.optional(),
+}) satisfies z.ZodType<RuleSettings>;
+
+export const ApprovalStepSchema = z.strictObject({
+	id: z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" }),
+	approver: z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" }),
+	above: nonNegativeAmount.optional(),
+	slaHours: z
+		.number({ error: "must be a number" })
+		.positive({ error: "must be > 0" })
+		.optional(),
+	escalateTo: z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" })
+		.optional(),
+}) satisfies z.ZodType<ApprovalStep>;
+
+const approvalChain = z
+	.array(ApprovalStepSchema, { error: "must be a list" })
+	.refine((steps) => steps.some((step) => step.above === undefined), {
+		error: "must have a step without 'above'",
+	})
+	.refine(
+		(steps) => new Set(steps.map((step) => step.id)).size === steps.length,
+		{ error: "must not repeat step ids" },
+	);
+
+export const ApprovalSettingsSchema = z.strictObject({
+	steps: approvalChain,
+	costCenters: z
+		.array(
+			z.strictObject({
+				costCenterId: z
+					.string({ error: "must be a string" })
+					.min(1, { error: "must not be empty" }),
+				steps: approvalChain,
+			}),
+			{ error: "must be a list" },
+		)
+		.optional(),
+}) satisfies z.ZodType<ApprovalSettings>;
+
+export const PolicySchema = z.strictObject({
+	baseCurrency: z
+		.string({ error: "must be a string" })
+		.regex(/^[A-Z]{3}$/, { error: "must be a 3-letter ISO 4217 code" }),
+	rounding: z
+		.enum(RoundingMode, {
+			error: `must be one of ${Object.values(RoundingMode).join(", ")}`,
+		})
+		.optional(),
+	ageLimit: z
+		.strictObject({
+			rejectedAfterDays: nonNegativeDays,
+			pendingAfterDays: nonNegativeDays,
+		})
+		.refine((age) => age.rejectedAfterDays >= age.pendingAfterDays, {
+			path: ["rejectedAfterDays"],
+			error: "must be >= pendingAfterDays",
+		}),
+	categoryLimits: z.partialRecord(categorySchema, CategoryLimitSchema),
+	costCenterRules: z.array(CostCenterRuleSchema, { error: "must be a list" }),
+	costCenters: CostCenterTreeSchema.optional(),
+	cumulativeLimits: z
+		.array(CumulativeLimitSchema, { error: "must be a list" })
+		.optional(),
+	budgets: z.array(BudgetSchema, { error: "must be a list" }).optional(),
+	overrides: z
+		.array(PolicyOverrideSchema, { error: "must be a list" })
+		.optional(),
+	rules: RuleSettingsSchema.optional(),
+	approvals: ApprovalSettingsSchema.optional(),
+}) satisfies z.ZodType<Policy>;
+
+/**
+ * A policy as stored on disk: the policy itself plus the document format version.
+ */
+export const PolicyDocumentSchema = PolicySchema.extend({
+	schemaVersion: z.literal(POLICY_SCHEMA_VERSION, {
+		error: `must be ${POLICY_SCHEMA_VERSION}`,
+	}),
+});
+
+export const PolicyVersionSchema = PolicySchema.extend({
+	id: z
+		.string({ error: "must be a string" })
+		.min(1, { error: "must not be empty" }),
+	effectiveFrom: isoDay,
+	effectiveTo: isoDay.optional(),
+}).refine(
+	(version) =>
+		version.effectiveTo === undefined ||
+		version.effectiveTo.getTime() > version.effectiveFrom.getTime(),
+	{ path: ["effectiveTo"], error: "must be after effectiveFrom" },
+) satisfies z.ZodType<PolicyVersion>;
+
+/**
+ * A policy history as stored on disk: effective-dated versions that must
+ * not overlap and must have unique ids.
+ */
+export const PolicyHistoryDocumentSchema = z
+	.strictObject({
+		schemaVersion: z.literal(POLICY_SCHEMA_VERSION, {
+			error: `must be ${POLICY_SCHEMA_VERSION}`,
+		}),
+		versions: z
+			.array(PolicyVersionSchema, { error: "must be a list" })
+			.min(1, { error: "must contain at least one version" }),
+	})
+	.superRefine((doc, ctx) => {
+		const seenIds = new Map<string, number>();
+		doc.versions.forEach((version, index) => {
+			const first = seenIds.get(version.id);
+			if (first !== undefined) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["versions", index, "id"],
+					message: `duplicates the id of versions.${first}`,
+				});
+			} else {
+				seenIds.set(version.id, index);
+			}
+		});
+
+		const byStart = doc.versions
+			.map((version, index) => ({ version, index }))
+			.sort(
+				(a, b) =>
+					a.version.effectiveFrom.getTime() - b.version.effectiveFrom.getTime(),
+			);
+		for (let i = 1; i < byStart.length; i++) {
+			const prev = byStart[i - 1];
+			const curr = byStart[i];
+			if (!prev || !curr) continue;
+			const prevEnd = prev.version.effectiveTo?.getTime() ?? Infinity;
+			if (prevEnd > curr.version.effectiveFrom.getTime()) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["versions", curr.index, "effectiveFrom"],
+					message: `overlaps version '${prev.version.id}'`,
+				});
+			}
+		}
+	});
+
+/**
+ * Formats zod issues as "<path> <message>" lines.
+ */
+export function formatIssues(error: z.ZodError): string[] {
+	return error.issues.map((issue) => {
+		const where = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+		if (issue.code === "invalid_key") {
+			return `${where} is not a valid key`;
+		}
+		if (issue.code === "unrecognized_keys") {
+			return `${where} has unknown keys: ${issue.keys.join(", ")}`;
+		}
+		return `${where} ${issue.message}`;
+	});
+}
@@ -0,0 +1,161 @@
+/**
+ * Scenario Runner Module
+ *
+ * Loads scenario suites (see schema.ts) and runs each scenario through
+ * `validateExpense` against a policy, comparing the status and alert codes
+ * with the expected ones. Scenarios are independent: no spending history
+ * or budget ledger carries over between them.
+ */
+
+import fs from "fs";
+import path from "path";
+import YAML from "yaml";
+import type { Employee } from "../domain/employee";
+import type { Expense } from "../domain/expense";
+import type { PolicySource } from "../domain/policy";
+import type { ValidationResult } from "../domain/result";
+import { validateExpense } from "../engine/expense-validator";
+import { FixedRatesProvider } from "../fx/fixed-rates-provider";
+import { isPolicyPath } from "../policy/loader";
+import { formatIssues } from "../policy/schema";
+import { moneyFromMajor } from "../utils/money";
+import {
+	type Scenario,
+	type ScenarioSuite,
+	ScenarioSuiteSchema,
+} from "./schema";
+
+export interface ScenarioResult {
+	name: string;
+	passed: boolean;
+	/** One line per mismatch, e.g. "status: expected PENDING, got REJECTED". */
+	diffs: string[];
+	/** Absent when validation threw (the error is in `diffs`). */
+	result?: ValidationResult;
+}
+
+/**
+ * Reads and validates a scenario suite file (JSON, or YAML by extension).
+ * A relative policy path in the suite is resolved against the suite's directory.
+ * @throws {Error} If the file cannot be parsed or does not match the schema
+ */
+export function loadScenarioSuite(filePath: string): ScenarioSuite {
+	const text = fs.readFileSync(filePath, "utf-8");
+	let raw: unknown;
+	try {
+		raw =
+			path.extname(filePath).toLowerCase() === ".json"
+				? JSON.parse(text)
+				: YAML.parse(text);
+	} catch (error) {
+		throw new Error(
+			`Failed to parse scenario suite ${filePath}: ${error instanceof Error ? error.message : "Unknown error"}`,
+		);
+	}
+	const suite = parseScenarioSuite(raw, filePath);
+	return suite.policy !== undefined && isPolicyPath(suite.policy)
+		? { ...suite, policy: path.resolve(path.dirname(filePath), suite.policy) }
+		: suite;
+}
+
+/**
+ * Validates an already-parsed scenario suite.
+ * @param source Used in error messages (usually the file path)
+ */
+export function parseScenarioSuite(
+	raw: unknown,
+	source: string,
+): ScenarioSuite {
+	const result = ScenarioSuiteSchema.safeParse(raw);
+	if (!result.success) {
+		throw new Error(
+			`Invalid scenario suite in ${source}:\n${formatIssues(result.error)
+				.map((issue) => `  - ${issue}`)
+				.join("\n")}`,
+		);
+	}
+	return result.data;
+}
+
+/**
+ * Runs every scenario of `suite` against `policy`, in order.
+ */
+export async function runScenarioSuite(
+	suite: ScenarioSuite,
+	policy: PolicySource,
+): Promise<ScenarioResult[]> {
+	const results: ScenarioResult[] = [];
+	for (const [index, scenario] of suite.scenarios.entries()) {
+		results.push(await runScenario(suite, scenario, index, policy));
+	}
+	return results;
+}
+
+async function runScenario(
+	suite: ScenarioSuite,
+	scenario: Scenario,
+	index: number,
+	policy: PolicySource,
+): Promise<ScenarioResult> {
+	const { defaults } = suite;
+	const expense: Expense = {
+		id: scenario.expense.id ?? `scenario-${index + 1}`,
+		amount: moneyFromMajor(scenario.expense.amount, scenario.expense.currency),
+		category: scenario.expense.category,
+		date: utcDay(scenario.expense.date),
+		...(scenario.expense.submittedAt !== undefined && {
+			submittedAt: utcDay(scenario.expense.submittedAt),
+		}),
+	};
+	// The schema makes sure id, costCenterId and asOf are set somewhere
+	const fields = { ...defaults?.employee, ...scenario.employee };
+	const employee: Employee = {
+		id: fields.id as string,
+		firstName: fields.firstName ?? "",
+		lastName: fields.lastName ?? "",
+		costCenterId: fields.costCenterId as string,
+		...(fields.attributes && { attributes: fields.attributes }),
+	};
+	const asOf = utcDay((scenario.asOf ?? defaults?.asOf) as string);
+	const rates = scenario.rates ?? defaults?.rates;
+	const provider =
+		rates &&
+		new FixedRatesProvider({
+			base: scenario.ratesBase ?? defaults?.ratesBase ?? "USD",
+			rates,
+		});
+
+	let result: ValidationResult;
+	try {
+		result = await validateExpense(expense, employee, policy, provider, asOf);
+	} catch (error) {
+		return {
+			name: scenario.name,
+			passed: false,
+			diffs: [
+				`error: ${error instanceof Error ? error.message : "Unknown error"}`,
+			],
+		};
+	}
+
+	const diffs: string[] = [];
+	if (result.status !== scenario.expect.status) {
+		diffs.push(
+			`status: expected ${scenario.expect.status}, got ${result.status}`,
+		);
+	}
+	if (scenario.expect.alerts) {
+		const expected = [...scenario.expect.alerts].sort();
+		const actual = result.alerts.map((alert) => alert.code).sort();
+		if (expected.join(",") !== actual.join(",")) {
+			diffs.push(
+				`alerts: expected [${expected.join(", ")}], got [${actual.join(", ")}]`,
+			);
+		}
+	}
+	return { name: scenario.name, passed: diffs.length === 0, diffs, result };
+}
+
+function utcDay(day: string): Date {
+	return new Date(`${day}T00:00:00.000Z`);
+}
@@ -0,0 +1,118 @@
+/**
+ * Scenario Schema Module
+ *
+ * Zod schema for policy scenario suites: files listing expenses with the
+ * outcome a policy should give them, so policy authors can regression-test
+ * a change without writing TypeScript. Suites are JSON or YAML:
+ *
+ *   schemaVersion: 1
+ *   policy: default            # optional, name or path (relative to the suite)
+ *   defaults:                  # optional, merged into every scenario
+ *     asOf: 2025-02-20
+ *     rates: { CLP: 950 }      # per ratesBase (default USD)
+ *     employee: { id: e_1, costCenterId: core_sales }
+ *   scenarios:
+ *     - name: Lunch over the auto-approval limit
+ *       expense: { amount: 120, currency: USD, category: FOOD, date: 2025-02-10 }
+ *       expect: { status: PENDING, alerts: [CATEGORY_LIMIT] }
+ */
+
+import { z } from "zod";
+import { ExpenseCategory, ExpenseStatus } from "../domain/expense";
+
+export const SCENARIO_SCHEMA_VERSION = 1;
+
+const nonEmpty = z
+	.string({ error: "must be a string" })
+	.min(1, { error: "must not be empty" });
+
+const isoDay = z.iso.date({ error: "must be a date in the form YYYY-MM-DD" });
+
+const currencyCode = z
+	.string({ error: "must be a string" })
+	.regex(/^[A-Z]{3}$/, { error: "must be a 3-letter ISO 4217 code" });
+
+const ScenarioEmployeeSchema = z.strictObject({
+	id: nonEmpty,
+	costCenterId: nonEmpty,
+	firstName: z.string({ error: "must be a string" }).optional(),
+	lastName: z.string({ error: "must be a string" }).optional(),
+	attributes: z
+		.record(z.string(), z.string({ error: "must be a string" }))
+		.optional(),
+});
+
+const ratesSchema = z.record(
+	currencyCode,
+	z.number({ error: "must be a number" }).positive({ error: "must be > 0" }),
+);
+
+const ScenarioSchema = z.strictObject({
+	name: nonEmpty,
+	expense: z.strictObject({
+		id: nonEmpty.optional(),
+		amount: z.number({ error: "must be a number" }),
+		currency: currencyCode,
+		category: z.enum(ExpenseCategory, {
+			error: `must be one of ${Object.values(ExpenseCategory).join(", ")}`,
+		}),
+		date: isoDay,
+		submittedAt: isoDay.optional(),
+	}),
+	employee: ScenarioEmployeeSchema.partial().optional(),
+	asOf: isoDay.optional(),
+	rates: ratesSchema.optional(),
+	ratesBase: currencyCode.optional(),
+	expect: z.strictObject({
+		status: z.enum(ExpenseStatus, {
+			error: `must be one of ${Object.values(ExpenseStatus).join(", ")}`,
+		}),
+		/** Alert codes, in any order; omit to not check alerts. */
+		alerts: z
+			.array(nonEmpty, { error: "must be a list of alert codes" })
+			.optional(),
+	}),
+});
+
+export const ScenarioSuiteSchema = z
+	.strictObject({
+		schemaVersion: z.literal(SCENARIO_SCHEMA_VERSION, {
+			error: `must be ${SCENARIO_SCHEMA_VERSION}`,
+		}),
+		policy: nonEmpty.optional(),
+		defaults: z
+			.strictObject({
+				employee: ScenarioEmployeeSchema.partial().optional(),
+				asOf: isoDay.optional(),
+				rates: ratesSchema.optional(),
+				ratesBase: currencyCode.optional(),
+			})
+			.optional(),
+		scenarios: z
+			.array(ScenarioSchema, { error: "must be a list" })
+			.min(1, { error: "must contain at least one scenario" }),
+	})
+	.superRefine((suite, ctx) => {
+		suite.scenarios.forEach((scenario, index) => {
+			const employee = { ...suite.defaults?.employee, ...scenario.employee };
+			for (const field of ["id", "costCenterId"] as const) {
+				if (employee[field] === undefined) {
+					ctx.addIssue({
+						code: "custom",
+						path: ["scenarios", index, "employee", field],
+						message: "is required here or in defaults.employee",
+					});
+				}
+			}
+			if ((scenario.asOf ?? suite.defaults?.asOf) === undefined) {
+				ctx.addIssue({
+					code: "custom",
+					path: ["scenarios", index, "asOf"],
+					message: "is required here or in defaults",
+				});
+			}
+		});
+	});
+
+export type ScenarioSuite = z.infer<typeof ScenarioSuiteSchema>;
+export type Scenario = z.infer<typeof ScenarioSchema>;
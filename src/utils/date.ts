@@ -16,3 +16,73 @@ export function daysBetween(earlier: Date, later: Date): number {
 	const msPerDay = 24 * 60 * 60 * 1000;
 	return Math.floor((l - e) / msPerDay);
 }
+
+/**
+ * Formats a date as its UTC calendar day (YYYY-MM-DD).
+ */
+export function toDateKey(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Lists the UTC days from `fromKey` to `toKey` (both YYYY-MM-DD, inclusive).
+ */
+export function eachDateKey(fromKey: string, toKey: string): string[] {
+	const keys: string[] = [];
+	const cursor = new Date(`${fromKey}T00:00:00.000Z`);
+	const end = new Date(`${toKey}T00:00:00.000Z`);
+	while (cursor.getTime() <= end.getTime()) {
+		keys.push(toDateKey(cursor));
+		cursor.setUTCDate(cursor.getUTCDate() + 1);
+	}
+	return keys;
+}
+
+/**
+ * Shifts a UTC day (YYYY-MM-DD) by `days` (negative goes back).
+ */
+export function addDays(dateKey: string, days: number): string {
+	const date = new Date(`${dateKey}T00:00:00.000Z`);
+	date.setUTCDate(date.getUTCDate() + days);
+	return toDateKey(date);
+}
+
+export type CalendarPeriod = "day" | "week" | "month" | "quarter" | "year";
+
+/**
+ * First and last UTC day (YYYY-MM-DD, inclusive) of the calendar period
+ * containing `dateKey`. Weeks are ISO weeks, Monday to Sunday.
+ */
+export function calendarPeriod(
+	dateKey: string,
+	period: CalendarPeriod,
+): [string, string] {
+	const date = new Date(`${dateKey}T00:00:00.000Z`);
+	const year = date.getUTCFullYear();
+	const month = date.getUTCMonth();
+	switch (period) {
+		case "day":
+			return [dateKey, dateKey];
+		case "week": {
+			// getUTCDay() is 0 for Sunday
+			const monday = addDays(dateKey, -((date.getUTCDay() + 6) % 7));
+			return [monday, addDays(monday, 6)];
+		}
+		case "month":
+			return monthSpan(year, month, 1);
+		case "quarter":
+			return monthSpan(year, month - (month % 3), 3);
+		case "year":
+			return monthSpan(year, 0, 12);
+	}
+}
+
+function monthSpan(
+	year: number,
+	firstMonth: number,
+	months: number,
+): [string, string] {
+	const start = toDateKey(new Date(Date.UTC(year, firstMonth, 1)));
+	const next = toDateKey(new Date(Date.UTC(year, firstMonth + months, 1)));
+	return [start, addDays(next, -1)];
+}
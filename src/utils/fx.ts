@@ -1,4 +1,7 @@
 import "dotenv/config";
+import type { Money, RoundingMode } from "../domain/money";
+import { HttpClient, type HttpClientOptions } from "./http";
+import { DEFAULT_ROUNDING_MODE, minorDigits, roundToInteger } from "./money";
 
 interface LatestRatesResponse {
 	base: string;
@@ -11,28 +14,55 @@ interface LatestRatesResponse {
 export interface ExchangeRates {
 	base: string;
 	rates: Record<string, number>;
+	/**
+	 * Day (YYYY-MM-DD) the rates are actually for, when a provider served
+	 * them for another requested day (see FallbackFxProvider).
+	 */
+	date?: string;
+	/** Provider that supplied the rates, when it is not the primary one. */
+	provider?: string;
+}
+
+let defaultClient: HttpClient | undefined;
+
+/**
+ * The HTTP client used for Open Exchange Rates unless one is passed in,
+ * configured from FX_HTTP_RETRIES, FX_HTTP_TIMEOUT_MS and FX_HTTP_CONCURRENCY.
+ */
+export function defaultFxHttpClient(): HttpClient {
+	defaultClient ??= new HttpClient(httpOptionsFromEnv(process.env));
+	return defaultClient;
+}
+
+function httpOptionsFromEnv(env: NodeJS.ProcessEnv): HttpClientOptions {
+	const read = (name: string): number | undefined => {
+		const value = env[name];
+		if (value === undefined || value === "") return undefined;
+		const parsed = Number(value);
+		if (!Number.isInteger(parsed) || parsed < 0) {
+			throw new Error(`Invalid ${name} '${value}' (expected a whole number)`);
+		}
+		return parsed;
+	};
+	const options: HttpClientOptions = {};
+	const retries = read("FX_HTTP_RETRIES");
+	const timeoutMs = read("FX_HTTP_TIMEOUT_MS");
+	const maxConcurrency = read("FX_HTTP_CONCURRENCY");
+	if (retries !== undefined) options.retries = retries;
+	if (timeoutMs !== undefined) options.timeoutMs = timeoutMs;
+	if (maxConcurrency !== undefined) options.maxConcurrency = maxConcurrency;
+	return options;
 }
 
 async function fetchRates(
 	url: string,
 	context: string,
+	client: HttpClient,
 ): Promise<ExchangeRates> {
-	let response: Response;
-	try {
-		response = await fetch(url);
-	} catch (error) {
-		throw new Error(
-			`Failed to fetch rates (${context}): ${error instanceof Error ? error.message : "Network error"}`,
-		);
-	}
-
-	if (!response.ok) {
-		throw new Error(
-			`Exchange rate API returned ${response.status} (${context}): ${response.statusText}`,
-		);
-	}
-
-	const data: LatestRatesResponse = await response.json();
+	const data = (await client.getJson(
+		url,
+		`Exchange rate API (${context})`,
+	)) as LatestRatesResponse;
 
 	if (data.error === true) {
 		throw new Error(
@@ -52,23 +82,30 @@ async function fetchRates(
 	};
 }
 
+function apiUrl(path: string): string {
+	return `${process.env.OPEN_EXCHANGE_RATES_BASE_URL || "https://openexchangerates.org"}/api/${path}?app_id=${process.env.OPEN_EXCHANGE_RATES_APP_ID}`;
+}
+
 /**
  * Fetches the latest exchange rates from Open Exchange Rates API.
+ * @throws {HttpRequestError} If the API cannot be reached after retries
  */
-export async function fetchLatestRates(): Promise<ExchangeRates> {
-	const url = `${process.env.OPEN_EXCHANGE_RATES_BASE_URL || "https://openexchangerates.org"}/api/latest.json?app_id=${process.env.OPEN_EXCHANGE_RATES_APP_ID}`;
-	return fetchRates(url, "latest");
+export async function fetchLatestRates(
+	client: HttpClient = defaultFxHttpClient(),
+): Promise<ExchangeRates> {
+	return fetchRates(apiUrl("latest.json"), "latest", client);
 }
 
 /**
  * Fetches historical exchange rates for a specific UTC date (YYYY-MM-DD).
  * @param dateKey ISO date string in the form YYYY-MM-DD
+ * @throws {HttpRequestError} If the API cannot be reached after retries
  */
 export async function fetchRatesForDate(
 	dateKey: string,
+	client: HttpClient = defaultFxHttpClient(),
 ): Promise<ExchangeRates> {
-	const url = `${process.env.OPEN_EXCHANGE_RATES_BASE_URL || "https://openexchangerates.org"}/api/historical/${dateKey}.json?app_id=${process.env.OPEN_EXCHANGE_RATES_APP_ID}`;
-	return fetchRates(url, dateKey);
+	return fetchRates(apiUrl(`historical/${dateKey}.json`), dateKey, client);
 }
 
 /**
@@ -87,19 +124,8 @@ export function convertCurrency(
 		return amount;
 	}
 
-	const base = rates.base;
-	const rateMap = rates.rates;
-
-	// Get rates (base currency has rate of 1)
-	const fromRate = fromCurrency === base ? 1 : rateMap[fromCurrency];
-	const toRate = toCurrency === base ? 1 : rateMap[toCurrency];
-
-	if (fromRate === undefined) {
-		throw new Error(`Currency '${fromCurrency}' not found in exchange rates`);
-	}
-	if (toRate === undefined) {
-		throw new Error(`Currency '${toCurrency}' not found in exchange rates`);
-	}
+	const fromRate = getRate(fromCurrency, rates);
+	const toRate = getRate(toCurrency, rates);
 
 	if (fromRate === toRate) {
 		return amount;
@@ -108,3 +134,39 @@ export function convertCurrency(
 	// Convert: fromCurrency -> base -> toCurrency
 	return (amount / fromRate) * toRate;
 }
+
+/**
+ * Converts money to another currency, rounding the result to the target
+ * currency's minor unit with `mode`.
+ * @throws {Error} If either currency is not found in rates
+ */
+export function convertMoney(
+	money: Money,
+	toCurrency: string,
+	rates: ExchangeRates,
+	mode: RoundingMode = DEFAULT_ROUNDING_MODE,
+): Money {
+	if (money.currency === toCurrency) {
+		return money;
+	}
+
+	const fromRate = getRate(money.currency, rates);
+	const toRate = getRate(toCurrency, rates);
+
+	// Work in minor units: scale by the difference in decimal places
+	const scale = 10 ** (minorDigits(toCurrency) - minorDigits(money.currency));
+	const minor = roundToInteger((money.minor / fromRate) * toRate * scale, mode);
+	return { minor: minor === 0 ? 0 : minor, currency: toCurrency };
+}
+
+/**
+ * Returns the rate of `currency` against the rates' base (the base itself is 1).
+ * @throws {Error} If the currency is not found in rates
+ */
+function getRate(currency: string, rates: ExchangeRates): number {
+	const rate = currency === rates.base ? 1 : rates.rates[currency];
+	if (rate === undefined) {
+		throw new Error(`Currency '${currency}' not found in exchange rates`);
+	}
+	return rate;
+}
@@ -0,0 +1,285 @@
+/**
+ * HTTP Client Module
+ *
+ * JSON GET requests with the resilience a long batch run needs:
+ * - A timeout per attempt (covering the body as well as the headers)
+ * - Bounded retries on network errors, timeouts, 429 and 5xx responses,
+ *   with exponential backoff and full jitter
+ * - `Retry-After` on 429/503 honored, up to `maxRetryAfterMs`
+ * - A cap on requests in flight at once, shared by every caller
+ *
+ * Failures are thrown as `HttpRequestError` subclasses. Messages use the
+ * caller's `label` rather than the URL, which may carry credentials.
+ */
+
+export interface HttpClientOptions {
+	/** Retries after the first attempt (default 3). */
+	retries?: number;
+	/** Per-attempt timeout in ms (default 10000). */
+	timeoutMs?: number;
+	/** Backoff before the first retry in ms, doubled each retry (default 250). */
+	baseDelayMs?: number;
+	/** Upper bound for a single backoff in ms (default 10000). */
+	maxDelayMs?: number;
+	/** Longest `Retry-After` wait accepted; longer ones fail now (default 60000). */
+	maxRetryAfterMs?: number;
+	/** Requests in flight at once (default 4). */
+	maxConcurrency?: number;
+	/** Injectable for tests. */
+	sleep?: (ms: number) => Promise<void>;
+	/** Injectable for tests; returns a number in [0, 1). */
+	random?: () => number;
+}
+
+/**
+ * Base class of every failure raised by `HttpClient`.
+ */
+export class HttpRequestError extends Error {
+	constructor(
+		message: string,
+		/** What was being fetched, as given by the caller. */
+		readonly label: string,
+		/** Attempts made, including the first. */
+		readonly attempts: number,
+	) {
+		super(message);
+		this.name = "HttpRequestError";
+	}
+}
+
+/**
+ * The server could not be reached or the connection failed.
+ */
+export class HttpNetworkError extends HttpRequestError {
+	constructor(label: string, attempts: number, reason: string) {
+		super(`${label} failed: ${reason}`, label, attempts);
+		this.name = "HttpNetworkError";
+	}
+}
+
+/**
+ * An attempt took longer than the configured timeout.
+ */
+export class HttpTimeoutError extends HttpRequestError {
+	constructor(
+		label: string,
+		attempts: number,
+		readonly timeoutMs: number,
+	) {
+		super(`${label} timed out after ${timeoutMs} ms`, label, attempts);
+		this.name = "HttpTimeoutError";
+	}
+}
+
+/**
+ * The server answered with a non-2xx status.
+ */
+export class HttpStatusError extends HttpRequestError {
+	constructor(
+		label: string,
+		attempts: number,
+		readonly status: number,
+		readonly statusText: string,
+	) {
+		super(`${label} returned ${status}: ${statusText}`, label, attempts);
+		this.name = "HttpStatusError";
+	}
+}
+
+/**
+ * The server answered 429 (rate limit or quota exhausted).
+ * `retryAfterMs` is the wait the server asked for, if it said.
+ */
+export class HttpRateLimitError extends HttpStatusError {
+	constructor(
+		label: string,
+		attempts: number,
+		statusText: string,
+		readonly retryAfterMs: number | undefined,
+	) {
+		super(label, attempts, 429, statusText);
+		this.name = "HttpRateLimitError";
+	}
+}
+
+/**
+ * The response body was not valid JSON.
+ */
+export class HttpResponseError extends HttpRequestError {
+	constructor(label: string, attempts: number, reason: string) {
+		super(`${label} sent an invalid response: ${reason}`, label, attempts);
+		this.name = "HttpResponseError";
+	}
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+export class HttpClient {
+	private readonly retries: number;
+	private readonly timeoutMs: number;
+	private readonly baseDelayMs: number;
+	private readonly maxDelayMs: number;
+	private readonly maxRetryAfterMs: number;
+	private readonly maxConcurrency: number;
+	private readonly sleep: (ms: number) => Promise<void>;
+	private readonly random: () => number;
+	private active = 0;
+	private readonly waiting: (() => void)[] = [];
+
+	constructor(options: HttpClientOptions = {}) {
+		this.retries = options.retries ?? 3;
+		this.timeoutMs = options.timeoutMs ?? 10_000;
+		this.baseDelayMs = options.baseDelayMs ?? 250;
+		this.maxDelayMs = options.maxDelayMs ?? 10_000;
+		this.maxRetryAfterMs = options.maxRetryAfterMs ?? 60_000;
+		this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 4);
+		this.sleep =
+			options.sleep ??
+			((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+		this.random = options.random ?? Math.random;
+	}
+
+	/**
+	 * GETs `url` and parses the body as JSON, retrying transient failures.
+	 * @param label Names the request in errors (e.g. "Exchange rate API (latest)")
+	 * @throws {HttpRequestError} Once retries are exhausted or on a permanent failure
+	 */
+	async getJson(url: string, label: string): Promise<unknown> {
+		for (let attempt = 1; ; attempt++) {
+			const outcome = await this.withSlot(() =>
+				this.attempt(url, label, attempt),
+			);
+			if (outcome.ok) return outcome.value;
+
+			const { error, retryAfterMs } = outcome;
+			// Network errors and timeouts are transient; an unreadable body
+			// from a successful response would come back the same
+			const retryable =
+				error instanceof HttpStatusError
+					? RETRYABLE_STATUSES.has(error.status)
+					: !(error instanceof HttpResponseError);
+			if (!retryable || attempt > this.retries) throw error;
+			if (retryAfterMs !== undefined && retryAfterMs > this.maxRetryAfterMs) {
+				throw error;
+			}
+			// The slot is released while waiting so other requests can proceed
+			await this.sleep(retryAfterMs ?? this.backoff(attempt));
+		}
+	}
+
+	private async attempt(
+		url: string,
+		label: string,
+		attempt: number,
+	): Promise<
+		| { ok: true; value: unknown }
+		| { ok: false; error: HttpRequestError; retryAfterMs?: number | undefined }
+	> {
+		const controller = new AbortController();
+		const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+		try {
+			const response = await fetch(url, { signal: controller.signal });
+			if (!response.ok) {
+				// Drain the body so the connection can be reused
+				await response.text().catch(() => "");
+				const retryAfterMs =
+					response.status === 429 || response.status === 503
+						? parseRetryAfter(response.headers.get("retry-after"))
+						: undefined;
+				const error =
+					response.status === 429
+						? new HttpRateLimitError(
+								label,
+								attempt,
+								response.statusText,
+								retryAfterMs,
+							)
+						: new HttpStatusError(
+								label,
+								attempt,
+								response.status,
+								response.statusText,
+							);
+				return { ok: false, error, retryAfterMs };
+			}
+
+			const text = await response.text();
+			try {
+				return { ok: true, value: JSON.parse(text) };
+			} catch (error) {
+				return {
+					ok: false,
+					error: new HttpResponseError(
+						label,
+						attempt,
+						error instanceof Error ? error.message : "Invalid JSON",
+					),
+				};
+			}
+		} catch (error) {
+			if (controller.signal.aborted) {
+				return {
+					ok: false,
+					error: new HttpTimeoutError(label, attempt, this.timeoutMs),
+				};
+			}
+			return {
+				ok: false,
+				error: new HttpNetworkError(
+					label,
+					attempt,
+					error instanceof Error ? networkReason(error) : "Network error",
+				),
+			};
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	/** Full jitter: a random wait up to the capped exponential delay. */
+	private backoff(attempt: number): number {
+		const cap = Math.min(
+			this.maxDelayMs,
+			this.baseDelayMs * 2 ** (attempt - 1),
+		);
+		return Math.floor(this.random() * cap);
+	}
+
+	private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+		if (this.active >= this.maxConcurrency) {
+			// A finishing request hands its slot over directly
+			await new Promise<void>((resolve) => this.waiting.push(resolve));
+		} else {
+			this.active += 1;
+		}
+		try {
+			return await task();
+		} finally {
+			const next = this.waiting.shift();
+			if (next) next();
+			else this.active -= 1;
+		}
+	}
+}
+
+/**
+ * Reads a `Retry-After` header (delta seconds or an HTTP date) as ms.
+ */
+export function parseRetryAfter(
+	header: string | null,
+	now: number = Date.now(),
+): number | undefined {
+	if (header === null || header.trim() === "") return undefined;
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Node's fetch wraps the socket error in `cause`; surface it. */
+function networkReason(error: Error): string {
+	const cause = error.cause;
+	return cause instanceof Error
+		? `${error.message} (${cause.message})`
+		: error.message;
+}
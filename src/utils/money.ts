@@ -0,0 +1,172 @@
+/**
+ * Money helpers: ISO 4217 minor units, exact decimal parsing and rounding.
+ */
+
+import { type Money, RoundingMode } from "../domain/money";
+
+export const DEFAULT_ROUNDING_MODE = RoundingMode.HALF_UP;
+
+/**
+ * ISO 4217 currencies whose minor unit is not 2 decimal places.
+ */
+const MINOR_UNIT_EXCEPTIONS: Record<string, number> = {
+	BIF: 0,
+	CLP: 0,
+	DJF: 0,
+	GNF: 0,
+	ISK: 0,
+	JPY: 0,
+	KMF: 0,
+	KRW: 0,
+	PYG: 0,
+	RWF: 0,
+	UGX: 0,
+	UYI: 0,
+	VND: 0,
+	VUV: 0,
+	XAF: 0,
+	XOF: 0,
+	XPF: 0,
+	BHD: 3,
+	IQD: 3,
+	JOD: 3,
+	KWD: 3,
+	LYD: 3,
+	OMR: 3,
+	TND: 3,
+	CLF: 4,
+	UYW: 4,
+};
+
+/**
+ * Number of decimal places of the currency's minor unit (2 unless listed).
+ */
+export function minorDigits(currency: string): number {
+	return MINOR_UNIT_EXCEPTIONS[currency] ?? 2;
+}
+
+/**
+ * Rounds `value` to an integer. Values within floating-point noise of an
+ * integer snap to it first, so 9999.999999999998 is 10000 under every mode.
+ */
+export function roundToInteger(value: number, mode: RoundingMode): number {
+	const nearest = Math.round(value);
+	if (Math.abs(value - nearest) <= 1e-9 * Math.max(1, Math.abs(value))) {
+		return nearest;
+	}
+
+	const floor = Math.floor(value);
+	const fraction = value - floor;
+	const awayFromZero = value < 0 ? floor : floor + 1;
+	const towardsZero = value < 0 ? floor + 1 : floor;
+
+	switch (mode) {
+		case RoundingMode.UP:
+			return awayFromZero;
+		case RoundingMode.DOWN:
+			return towardsZero;
+		case RoundingMode.CEILING:
+			return floor + 1;
+		case RoundingMode.FLOOR:
+			return floor;
+		default:
+			if (fraction !== 0.5) return fraction > 0.5 ? floor + 1 : floor;
+			return resolveTie(floor, floor + 1, awayFromZero, towardsZero, mode);
+	}
+}
+
+function resolveTie(
+	floor: number,
+	ceil: number,
+	awayFromZero: number,
+	towardsZero: number,
+	mode: RoundingMode,
+): number {
+	switch (mode) {
+		case RoundingMode.HALF_DOWN:
+			return towardsZero;
+		case RoundingMode.HALF_EVEN:
+			return floor % 2 === 0 ? floor : ceil;
+		default:
+			return awayFromZero;
+	}
+}
+
+/**
+ * Builds Money from an amount in major units (e.g. 12.345 USD), rounding
+ * to the currency's minor unit. The decimal digits are read exactly, so
+ * 1.005 USD is a tie and not 1.00499999... USD.
+ * @throws {Error} If the amount is not finite or exceeds safe integer range
+ */
+export function moneyFromMajor(
+	amount: number | string,
+	currency: string,
+	mode: RoundingMode = DEFAULT_ROUNDING_MODE,
+): Money {
+	const digits = minorDigits(currency);
+	const numeric = Number(amount);
+	if (!Number.isFinite(numeric)) {
+		throw new Error(`Invalid amount '${amount}' for ${currency}`);
+	}
+
+	let text = typeof amount === "string" ? amount.trim() : String(amount);
+	if (/e/i.test(text)) text = numeric.toFixed(20);
+
+	const negative = text.startsWith("-");
+	const [intPart = "0", fracPart = ""] = text.replace(/^[-+]/, "").split(".");
+	const kept = fracPart.slice(0, digits).padEnd(digits, "0");
+	const rest = fracPart.slice(digits);
+
+	const magnitude = Number(`${intPart}${kept}`);
+	let fraction = 0;
+	if (/[1-9]/.test(rest)) {
+		// Only whether the rest is below, at or above half a unit matters
+		const first = Number(rest[0]);
+		const tail = /[1-9]/.test(rest.slice(1));
+		fraction =
+			first > 5 || (first === 5 && tail) ? 0.75 : first === 5 ? 0.5 : 0.25;
+	}
+
+	const signed = negative ? -(magnitude + fraction) : magnitude + fraction;
+	const minor = fraction === 0 ? signed : roundToInteger(signed, mode);
+	if (!Number.isSafeInteger(minor)) {
+		throw new Error(`Amount '${amount}' ${currency} is too large`);
+	}
+	return { minor: minor === 0 ? 0 : minor, currency };
+}
+
+/**
+ * Returns the amount in major units (e.g. 1234 minor USD -> 12.34).
+ */
+export function toMajor(money: Money): number {
+	return money.minor / 10 ** minorDigits(money.currency);
+}
+
+/**
+ * Compares two amounts of the same currency: negative, zero or positive.
+ * @throws {Error} If currencies differ
+ */
+export function compareMoney(a: Money, b: Money): number {
+	assertSameCurrency(a, b);
+	return a.minor - b.minor;
+}
+
+export function addMoney(a: Money, b: Money): Money {
+	assertSameCurrency(a, b);
+	return { minor: a.minor + b.minor, currency: a.currency };
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+	assertSameCurrency(a, b);
+	return { minor: a.minor - b.minor, currency: a.currency };
+}
+
+export function zeroMoney(currency: string): Money {
+	return { minor: 0, currency };
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+	if (a.currency !== b.currency) {
+		throw new Error(`Currency mismatch: ${a.currency} vs ${b.currency}`);
+	}
+}
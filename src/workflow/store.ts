@@ -0,0 +1,131 @@
+/**
+ * Workflow Store Module
+ *
+ * Keeps approval workflows by expense id. `FileWorkflowStore` writes one
+ * JSON file per expense (`<dir>/<expenseId>.json`) holding the workflow
+ * and its full history, so reviews carry over between runs.
+ */
+
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type { ApprovalWorkflow } from "../domain/workflow";
+import { ApprovalStepSchema, formatIssues } from "../policy/schema";
+
+export interface WorkflowStore {
+	get(expenseId: string): ApprovalWorkflow | undefined;
+	/** Adds or replaces the workflow of its expense. */
+	save(workflow: ApprovalWorkflow): void;
+	/** Every workflow, by expense id. */
+	list(): ApprovalWorkflow[];
+}
+
+export class InMemoryWorkflowStore implements WorkflowStore {
+	private readonly workflows = new Map<string, ApprovalWorkflow>();
+
+	get(expenseId: string): ApprovalWorkflow | undefined {
+		return this.workflows.get(expenseId);
+	}
+
+	save(workflow: ApprovalWorkflow): void {
+		this.workflows.set(workflow.expenseId, workflow);
+	}
+
+	list(): ApprovalWorkflow[] {
+		return [...this.workflows.values()].sort((a, b) =>
+			a.expenseId.localeCompare(b.expenseId),
+		);
+	}
+}
+
+export class FileWorkflowStore implements WorkflowStore {
+	constructor(readonly dir: string) {}
+
+	/**
+	 * @throws {Error} If the file does not hold a valid workflow
+	 */
+	get(expenseId: string): ApprovalWorkflow | undefined {
+		const file = this.fileFor(expenseId);
+		return fs.existsSync(file) ? readWorkflow(file) : undefined;
+	}
+
+	save(workflow: ApprovalWorkflow): void {
+		const file = this.fileFor(workflow.expenseId);
+		fs.mkdirSync(this.dir, { recursive: true });
+		// Write then rename so a crash never leaves a half-written history
+		const tmp = `${file}.${process.pid}.tmp`;
+		fs.writeFileSync(tmp, JSON.stringify(workflow, null, 2), "utf-8");
+		fs.renameSync(tmp, file);
+	}
+
+	list(): ApprovalWorkflow[] {
+		if (!fs.existsSync(this.dir)) return [];
+		return fs
+			.readdirSync(this.dir)
+			.filter((name) => name.endsWith(".json"))
+			.map((name) => readWorkflow(path.join(this.dir, name)))
+			.sort((a, b) => a.expenseId.localeCompare(b.expenseId));
+	}
+
+	private fileFor(expenseId: string): string {
+		return path.join(this.dir, `${encodeURIComponent(expenseId)}.json`);
+	}
+}
+
+// --- Internal helpers ---
+
+const isoDateTime = z.iso
+	.datetime({ error: "must be an ISO 8601 timestamp" })
+	.transform((time) => new Date(time));
+
+const WorkflowEventSchema = z.strictObject({
+	at: isoDateTime,
+	type: z.enum([
+		"STARTED",
+		"APPROVED",
+		"REJECTED",
+		"INFO_REQUESTED",
+		"INFO_PROVIDED",
+		"ESCALATED",
+	]),
+	stepId: z.string(),
+	actorId: z.string().optional(),
+	assignee: z.string().optional(),
+	comment: z.string().optional(),
+});
+
+const ApprovalWorkflowSchema = z.strictObject({
+	expenseId: z.string(),
+	employeeId: z.string(),
+	costCenterId: z.string(),
+	policyVersionId: z.string().optional(),
+	amount: z
+		.strictObject({ minor: z.number().int(), currency: z.string() })
+		.optional(),
+	steps: z.array(ApprovalStepSchema),
+	currentStep: z.number().int().nonnegative(),
+	state: z.enum(["IN_REVIEW", "INFO_REQUESTED", "APPROVED", "REJECTED"]),
+	assignee: z.string().optional(),
+	dueAt: isoDateTime.optional(),
+	history: z.array(WorkflowEventSchema),
+}) satisfies z.ZodType<ApprovalWorkflow, unknown>;
+
+function readWorkflow(file: string): ApprovalWorkflow {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+	} catch (error) {
+		throw new Error(
+			`Failed to parse workflow ${file}: ${error instanceof Error ? error.message : "Unknown error"}`,
+		);
+	}
+	const result = ApprovalWorkflowSchema.safeParse(raw);
+	if (!result.success) {
+		throw new Error(
+			`Invalid workflow in ${file}:\n${formatIssues(result.error)
+				.map((issue) => `  - ${issue}`)
+				.join("\n")}`,
+		);
+	}
+	return result.data;
+}
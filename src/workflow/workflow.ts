@@ -0,0 +1,303 @@
+/**
+ * Approval Workflow Module
+ *
+ * Takes PENDING expenses from "requires review" to a decision. Each one
+ * gets a chain of steps from the policy (`Policy.approvals`): the steps
+ * of the nearest cost center chain, else the policy-wide ones, skipping
+ * those whose `above` threshold the amount does not exceed. The assignee
+ * of each step approves, rejects or asks the employee for information;
+ * steps left unattended past their SLA are reassigned to `escalateTo`.
+ *
+ * Workflows are plain values: every function returns a new workflow with
+ * the event appended to its history, and stores (see store.ts) persist them.
+ */
+
+import type { Employee } from "../domain/employee";
+import { ExpenseStatus } from "../domain/expense";
+import type { ApprovalStep, Policy, PolicySource } from "../domain/policy";
+import type { ValidationResult } from "../domain/result";
+import type {
+	ApprovalWorkflow,
+	WorkflowAction,
+	WorkflowEvent,
+} from "../domain/workflow";
+import { costCenterLineage } from "../policy/cost-centers";
+import { isPolicyHistory } from "../policy/history";
+import { compareMoney, moneyFromMajor } from "../utils/money";
+
+/**
+ * The chain used when a policy sets no approvals.
+ */
+export const DEFAULT_APPROVAL_STEPS: ApprovalStep[] = [
+	{ id: "manager", approver: "manager" },
+];
+
+/**
+ * Thrown when an action is not allowed in the workflow's current state
+ * or for the actor attempting it.
+ */
+export class WorkflowError extends Error {
+	constructor(
+		readonly expenseId: string,
+		message: string,
+	) {
+		super(`Workflow for ${expenseId}: ${message}`);
+		this.name = "WorkflowError";
+	}
+}
+
+/**
+ * The steps a PENDING expense of `costCenterId` goes through, in order.
+ * @param amount Amount in the policy base currency; without it every step applies
+ */
+export function planApprovalChain(
+	policy: Policy,
+	costCenterId: string,
+	amount: ValidationResult["checkedAmount"],
+): ApprovalStep[] {
+	const approvals = policy.approvals;
+	if (!approvals) return DEFAULT_APPROVAL_STEPS;
+
+	let steps = approvals.steps;
+	for (const id of costCenterLineage(policy, costCenterId)) {
+		const chain = approvals.costCenters?.find((c) => c.costCenterId === id);
+		if (chain) {
+			steps = chain.steps;
+			break;
+		}
+	}
+
+	return steps.filter(
+		(step) =>
+			step.above === undefined ||
+			amount === undefined ||
+			compareMoney(
+				amount,
+				moneyFromMajor(step.above, amount.currency, policy.rounding),
+			) > 0,
+	);
+}
+
+/**
+ * Opens the review of a PENDING expense, assigned to the first step of
+ * its chain. The chain comes from the policy version the expense was
+ * validated under; expenses no version covers get the default chain.
+ * @throws {Error} If the result is not PENDING
+ */
+export function startWorkflow(
+	result: ValidationResult,
+	employee: Employee,
+	policySource: PolicySource,
+	now: Date,
+): ApprovalWorkflow {
+	if (result.status !== ExpenseStatus.PENDING) {
+		throw new Error(
+			`Only PENDING expenses go to review; ${result.expenseId} is ${result.status}`,
+		);
+	}
+
+	const policy = isPolicyHistory(policySource)
+		? policySource.find((version) => version.id === result.policyVersionId)
+		: policySource;
+	const steps = policy
+		? planApprovalChain(policy, employee.costCenterId, result.checkedAmount)
+		: DEFAULT_APPROVAL_STEPS;
+	const first = steps[0];
+	if (!first) {
+		throw new Error(`No approval step applies to ${result.expenseId}`);
+	}
+
+	return {
+		expenseId: result.expenseId,
+		employeeId: employee.id,
+		costCenterId: employee.costCenterId,
+		...(result.policyVersionId !== undefined && {
+			policyVersionId: result.policyVersionId,
+		}),
+		...(result.checkedAmount && { amount: result.checkedAmount }),
+		steps,
+		currentStep: 0,
+		state: "IN_REVIEW",
+		assignee: first.approver,
+		...dueAtFor(first, now),
+		history: [
+			{ at: now, type: "STARTED", stepId: first.id, assignee: first.approver },
+		],
+	};
+}
+
+/**
+ * Applies a reviewer's or the employee's action.
+ * @throws {WorkflowError} If the workflow is settled, the action does not
+ *   fit its state, or the actor may not take it
+ */
+export function applyWorkflowAction(
+	workflow: ApprovalWorkflow,
+	action: WorkflowAction,
+	now: Date,
+): ApprovalWorkflow {
+	const { actor, comment } = action;
+	const step = currentStep(workflow);
+	const fail = (message: string) =>
+		new WorkflowError(workflow.expenseId, message);
+
+	if (workflow.state === "APPROVED" || workflow.state === "REJECTED") {
+		throw fail(`already ${workflow.state}`);
+	}
+	if (
+		(action.type === "reject" || action.type === "request-info") &&
+		!comment
+	) {
+		throw fail(`${action.type} requires a comment`);
+	}
+
+	const event: WorkflowEvent = {
+		at: now,
+		type: "APPROVED",
+		stepId: step.id,
+		actorId: actor.id,
+		...(comment && { comment }),
+	};
+
+	if (action.type === "provide-info") {
+		if (workflow.state !== "INFO_REQUESTED") {
+			throw fail("no information was requested");
+		}
+		if (actor.id !== workflow.employeeId) {
+			throw fail(`only ${workflow.employeeId} may provide information`);
+		}
+		return {
+			...withoutState(workflow),
+			state: "IN_REVIEW",
+			...(workflow.assignee !== undefined && { assignee: workflow.assignee }),
+			...dueAtFor(step, now),
+			history: [...workflow.history, { ...event, type: "INFO_PROVIDED" }],
+		};
+	}
+
+	if (workflow.state !== "IN_REVIEW") {
+		throw fail(`waiting for ${workflow.employeeId} to provide information`);
+	}
+	if (actor.role !== workflow.assignee) {
+		throw fail(
+			`step '${step.id}' is assigned to ${workflow.assignee}, not ${actor.role}`,
+		);
+	}
+	if (actor.id === workflow.employeeId) {
+		throw fail(`${actor.id} may not review their own expense`);
+	}
+
+	switch (action.type) {
+		case "reject":
+			return {
+				...withoutState(workflow),
+				state: "REJECTED",
+				history: [...workflow.history, { ...event, type: "REJECTED" }],
+			};
+		case "request-info":
+			return {
+				...withoutState(workflow),
+				state: "INFO_REQUESTED",
+				assignee: actor.role,
+				history: [...workflow.history, { ...event, type: "INFO_REQUESTED" }],
+			};
+		case "approve": {
+			const next = workflow.steps[workflow.currentStep + 1];
+			if (!next) {
+				return {
+					...withoutState(workflow),
+					state: "APPROVED",
+					history: [...workflow.history, event],
+				};
+			}
+			return {
+				...withoutState(workflow),
+				currentStep: workflow.currentStep + 1,
+				state: "IN_REVIEW",
+				assignee: next.approver,
+				...dueAtFor(next, now),
+				history: [...workflow.history, { ...event, assignee: next.approver }],
+			};
+		}
+	}
+}
+
+/**
+ * Reassigns the current step to its `escalateTo` role once its SLA has
+ * run out. Steps escalate once; the escalated assignee gets a fresh SLA.
+ * Returns the workflow unchanged when nothing is due.
+ */
+export function escalateOverdue(
+	workflow: ApprovalWorkflow,
+	now: Date,
+): ApprovalWorkflow {
+	const step = currentStep(workflow);
+	if (
+		!isOverdue(workflow, now) ||
+		step.escalateTo === undefined ||
+		workflow.assignee !== step.approver
+	) {
+		return workflow;
+	}
+	return {
+		...withoutState(workflow),
+		state: workflow.state,
+		assignee: step.escalateTo,
+		...dueAtFor(step, now),
+		history: [
+			...workflow.history,
+			{
+				at: now,
+				type: "ESCALATED",
+				stepId: step.id,
+				assignee: step.escalateTo,
+			},
+		],
+	};
+}
+
+/**
+ * Returns true if the current step is past its SLA.
+ */
+export function isOverdue(workflow: ApprovalWorkflow, now: Date): boolean {
+	return (
+		workflow.state === "IN_REVIEW" &&
+		workflow.dueAt !== undefined &&
+		now.getTime() >= workflow.dueAt.getTime()
+	);
+}
+
+// --- Internal helpers ---
+
+function currentStep(workflow: ApprovalWorkflow): ApprovalStep {
+	const step = workflow.steps[workflow.currentStep];
+	if (!step) {
+		throw new WorkflowError(
+			workflow.expenseId,
+			`has no step ${workflow.currentStep}`,
+		);
+	}
+	return step;
+}
+
+/**
+ * The workflow without its state, assignee and due date, which every
+ * transition sets again.
+ */
+function withoutState(
+	workflow: ApprovalWorkflow,
+): Omit<ApprovalWorkflow, "state" | "assignee" | "dueAt"> {
+	const {
+		state: _state,
+		assignee: _assignee,
+		dueAt: _dueAt,
+		...rest
+	} = workflow;
+	return rest;
+}
+
+function dueAtFor(step: ApprovalStep, from: Date): { dueAt?: Date } {
+	return step.slaHours === undefined
+		? {}
+		: { dueAt: new Date(from.getTime() + step.slaHours * 3_600_000) };
+}
@@ -0,0 +1,211 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+	type AnalysisProgress,
+	analyzeCsv,
+	renderAnalysisMarkdown,
+} from "../src/batch/analysis";
+import { ExpenseCategory } from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import type { FxProvider } from "../src/fx/provider";
+import { getTranslator } from "../src/i18n/translator";
+import type { ExchangeRates } from "../src/utils/fx";
+import { InMemoryWorkflowStore } from "../src/workflow/store";
+
+const asOf = new Date("2025-02-20T00:00:00.000Z");
+
+const policy: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 60, rejectedAfterDays: 90 },
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+	},
+	costCenterRules: [],
+};
+
+/** Answers after a tick, recording the calls and how many overlapped. */
+class SlowRates implements FxProvider {
+	readonly name = "slow";
+	readonly calls: string[] = [];
+	active = 0;
+	maxActive = 0;
+
+	async getLatestRates(): Promise<ExchangeRates> {
+		throw new Error("not used");
+	}
+
+	async getRatesForDate(dateKey: string): Promise<ExchangeRates> {
+		this.calls.push(dateKey);
+		this.active += 1;
+		this.maxActive = Math.max(this.maxActive, this.active);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		this.active -= 1;
+		return { base: "USD", rates: { CLP: 1000 } };
+	}
+}
+
+describe("analyzeCsv", () => {
+	let dir: string;
+	let csvPath: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "analysis-"));
+		csvPath = path.join(dir, "gastos.csv");
+		const lines = [
+			"gasto_id,empleado_id,empleado_nombre,empleado_apellido,empleado_cost_center,categoria,monto,moneda,fecha",
+		];
+		for (let i = 1; i <= 30; i++) {
+			const day = String(1 + (i % 10)).padStart(2, "0");
+			lines.push(
+				`g_${i},e_${i % 3},Ada,Lovelace,core_sales,food,${i * 1000},CLP,2025-02-${day}`,
+			);
+			if (i === 15) {
+				lines.push("g_bad,e_1,Ada,Lovelace,core_sales,food,abc,CLP,2025-02-01");
+			}
+		}
+		fs.writeFileSync(csvPath, lines.join("\n"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test("streams rows in file order while fetching each date's rates once, concurrently", async () => {
+		const rates = new SlowRates();
+		const seen: string[] = [];
+		const invalid: number[] = [];
+		const progress: AnalysisProgress[] = [];
+
+		const report = await analyzeCsv({
+			csvPath,
+			policy,
+			rates,
+			asOf,
+			readAhead: 20,
+			fxConcurrency: 3,
+			progressEvery: 10,
+			onResult: async (expense) => {
+				// A slow consumer holds back the next row
+				await new Promise((resolve) => setImmediate(resolve));
+				seen.push(expense.id);
+			},
+			onInvalidRow: (_row, index) => {
+				invalid.push(index);
+			},
+			onProgress: (p) => progress.push(p),
+		});
+
+		expect(seen).toEqual(Array.from({ length: 30 }, (_, i) => `g_${i + 1}`));
+		expect(invalid).toEqual([0]);
+		expect([...rates.calls].sort()).toEqual(
+			Array.from(
+				{ length: 10 },
+				(_, i) => `2025-02-${String(i + 1).padStart(2, "0")}`,
+			),
+		);
+		expect(rates.maxActive).toBeGreaterThan(1);
+		expect(rates.maxActive).toBeLessThanOrEqual(3);
+
+		expect(progress.map((p) => p.rows)).toEqual([10, 20, 30, 31]);
+		expect(report.throughput).toMatchObject({
+			rows: 31,
+			invalidRows: 1,
+			fxLookups: 10,
+		});
+		expect(report.counts).toEqual({
+			APPROVED: 30,
+			PARTIALLY_APPROVED: 0,
+			PENDING: 0,
+			REJECTED: 0,
+		});
+		expect(report.alerts).toHaveLength(30);
+		expect(report.alertCodes).toEqual({ CURRENCY_MISMATCH: 30 });
+	});
+
+	test("starts reviews of PENDING expenses as of the run's day", async () => {
+		const workflows = new InMemoryWorkflowStore();
+		const report = await analyzeCsv({
+			csvPath,
+			policy: {
+				...policy,
+				categoryLimits: {
+					[ExpenseCategory.FOOD]: { approvedUpTo: 0.01, pendingUpTo: 150 },
+				},
+			},
+			rates: new SlowRates(),
+			asOf,
+			workflows,
+		});
+
+		expect(report.workflowsStarted).toBe(30);
+		expect(workflows.get("g_1")?.history[0]?.at).toEqual(asOf);
+	});
+
+	test("reports rows with an amount the currency cannot hold as invalid", async () => {
+		fs.writeFileSync(
+			csvPath,
+			[
+				"gasto_id,empleado_id,empleado_nombre,empleado_apellido,empleado_cost_center,categoria,monto,moneda,fecha",
+				"g_1,e_1,Ada,Lovelace,core_sales,food,1e20,USD,2025-02-10",
+				"g_2,e_1,Ada,Lovelace,core_sales,food,50,USD,2025-02-10",
+			].join("\n"),
+		);
+		const invalid: string[] = [];
+
+		const report = await analyzeCsv({
+			csvPath,
+			policy,
+			rates: new SlowRates(),
+			asOf,
+			onInvalidRow: (row) => {
+				invalid.push(row.error);
+			},
+		});
+
+		expect(report.counts.APPROVED).toBe(1);
+		expect(report.invalidRowCount).toBe(1);
+		expect(invalid).toEqual([
+			"Amount '100000000000000000000' USD is too large",
+		]);
+	});
+
+	test("keeps counts and a sample of anomalies, invalid rows and alerts", async () => {
+		const lines = [
+			"gasto_id,empleado_id,empleado_nombre,empleado_apellido,empleado_cost_center,categoria,monto,moneda,fecha",
+		];
+		for (let i = 1; i <= 4; i++) {
+			lines.push(
+				`g_${i},e_1,Ada,Lovelace,core_sales,food,-${i},USD,2025-02-10`,
+				`g_${i}_again,e_1,Ada,Lovelace,core_sales,food,-${i},USD,2025-02-10`,
+				`g_bad_${i},e_1,Ada,Lovelace,core_sales,food,abc,USD,2025-02-10`,
+			);
+		}
+		fs.writeFileSync(csvPath, lines.join("\n"));
+
+		const report = await analyzeCsv({
+			csvPath,
+			policy,
+			rates: new SlowRates(),
+			asOf,
+			sampleSize: 3,
+		});
+
+		expect(report.anomalyCounts).toEqual({ NEGATIVE_AMOUNT: 8, DUPLICATE: 4 });
+		expect(report.anomalies.map((a) => a.gastoId)).toEqual([
+			"g_1",
+			"g_1_again",
+			"g_1_again",
+		]);
+		expect(report.invalidRowCount).toBe(4);
+		expect(report.invalidRows).toHaveLength(3);
+		expect(report.expensesWithAlerts).toBe(8);
+		expect(report.alerts).toHaveLength(3);
+
+		const markdown = renderAnalysisMarkdown(report, getTranslator("en"));
+		expect(markdown).toContain("- Negative amounts: 8");
+		expect(markdown).toContain("- ... 9 more");
+		expect(markdown).toContain("- ... 1 more skipped");
+		expect(markdown).toContain("- ... 5 more expenses with alerts");
+	});
+});
@@ -0,0 +1,282 @@
+import fs from "fs";
+import type http from "http";
+import type { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { createApiServer } from "../src/api/server";
+import { AuditLog } from "../src/audit/audit-log";
+import { FixedRatesProvider } from "../src/fx/fixed-rates-provider";
+
+const policyDocument = {
+	schemaVersion: 1,
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: { FOOD: { approvedUpTo: 100, pendingUpTo: 150 } },
+	costCenterRules: [
+		{ costCenterId: "core_engineering", forbiddenCategory: "FOOD" },
+	],
+};
+
+const employee = { id: "e_1", costCenterId: "core_sales" };
+
+function expense(id: string, amount: number, currency = "USD") {
+	return { id, amount, currency, category: "FOOD", date: "2025-02-10" };
+}
+
+describe("HTTP API", () => {
+	let server: http.Server;
+	let baseUrl: string;
+	let policyDir: string;
+	let audit: AuditLog;
+
+	beforeEach(async () => {
+		policyDir = fs.mkdtempSync(path.join(os.tmpdir(), "api-policies-"));
+		audit = new AuditLog(
+			path.join(
+				fs.mkdtempSync(path.join(os.tmpdir(), "api-audit-")),
+				"a.jsonl",
+			),
+		);
+		fs.writeFileSync(
+			path.join(policyDir, "default.json"),
+			JSON.stringify(policyDocument),
+		);
+		server = createApiServer({
+			rates: new FixedRatesProvider({ base: "USD", rates: { CLP: 950 } }),
+			policyDir,
+			now: () => new Date("2025-02-20T00:00:00.000Z"),
+			audit,
+		});
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+	});
+
+	afterEach(async () => {
+		await new Promise((resolve) => server.close(resolve));
+		fs.rmSync(policyDir, { recursive: true, force: true });
+		fs.rmSync(path.dirname(audit.file), { recursive: true, force: true });
+	});
+
+	const send = async (
+		method: string,
+		route: string,
+		body?: unknown,
+		contentType = "application/json",
+	) => {
+		const response = await fetch(`${baseUrl}${route}`, {
+			method,
+			...(body !== undefined && {
+				headers: { "content-type": contentType },
+				body: typeof body === "string" ? body : JSON.stringify(body),
+			}),
+		});
+		return { status: response.status, body: await response.json() };
+	};
+
+	test("POST /validate returns the validation result", async () => {
+		const { status, body } = await send("POST", "/validate", {
+			expense: expense("g_1", 120),
+			employee,
+			explain: true,
+		});
+
+		expect(status).toBe(200);
+		expect(body).toMatchObject({
+			expenseId: "g_1",
+			status: "PENDING",
+			alerts: [expect.objectContaining({ code: "CATEGORY_LIMIT" })],
+			checkedAmount: { minor: 12000, currency: "USD" },
+			trace: expect.objectContaining({ asOf: "2025-02-20" }),
+		});
+	});
+
+	test("answers invalid requests with structured errors", async () => {
+		expect(
+			await send("POST", "/validate", {
+				expense: { ...expense("g_1", 120), category: "PETS" },
+			}),
+		).toEqual({
+			status: 400,
+			body: {
+				error: {
+					code: "INVALID_REQUEST",
+					message: "Request does not match the schema",
+					issues: [
+						"expense.category must be one of FOOD, TRANSPORT, SOFTWARE, LODGING, OTHER",
+						"employee must be an object",
+					],
+				},
+			},
+		});
+		expect(
+			(await send("POST", "/validate", "{", "application/json")).body,
+		).toMatchObject({ error: { code: "INVALID_REQUEST" } });
+		expect((await send("POST", "/validate", "x", "text/plain")).status).toBe(
+			415,
+		);
+		expect((await send("GET", "/validate")).status).toBe(405);
+		expect(
+			(
+				await send("POST", "/validate?policy=missing", {
+					expense: expense("g_1", 120),
+					employee,
+				})
+			).body,
+		).toEqual({
+			error: { code: "NOT_FOUND", message: "Policy 'missing' not found" },
+		});
+		expect((await send("GET", "/nowhere")).status).toBe(404);
+	});
+
+	test("POST /batch validates a JSON list or a CSV upload in order", async () => {
+		const { status, body } = await send("POST", "/batch", {
+			expenses: [
+				{ expense: expense("g_1", 50), employee },
+				{ expense: expense("g_2", 114_000, "CLP"), employee },
+				{
+					expense: expense("g_3", 20),
+					employee: { ...employee, costCenterId: "core_engineering" },
+				},
+			],
+		});
+		expect(status).toBe(200);
+		expect(body.summary).toEqual({
+			total: 3,
+			counts: { APPROVED: 1, PARTIALLY_APPROVED: 0, PENDING: 1, REJECTED: 1 },
+			invalidRows: 0,
+		});
+		expect(body.results.map((r: { status: string }) => r.status)).toEqual([
+			"APPROVED",
+			"PENDING",
+			"REJECTED",
+		]);
+
+		const csv = [
+			"gasto_id,empleado_id,empleado_nombre,empleado_apellido,empleado_cost_center,categoria,monto,moneda,fecha",
+			"g_1,e_1,Ada,Lovelace,core_sales,food,50,USD,2025-02-10",
+			"g_2,e_1,Ada,Lovelace,core_sales,food,abc,USD,2025-02-10",
+			"g_3,e_1,Ada,Lovelace,core_sales,food,1e20,USD,2025-02-10",
+		].join("\n");
+		const upload = await send(
+			"POST",
+			"/batch?asOf=2025-02-20",
+			csv,
+			"text/csv",
+		);
+		expect(upload.status).toBe(200);
+		expect(upload.body.summary).toMatchObject({ total: 1, invalidRows: 2 });
+		expect(upload.body.invalidRows[1]).toMatchObject({
+			raw: { gasto_id: "g_3" },
+			error: "Amount '100000000000000000000' USD is too large",
+		});
+		expect(upload.body.results[0]).toMatchObject({
+			expenseId: "g_1",
+			status: "APPROVED",
+		});
+	});
+
+	test("answers INVALID_POLICY for a stored policy that does not load", async () => {
+		fs.writeFileSync(path.join(policyDir, "broken.json"), "{");
+		fs.writeFileSync(
+			path.join(policyDir, "stale.json"),
+			JSON.stringify({ ...policyDocument, ageLimit: undefined }),
+		);
+		const request = { expense: expense("g_1", 50), employee };
+
+		expect(await send("POST", "/validate?policy=broken", request)).toEqual({
+			status: 422,
+			body: {
+				error: {
+					code: "INVALID_POLICY",
+					message: "Policy broken could not be parsed",
+				},
+			},
+		});
+		const stale = await send("POST", "/batch?policy=stale", {
+			expenses: [request],
+		});
+		expect(stale.status).toBe(422);
+		expect(stale.body.error).toMatchObject({
+			code: "INVALID_POLICY",
+			message: "Invalid policy stale",
+			issues: [expect.stringMatching(/^ageLimit /)],
+		});
+	});
+
+	test("logs every decision to the audit log", async () => {
+		const single = await send("POST", "/validate", {
+			expense: expense("g_1", 120),
+			employee,
+		});
+		expect(single.body.trace).toBeUndefined();
+		await send("POST", "/batch", {
+			expenses: [
+				{ expense: expense("g_2", 50), employee },
+				{ expense: expense("g_3", 200), employee },
+			],
+		});
+
+		expect(audit.verify()).toMatchObject({ valid: true, entries: 3 });
+		const records = audit.entries().map((entry) => entry.record);
+		expect(records).toEqual([
+			expect.objectContaining({
+				type: "DECISION",
+				expenseId: "g_1",
+				asOf: "2025-02-20",
+				policy: { name: "default", hash: expect.any(String) },
+				result: expect.objectContaining({
+					status: "PENDING",
+					trace: expect.objectContaining({ asOf: "2025-02-20" }),
+				}),
+			}),
+			expect.objectContaining({ expenseId: "g_2" }),
+			expect.objectContaining({ expenseId: "g_3" }),
+		]);
+	});
+
+	test("GET and PUT /policies read and write policy documents", async () => {
+		expect(await send("GET", "/policies")).toEqual({
+			status: 200,
+			body: { policies: ["default"] },
+		});
+		expect((await send("GET", "/policies/default")).body).toEqual(
+			policyDocument,
+		);
+
+		const strict = {
+			...policyDocument,
+			categoryLimits: { FOOD: { approvedUpTo: 50, pendingUpTo: 50 } },
+		};
+		expect(await send("PUT", "/policies/strict", strict)).toEqual({
+			status: 201,
+			body: { name: "strict", warnings: [] },
+		});
+		expect((await send("GET", "/policies")).body.policies).toEqual([
+			"default",
+			"strict",
+		]);
+		const { body } = await send("POST", "/validate?policy=strict", {
+			expense: expense("g_1", 60),
+			employee,
+		});
+		expect(body.status).toBe("REJECTED");
+
+		const invalid = await send("PUT", "/policies/strict", {
+			...policyDocument,
+			baseCurrency: "ABC",
+		});
+		expect(invalid).toEqual({
+			status: 422,
+			body: {
+				error: {
+					code: "INVALID_POLICY",
+					message: "Invalid policy strict",
+					issues: ["baseCurrency 'ABC' is not a supported ISO 4217 currency"],
+				},
+			},
+		});
+		expect((await send("PUT", "/policies/..%2Fescape", strict)).status).toBe(
+			400,
+		);
+	});
+});
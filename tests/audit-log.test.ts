@@ -0,0 +1,186 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+	AuditLog,
+	decisionRecord,
+	GENESIS_HASH,
+	policyReference,
+	statusChangeRecord,
+	verifyAuditLog,
+} from "../src/audit/audit-log";
+import type { Employee } from "../src/domain/employee";
+import { ExpenseStatus } from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import type { ValidationResult } from "../src/domain/result";
+import { moneyFromMajor } from "../src/utils/money";
+import { applyWorkflowAction, startWorkflow } from "../src/workflow/workflow";
+
+const asOf = new Date("2025-02-20T00:00:00.000Z");
+const clock = () => new Date("2025-02-20T10:00:00.000Z");
+
+const policy: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {},
+	costCenterRules: [],
+};
+
+const policyRef = policyReference("policies/default.json", policy);
+
+const employee: Employee = {
+	id: "e_1",
+	firstName: "Ada",
+	lastName: "Lovelace",
+	costCenterId: "core_sales",
+};
+
+function result(expenseId: string, status: ExpenseStatus): ValidationResult {
+	return {
+		expenseId,
+		status,
+		alerts: [],
+		checkedAmount: moneyFromMajor(120, "USD"),
+	};
+}
+
+describe("AuditLog", () => {
+	let dir: string;
+	let file: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-"));
+		file = path.join(dir, "audit.jsonl");
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	function writeSample(): void {
+		const log = new AuditLog(file, clock);
+		const pending = result("g_1", ExpenseStatus.PENDING);
+		log.append(decisionRecord(pending, asOf, policyRef));
+		log.append(
+			decisionRecord(result("g_2", ExpenseStatus.APPROVED), asOf, policyRef),
+		);
+
+		const started = startWorkflow(pending, employee, policy, clock());
+		log.append(statusChangeRecord(undefined, started));
+		const approved = applyWorkflowAction(
+			started,
+			{ type: "approve", actor: { id: "m_1", role: "manager" } },
+			clock(),
+		);
+		log.append(statusChangeRecord(started, approved));
+	}
+
+	test("chains entries and queries them by expense", () => {
+		writeSample();
+		const log = new AuditLog(file);
+		const entries = log.entries();
+
+		expect(entries.map((entry) => entry.seq)).toEqual([1, 2, 3, 4]);
+		expect(entries[0]?.prevHash).toBe(GENESIS_HASH);
+		expect(entries[1]?.prevHash).toBe(entries[0]?.hash);
+		expect(log.verify()).toEqual({
+			valid: true,
+			entries: 4,
+			head: entries[3]?.hash,
+		});
+
+		expect(
+			log.history("g_1").map((entry) => {
+				const { record } = entry;
+				return record.type === "DECISION"
+					? record.result.status
+					: `${record.previousState ?? "-"} -> ${record.state}`;
+			}),
+		).toEqual(["PENDING", "- -> IN_REVIEW", "IN_REVIEW -> APPROVED"]);
+		expect(entries[0]?.record).toEqual({
+			type: "DECISION",
+			expenseId: "g_1",
+			asOf: "2025-02-20",
+			policy: policyRef,
+			result: result("g_1", ExpenseStatus.PENDING),
+		});
+	});
+
+	test("continues the chain of an existing log", () => {
+		writeSample();
+		const entry = new AuditLog(file, clock).append(
+			decisionRecord(result("g_3", ExpenseStatus.REJECTED), asOf, policyRef),
+		);
+
+		expect(entry.seq).toBe(5);
+		expect(new AuditLog(file).verify().valid).toBe(true);
+	});
+
+	test("continues and verifies a log longer than one read", () => {
+		const log = new AuditLog(file, clock);
+		// Multi-byte ids, so reads split characters as well as lines
+		for (let i = 1; i <= 300; i++) {
+			log.append(
+				decisionRecord(
+					result(`g_ñandú_${i}`, ExpenseStatus.APPROVED),
+					asOf,
+					policyRef,
+				),
+			);
+		}
+		expect(fs.statSync(file).size).toBeGreaterThan(128 * 1024);
+
+		const entry = new AuditLog(file, clock).append(
+			decisionRecord(result("g_301", ExpenseStatus.REJECTED), asOf, policyRef),
+		);
+		expect(entry.seq).toBe(301);
+		expect(new AuditLog(file).verify()).toMatchObject({
+			valid: true,
+			entries: 301,
+			head: entry.hash,
+		});
+		expect(new AuditLog(file).history("g_ñandú_150")).toHaveLength(1);
+	});
+
+	test("detects edited, removed and reordered entries", () => {
+		writeSample();
+		const lines = fs.readFileSync(file, "utf-8").trim().split("\n");
+
+		const edited = [...lines];
+		edited[1] = (edited[1] as string).replace('"APPROVED"', '"REJECTED"');
+		expect(verifyAuditLog(edited)).toEqual({
+			valid: false,
+			entries: 2,
+			error: {
+				seq: 2,
+				line: 2,
+				message: "was modified after it was written",
+			},
+		});
+
+		expect(
+			verifyAuditLog([lines[0], lines[2], lines[3]] as string[]).error,
+		).toEqual({ seq: 2, line: 2, message: "has seq 3, expected 2" });
+		expect(
+			verifyAuditLog([lines[1], lines[0]] as string[]).error?.message,
+		).toBe("has seq 2, expected 1");
+	});
+
+	test("identifies the policy by name and content", () => {
+		expect(policyRef.hash).toMatch(/^[0-9a-f]{64}$/);
+		const { baseCurrency, ...rest } = policy;
+		expect(policyReference("default", { ...rest, baseCurrency }).hash).toBe(
+			policyRef.hash,
+		);
+		expect(
+			policyReference("policies/default.json", {
+				...policy,
+				baseCurrency: "EUR",
+			}).hash,
+		).not.toBe(policyRef.hash);
+	});
+
+	test("an empty or missing log is valid", () => {
+		expect(new AuditLog(file).verify()).toEqual({ valid: true, entries: 0 });
+	});
+});
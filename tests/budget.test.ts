@@ -0,0 +1,195 @@
+import type { Employee } from "../src/domain/employee";
+import {
+	type Expense,
+	ExpenseCategory,
+	ExpenseStatus,
+} from "../src/domain/expense";
+import type { Budget, Policy } from "../src/domain/policy";
+import { BudgetLedger } from "../src/engine/budget-ledger";
+import { validateExpense } from "../src/engine/expense-validator";
+import { calendarPeriod } from "../src/utils/date";
+import { moneyFromMajor, toMajor } from "../src/utils/money";
+
+const employee: Employee = {
+	id: "e_1",
+	firstName: "Ada",
+	lastName: "Lovelace",
+	costCenterId: "core_sales",
+};
+
+const asOf = new Date("2025-02-20T00:00:00.000Z");
+
+const lodging: Budget = {
+	id: "sales-lodging",
+	costCenterId: "core_sales",
+	category: ExpenseCategory.LODGING,
+	period: "quarter",
+	amount: 1000,
+};
+
+function makePolicy(budgets: Budget[]): Policy {
+	return {
+		baseCurrency: "USD",
+		ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+		categoryLimits: {},
+		costCenterRules: [],
+		budgets,
+	};
+}
+
+function makeExpense(id: string, amount: number, day = "2025-02-10"): Expense {
+	return {
+		id,
+		amount: moneyFromMajor(amount, "USD"),
+		category: ExpenseCategory.LODGING,
+		date: new Date(`${day}T00:00:00.000Z`),
+	};
+}
+
+describe("budgets", () => {
+	test("approved expenses consume the budget until it warns, then rejects", async () => {
+		const ledger = new BudgetLedger();
+		const policy = makePolicy([lodging]);
+		const validate = (expense: Expense) =>
+			validateExpense(expense, employee, policy, undefined, asOf, { ledger });
+
+		expect((await validate(makeExpense("g_1", 600))).status).toBe(
+			ExpenseStatus.APPROVED,
+		);
+		expect((await validate(makeExpense("g_2", 200))).status).toBe(
+			ExpenseStatus.APPROVED,
+		);
+
+		// 800 + 150 = 95% of the budget: review, and not charged
+		const near = await validate(makeExpense("g_3", 150));
+		expect(near.status).toBe(ExpenseStatus.PENDING);
+		expect(near.alerts).toEqual([
+			expect.objectContaining({
+				code: "BUDGET_LIMIT",
+				ruleId: "budget",
+				params: {
+					budgetId: "sales-lodging",
+					costCenterId: "core_sales",
+					category: "LODGING",
+					periodStart: "2025-01-01",
+					periodEnd: "2025-03-31",
+					spent: 800,
+					total: 950,
+					budget: 1000,
+					currency: "USD",
+					usedPercent: 95,
+				},
+			}),
+		]);
+
+		const over = await validate(makeExpense("g_4", 250));
+		expect(over.status).toBe(ExpenseStatus.REJECTED);
+		expect(over.alerts[0]?.message).toBe(
+			"Budget sales-lodging of core_sales (LODGING) for Jan 1, 2025 to Mar 31, 2025 is exhausted: $1,050.00 of $1,000.00.",
+		);
+
+		expect(ledger.accounts()).toEqual([
+			expect.objectContaining({
+				periodStart: "2025-01-01",
+				spent: moneyFromMajor(800, "USD"),
+			}),
+		]);
+	});
+
+	test("each period has its own account", async () => {
+		const ledger = new BudgetLedger();
+		const policy = makePolicy([lodging]);
+
+		await validateExpense(
+			makeExpense("g_1", 800, "2025-03-31"),
+			employee,
+			policy,
+			undefined,
+			asOf,
+			{ ledger },
+		);
+		const nextQuarter = await validateExpense(
+			makeExpense("g_2", 800, "2025-04-01"),
+			employee,
+			policy,
+			undefined,
+			new Date("2025-04-02T00:00:00.000Z"),
+			{ ledger },
+		);
+		expect(nextQuarter.status).toBe(ExpenseStatus.APPROVED);
+		expect(ledger.accounts().map((a) => a.periodStart)).toEqual([
+			"2025-01-01",
+			"2025-04-01",
+		]);
+	});
+
+	test("checking a budget does not open its account", async () => {
+		const ledger = new BudgetLedger();
+
+		const over = await validateExpense(
+			makeExpense("g_1", 1200),
+			employee,
+			makePolicy([lodging]),
+			undefined,
+			asOf,
+			{ ledger },
+		);
+		expect(over.status).toBe(ExpenseStatus.REJECTED);
+		expect(ledger.accounts()).toEqual([]);
+	});
+
+	test("a budget id reused with another amount keeps its own account", async () => {
+		const ledger = new BudgetLedger();
+		await validateExpense(
+			makeExpense("g_1", 800),
+			employee,
+			makePolicy([lodging]),
+			undefined,
+			asOf,
+			{ ledger },
+		);
+
+		const raised = await validateExpense(
+			makeExpense("g_2", 800),
+			employee,
+			makePolicy([{ ...lodging, amount: 5000 }]),
+			undefined,
+			asOf,
+			{ ledger },
+		);
+		expect(raised.status).toBe(ExpenseStatus.APPROVED);
+		expect(ledger.accounts().map((a) => toMajor(a.spent))).toEqual([800, 800]);
+	});
+
+	test("honors warnAt and ignores other cost centers and categories", async () => {
+		const policy = makePolicy([
+			{ ...lodging, warnAt: 0.5 },
+			{ ...lodging, id: "engineering", costCenterId: "core_engineering" },
+			{ ...lodging, id: "food", category: ExpenseCategory.FOOD, amount: 1 },
+		]);
+
+		const result = await validateExpense(
+			makeExpense("g_1", 500),
+			employee,
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.alerts.map((a) => a.params.budgetId)).toEqual([
+			"sales-lodging",
+		]);
+	});
+});
+
+describe("calendarPeriod", () => {
+	test.each([
+		["2025-01-29", "day", "2025-01-29", "2025-01-29"],
+		["2025-02-02", "week", "2025-01-27", "2025-02-02"],
+		["2024-02-10", "month", "2024-02-01", "2024-02-29"],
+		["2025-11-30", "quarter", "2025-10-01", "2025-12-31"],
+		["2025-06-15", "year", "2025-01-01", "2025-12-31"],
+	] as const)("%s in its %s", (day, period, start, end) => {
+		expect(calendarPeriod(day, period)).toEqual([start, end]);
+	});
+});
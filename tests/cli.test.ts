@@ -0,0 +1,257 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runCli } from "../src/cli/cli";
+
+const policyDocument = {
+	schemaVersion: 1,
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: { FOOD: { approvedUpTo: 100, pendingUpTo: 150 } },
+	costCenterRules: [
+		{ costCenterId: "core_engineering", forbiddenCategory: "FOOD" },
+	],
+};
+
+const csv = [
+	"gasto_id,empleado_id,empleado_nombre,empleado_apellido,empleado_cost_center,categoria,monto,moneda,fecha",
+	"g_1,e_1,Ada,Lovelace,core_sales,food,50,USD,2025-02-10",
+	"g_2,e_1,Ada,Lovelace,core_sales,food,114000,CLP,2025-02-10",
+	"g_3,e_2,Alan,Turing,core_engineering,food,20,USD,2025-02-10",
+].join("\n");
+
+const ENV_KEYS = [
+	"FX_PROVIDER",
+	"FX_FIXED_RATES",
+	"AS_OF_DATE",
+	"POLICY",
+	"REPORT_LOCALE",
+	"WORKFLOW_DIR",
+	"AUDIT_LOG",
+];
+
+describe("CLI", () => {
+	let dir: string;
+	let policyPath: string;
+	let csvPath: string;
+	const savedEnv: Record<string, string | undefined> = {};
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "cli-"));
+		policyPath = path.join(dir, "policy.json");
+		csvPath = path.join(dir, "gastos.csv");
+		fs.writeFileSync(policyPath, JSON.stringify(policyDocument));
+		fs.writeFileSync(csvPath, csv);
+		for (const key of ENV_KEYS) {
+			savedEnv[key] = process.env[key];
+			delete process.env[key];
+		}
+		process.env.FX_PROVIDER = "fixed";
+		process.env.FX_FIXED_RATES = "CLP=950";
+	});
+
+	afterEach(() => {
+		for (const key of ENV_KEYS) {
+			if (savedEnv[key] === undefined) delete process.env[key];
+			else process.env[key] = savedEnv[key];
+		}
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	const run = async (...argv: string[]) => {
+		const stdout: string[] = [];
+		const stderr: string[] = [];
+		const code = await runCli(argv, {
+			stdout: (text) => {
+				stdout.push(text);
+			},
+			stderr: (text) => {
+				stderr.push(text);
+			},
+		});
+		return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+	};
+
+	test("analyze writes the outputs and fails on rejected expenses when asked", async () => {
+		const args = [
+			"analyze",
+			"--input",
+			csvPath,
+			"--output-dir",
+			dir,
+			"--format",
+			"markdown,summary,csv",
+			"--policy",
+			policyPath,
+			"--as-of",
+			"2025-02-20",
+		];
+
+		const ok = await run(...args);
+		expect(ok.code).toBe(0);
+		expect(ok.stderr).toContain("RECHAZADO: 1");
+		expect(fs.existsSync(path.join(dir, "ANALISIS.md"))).toBe(true);
+		expect(
+			fs.readFileSync(path.join(dir, "RESULTADOS.csv"), "utf-8").split("\n"),
+		).toHaveLength(5);
+		const summary = JSON.parse(
+			fs.readFileSync(path.join(dir, "RESUMEN.json"), "utf-8"),
+		);
+		expect(summary).toMatchObject({
+			asOf: "2025-02-20",
+			policy: policyPath,
+			counts: { APPROVED: 1, PARTIALLY_APPROVED: 0, PENDING: 1, REJECTED: 1 },
+		});
+
+		const strict = await run(...args, "--fail-on-rejected", "--quiet");
+		expect(strict).toMatchObject({ code: 3, stdout: "", stderr: "" });
+	});
+
+	test("analyze removes the results it started when the run fails", async () => {
+		const out = path.join(dir, "out");
+		const { code, stderr } = await run(
+			"analyze",
+			"--input",
+			dir,
+			"--output-dir",
+			out,
+			"--format",
+			"csv,junit",
+			"--policy",
+			policyPath,
+		);
+
+		expect(code).toBe(1);
+		expect(stderr).toContain("analyze failed:");
+		expect(fs.readdirSync(out)).toEqual([]);
+	});
+
+	test("analyze --output - prints the report; --verbose adds one line per expense", async () => {
+		const { code, stdout, stderr } = await run(
+			"analyze",
+			"--input",
+			csvPath,
+			"--output",
+			"-",
+			"--policy",
+			policyPath,
+			"--as-of",
+			"2025-02-20",
+			"--locale",
+			"en",
+			"-v",
+		);
+
+		expect(code).toBe(0);
+		expect(stdout).toMatch(/^# /);
+		expect(stderr).toContain("g_2 PENDING CURRENCY_MISMATCH,CATEGORY_LIMIT");
+	});
+
+	test("validate-one takes the expense from flags or a JSON file", async () => {
+		const fromFlags = await run(
+			"validate-one",
+			"--id",
+			"g_1",
+			"--amount",
+			"120",
+			"--currency",
+			"USD",
+			"--category",
+			"food",
+			"--date",
+			"2025-02-10",
+			"--employee",
+			"e_1",
+			"--cost-center",
+			"core_sales",
+			"--policy",
+			policyPath,
+			"--as-of",
+			"2025-02-20",
+			"--locale",
+			"en",
+		);
+		expect(fromFlags.code).toBe(0);
+		expect(fromFlags.stdout.split("\n")[0]).toBe("g_1: PENDING (120 USD)");
+
+		const input = path.join(dir, "expense.json");
+		fs.writeFileSync(
+			input,
+			JSON.stringify({
+				expense: {
+					id: "g_2",
+					amount: 20,
+					currency: "USD",
+					category: "FOOD",
+					date: "2025-02-10",
+				},
+				employee: { id: "e_2", costCenterId: "core_engineering" },
+				asOf: "2025-02-20",
+			}),
+		);
+		const fromFile = await run(
+			"validate-one",
+			"--input",
+			input,
+			"--policy",
+			policyPath,
+			"--format",
+			"json",
+			"--fail-on-rejected",
+		);
+		expect(fromFile.code).toBe(3);
+		expect(JSON.parse(fromFile.stdout)).toMatchObject({
+			expenseId: "g_2",
+			status: "REJECTED",
+		});
+	});
+
+	test("reports usage errors with exit code 2", async () => {
+		const missing = await run("validate-one", "--id", "g_1");
+		expect(missing.code).toBe(2);
+		expect(missing.stderr).toContain(
+			"Missing --amount, --currency, --category, --date, --employee, --cost-center",
+		);
+
+		expect((await run("analyze", "--as-of", "31/01/2025")).code).toBe(2);
+		expect((await run("analyze", "--as-of", "2025-02-30")).stderr).toContain(
+			"--as-of must be a date in the form YYYY-MM-DD",
+		);
+		expect((await run("analyze", "--format", "xml")).code).toBe(2);
+		expect(
+			(await run("analyze", "--format", "csv,json", "--output", "-")).stderr,
+		).toContain("--output takes a single --format");
+		expect((await run("analyze", "--unknown")).code).toBe(2);
+		expect((await run("fx", "warm")).code).toBe(2);
+		expect((await run("nope")).stderr).toContain("Unknown command 'nope'");
+		expect((await run()).code).toBe(2);
+		expect(await run("analyze", "--help")).toMatchObject({
+			code: 0,
+			stdout: expect.stringContaining("Usage: spending-rules analyze"),
+		});
+	});
+
+	test("lint-policy exits with 1 when a policy has errors", async () => {
+		const broken = path.join(dir, "broken.json");
+		fs.writeFileSync(
+			broken,
+			JSON.stringify({
+				...policyDocument,
+				ageLimit: { pendingAfterDays: 90, rejectedAfterDays: 60 },
+			}),
+		);
+
+		expect((await run("lint-policy", policyPath)).code).toBe(0);
+		const { code, stdout } = await run(
+			"lint-policy",
+			policyPath,
+			broken,
+			"--format",
+			"json",
+		);
+		expect(code).toBe(1);
+		expect(
+			JSON.parse(stdout).map((r: { issues: unknown[] }) => r.issues.length),
+		).toEqual([0, 1]);
+	});
+});
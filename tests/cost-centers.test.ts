@@ -0,0 +1,192 @@
+import type { Employee } from "../src/domain/employee";
+import {
+	type Expense,
+	ExpenseCategory,
+	ExpenseStatus,
+} from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import { validateExpense } from "../src/engine/expense-validator";
+import { costCenterLineage, resolveBudgets } from "../src/policy/cost-centers";
+import {
+	PolicyValidationError,
+	parsePolicyDocument,
+} from "../src/policy/loader";
+import { moneyFromMajor } from "../src/utils/money";
+
+// engineering > core_engineering > platform; sales stands alone
+const policy: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+	},
+	costCenterRules: [
+		{ costCenterId: "engineering", forbiddenCategory: ExpenseCategory.SOFTWARE },
+	],
+	costCenters: [
+		{
+			id: "engineering",
+			categoryLimits: {
+				[ExpenseCategory.FOOD]: { approvedUpTo: 50, pendingUpTo: 80 },
+			},
+		},
+		{
+			id: "core_engineering",
+			parent: "engineering",
+			allowedCategories: [ExpenseCategory.SOFTWARE],
+		},
+		{ id: "platform", parent: "core_engineering" },
+		{ id: "tools", parent: "engineering" },
+	],
+};
+
+const asOf = new Date("2025-01-31T00:00:00.000Z");
+
+function employeeIn(costCenterId: string): Employee {
+	return { id: "e_1", firstName: "Ada", lastName: "Lovelace", costCenterId };
+}
+
+function makeExpense(overrides?: Partial<Expense>): Expense {
+	return {
+		id: "g_1",
+		amount: moneyFromMajor(60, "USD"),
+		category: ExpenseCategory.FOOD,
+		date: new Date("2025-01-30T00:00:00.000Z"),
+		...overrides,
+	};
+}
+
+describe("cost center tree", () => {
+	test("lists the lineage nearest first", () => {
+		expect(costCenterLineage(policy, "platform")).toEqual([
+			"platform",
+			"core_engineering",
+			"engineering",
+		]);
+		expect(costCenterLineage(policy, "unknown")).toEqual(["unknown"]);
+	});
+
+	test("category limits set on an ancestor apply to descendants", async () => {
+		const result = await validateExpense(
+			makeExpense(),
+			employeeIn("platform"),
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.alerts[0]).toMatchObject({
+			code: "CATEGORY_LIMIT",
+			params: { limit: 50, definedOn: "engineering" },
+			message:
+				"$60.00 exceeds auto-approval limit ($50.00) set on cost center 'engineering', requires review.",
+		});
+
+		const outside = await validateExpense(
+			makeExpense(),
+			employeeIn("sales"),
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(outside.status).toBe(ExpenseStatus.APPROVED);
+	});
+
+	test("a forbidden category is inherited unless a nearer cost center allows it", async () => {
+		const software = makeExpense({ category: ExpenseCategory.SOFTWARE });
+
+		const tools = await validateExpense(
+			software,
+			employeeIn("tools"),
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(tools.status).toBe(ExpenseStatus.REJECTED);
+		expect(tools.alerts[0]).toMatchObject({
+			code: "COST_CENTER_POLICY",
+			params: {
+				costCenterId: "tools",
+				category: "SOFTWARE",
+				ruleCostCenterId: "engineering",
+			},
+			message:
+				"Cost center 'tools' is not allowed to expense 'SOFTWARE' (rule set on 'engineering').",
+		});
+
+		const platform = await validateExpense(
+			software,
+			employeeIn("platform"),
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(platform.status).toBe(ExpenseStatus.APPROVED);
+	});
+
+	test("the nearest budget per category wins", () => {
+		const budgets = resolveBudgets(
+			{
+				...policy,
+				budgets: [
+					{
+						id: "eng-all",
+						costCenterId: "engineering",
+						period: "year",
+						amount: 9,
+					},
+					{
+						id: "eng-food",
+						costCenterId: "engineering",
+						category: ExpenseCategory.FOOD,
+						period: "year",
+						amount: 9,
+					},
+					{
+						id: "platform-food",
+						costCenterId: "platform",
+						category: ExpenseCategory.FOOD,
+						period: "month",
+						amount: 9,
+					},
+				],
+			},
+			"platform",
+			ExpenseCategory.FOOD,
+		);
+		expect(budgets.map((b) => b.id)).toEqual(["platform-food", "eng-all"]);
+	});
+
+	test("the schema rejects unknown parents, duplicates and cycles", () => {
+		const issues = (() => {
+			try {
+				parsePolicyDocument(
+					{
+						schemaVersion: 1,
+						baseCurrency: "USD",
+						ageLimit: { rejectedAfterDays: 60, pendingAfterDays: 30 },
+						categoryLimits: {},
+						costCenterRules: [],
+						costCenters: [
+							{ id: "a", parent: "b" },
+							{ id: "b", parent: "a" },
+							{ id: "c", parent: "missing" },
+							{ id: "c" },
+						],
+					},
+					"test",
+				);
+			} catch (error) {
+				if (error instanceof PolicyValidationError) return error.issues;
+				throw error;
+			}
+			return [];
+		})();
+		expect(issues).toEqual([
+			"costCenters.3.id duplicates cost center 'c'",
+			"costCenters.0.parent makes a cycle through 'a'",
+			"costCenters.1.parent makes a cycle through 'b'",
+			"costCenters.2.parent references unknown cost center 'missing'",
+		]);
+	});
+});
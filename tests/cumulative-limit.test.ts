@@ -0,0 +1,217 @@
+import type { Employee } from "../src/domain/employee";
+import {
+	type Expense,
+	ExpenseCategory,
+	ExpenseStatus,
+} from "../src/domain/expense";
+import type { CumulativeLimit, Policy } from "../src/domain/policy";
+import type { SpendingRecord } from "../src/domain/spending";
+import { validateExpense } from "../src/engine/expense-validator";
+import { SpendingHistory } from "../src/engine/spending-history";
+import { moneyFromMajor } from "../src/utils/money";
+
+const employee: Employee = {
+	id: "e_1",
+	firstName: "Ada",
+	lastName: "Lovelace",
+	costCenterId: "core_sales",
+};
+
+const asOf = new Date("2025-02-01T00:00:00.000Z");
+
+function makePolicy(limits: CumulativeLimit[]): Policy {
+	return {
+		baseCurrency: "USD",
+		ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+		categoryLimits: {
+			[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+		},
+		costCenterRules: [],
+		cumulativeLimits: limits,
+	};
+}
+
+// Wednesday 2025-01-29
+function makeExpense(overrides?: Partial<Expense>): Expense {
+	return {
+		id: "g_new",
+		amount: moneyFromMajor(90, "USD"),
+		category: ExpenseCategory.FOOD,
+		date: new Date("2025-01-29T00:00:00.000Z"),
+		...overrides,
+	};
+}
+
+function record(
+	day: string,
+	amount: number,
+	overrides?: Partial<SpendingRecord>,
+): SpendingRecord {
+	return {
+		expenseId: `g_${day}`,
+		employeeId: "e_1",
+		costCenterId: "core_sales",
+		category: ExpenseCategory.FOOD,
+		date: new Date(`${day}T00:00:00.000Z`),
+		amount: moneyFromMajor(amount, "USD"),
+		...overrides,
+	};
+}
+
+const weeklyFood: CumulativeLimit = {
+	id: "weekly-food",
+	scope: "employee",
+	category: ExpenseCategory.FOOD,
+	period: "week",
+	approvedUpTo: 200,
+	pendingUpTo: 300,
+};
+
+describe("cumulative limits", () => {
+	test("an expense within the limit on its own is flagged once the period total crosses it", async () => {
+		const history = [record("2025-01-27", 90), record("2025-01-28", 90)];
+
+		const result = await validateExpense(
+			makeExpense(),
+			employee,
+			makePolicy([weeklyFood]),
+			undefined,
+			asOf,
+			{ history },
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.alerts).toEqual([
+			expect.objectContaining({
+				code: "CUMULATIVE_LIMIT",
+				ruleId: "cumulative-limit",
+				params: {
+					limitId: "weekly-food",
+					scope: "employee",
+					scopeId: "e_1",
+					category: "FOOD",
+					periodStart: "2025-01-27",
+					periodEnd: "2025-02-02",
+					total: 270,
+					currency: "USD",
+					limit: 200,
+					limitKind: "approvedUpTo",
+				},
+			}),
+		]);
+	});
+
+	test("rejects above pendingUpTo", async () => {
+		const history = [
+			record("2025-01-27", 90),
+			record("2025-01-28", 90),
+			record("2025-01-29", 90, { expenseId: "g_other" }),
+		];
+
+		const result = await validateExpense(
+			makeExpense(),
+			employee,
+			makePolicy([weeklyFood]),
+			undefined,
+			asOf,
+			{ history },
+		);
+		expect(result.status).toBe(ExpenseStatus.REJECTED);
+		expect(result.alerts[0]?.params).toMatchObject({
+			total: 360,
+			limitKind: "pendingUpTo",
+		});
+	});
+
+	test("only counts the same scope, category and period", async () => {
+		const history = [
+			record("2025-01-26", 500), // previous ISO week
+			record("2025-01-27", 500, { employeeId: "e_2" }),
+			record("2025-01-27", 500, { category: ExpenseCategory.TRANSPORT }),
+			record("2025-01-29", 500, { expenseId: "g_new" }), // this expense
+		];
+
+		const result = await validateExpense(
+			makeExpense(),
+			employee,
+			makePolicy([weeklyFood]),
+			undefined,
+			asOf,
+			{ history },
+		);
+		expect(result.status).toBe(ExpenseStatus.APPROVED);
+	});
+
+	test.each([
+		["day", undefined, 90 + 20],
+		["month", undefined, 90 + 20 + 40 + 80],
+		["rolling", 3, 90 + 20 + 40],
+	] as const)("%s periods", async (period, rollingDays, total) => {
+		const history = [
+			record("2025-01-29", 20),
+			record("2025-01-27", 40),
+			record("2025-01-02", 80),
+			record("2024-12-31", 160),
+		];
+		const limit: CumulativeLimit = {
+			id: "cc",
+			scope: "costCenter",
+			period,
+			rollingDays,
+			approvedUpTo: 0,
+			pendingUpTo: 1000,
+		};
+
+		const result = await validateExpense(
+			makeExpense(),
+			employee,
+			makePolicy([limit]),
+			undefined,
+			asOf,
+			{ history },
+		);
+		expect(result.alerts[0]?.params).toMatchObject({
+			scopeId: "core_sales",
+			category: "ALL",
+			total,
+		});
+	});
+
+	test("a history drops the days its limits can no longer reach", () => {
+		const rolling: CumulativeLimit = {
+			...weeklyFood,
+			id: "rolling-3",
+			period: "rolling",
+			rollingDays: 3,
+		};
+		const history = new SpendingHistory([weeklyFood, rolling]);
+		history.add(record("2025-01-26", 10));
+		history.add(record("2025-01-27", 20));
+		history.add(record("2025-01-29", 30, { costCenterId: "other" }));
+		const amounts = (scope: "employee" | "costCenter", scopeId: string) =>
+			[...history.records(scope, scopeId, "2025-01-20", "2025-02-02")].map(
+				(r) => r.amount.minor / 100,
+			);
+
+		// The week of the 29th starts on the 27th, before the rolling window
+		expect(amounts("employee", "e_1")).toEqual([20, 30]);
+		expect(amounts("costCenter", "core_sales")).toEqual([20]);
+		expect(amounts("costCenter", "other")).toEqual([30]);
+
+		history.add(record("2025-02-03", 40));
+		expect(amounts("employee", "e_1")).toEqual([]);
+		expect([
+			...history.records("employee", "e_1", "2025-02-03", "2025-02-03"),
+		]).toHaveLength(1);
+	});
+
+	test("returns the converted amount for the caller's history", async () => {
+		const result = await validateExpense(
+			makeExpense({ amount: moneyFromMajor(95_000, "CLP") }),
+			employee,
+			makePolicy([]),
+			{ base: "USD", rates: { CLP: 950 } },
+			asOf,
+		);
+		expect(result.checkedAmount).toEqual(moneyFromMajor(100, "USD"));
+	});
+});
@@ -4,8 +4,10 @@ import {
 	ExpenseCategory,
 	ExpenseStatus,
 } from "../src/domain/expense";
-import type { Policy } from "../src/domain/policy";
+import type { Policy, PolicyVersion } from "../src/domain/policy";
+import { AlertSeverity } from "../src/domain/result";
 import { validateExpense } from "../src/engine/expense-validator";
+import { moneyFromMajor } from "../src/utils/money";
 
 function makePolicy(overrides?: Partial<Policy>): Policy {
 	return {
@@ -34,8 +36,7 @@ function makeEmployee(overrides?: Partial<Employee>): Employee {
 function makeExpense(overrides?: Partial<Expense>): Expense {
 	return {
 		id: "g_1",
-		amount: 10,
-		currency: "USD",
+		amount: moneyFromMajor(10, "USD"),
 		category: ExpenseCategory.OTHER,
 		date: new Date("2025-01-01T00:00:00.000Z"),
 		...overrides,
@@ -92,7 +93,7 @@ describe("validateExpense (Part 1)", () => {
 		const employee = makeEmployee();
 		const expense = makeExpense({
 			category: ExpenseCategory.FOOD,
-			amount: 90,
+			amount: moneyFromMajor(90, "USD"),
 		});
 
 		const result = await validateExpense(expense, employee, policy, undefined);
@@ -109,7 +110,7 @@ describe("validateExpense (Part 1)", () => {
 		const employee = makeEmployee();
 		const expense = makeExpense({
 			category: ExpenseCategory.FOOD,
-			amount: 120,
+			amount: moneyFromMajor(120, "USD"),
 		});
 
 		const result = await validateExpense(expense, employee, policy, undefined);
@@ -126,7 +127,7 @@ describe("validateExpense (Part 1)", () => {
 		const employee = makeEmployee();
 		const expense = makeExpense({
 			category: ExpenseCategory.FOOD,
-			amount: 160,
+			amount: moneyFromMajor(160, "USD"),
 		});
 
 		const result = await validateExpense(expense, employee, policy, undefined);
@@ -144,8 +145,7 @@ describe("validateExpense (Part 1)", () => {
 		const employee = makeEmployee();
 		const expense = makeExpense({
 			category: ExpenseCategory.FOOD,
-			amount: 95_000,
-			currency: "CLP",
+			amount: moneyFromMajor(95_000, "CLP"),
 		});
 
 		const mockRates = {
@@ -173,8 +173,7 @@ describe("validateExpense (Part 1)", () => {
 		const employee = makeEmployee();
 		const expense = makeExpense({
 			category: ExpenseCategory.FOOD,
-			amount: 200_000,
-			currency: "CLP",
+			amount: moneyFromMajor(200_000, "CLP"),
 		});
 
 		const mockRates = {
@@ -227,7 +226,7 @@ describe("validateExpense (Part 1)", () => {
 		const employee = makeEmployee({ costCenterId: "core_engineering" });
 		const expense = makeExpense({
 			category: ExpenseCategory.FOOD,
-			amount: 120, // would be PENDING by category limit, but cost center forces REJECTED
+			amount: moneyFromMajor(120, "USD"), // would be PENDING by category limit, but cost center forces REJECTED
 		});
 
 		const result = await validateExpense(expense, employee, policy, undefined);
@@ -238,3 +237,209 @@ describe("validateExpense (Part 1)", () => {
 		);
 	});
 });
+
+describe("validateExpense structured alerts", () => {
+	const asOf = new Date("2025-01-31T00:00:00.000Z");
+
+	test("rule alerts carry rule id, status, severity and typed params", async () => {
+		const policy = makePolicy({
+			categoryLimits: {
+				[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+			},
+		});
+		const expense = makeExpense({
+			category: ExpenseCategory.FOOD,
+			amount: moneyFromMajor(120, "USD"),
+			date: new Date("2025-01-30T00:00:00.000Z"),
+		});
+
+		const result = await validateExpense(
+			expense,
+			makeEmployee(),
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(result.alerts).toEqual([
+			expect.objectContaining({
+				code: "CATEGORY_LIMIT",
+				ruleId: "category-limit",
+				status: ExpenseStatus.PENDING,
+				severity: AlertSeverity.WARNING,
+				params: {
+					amount: 120,
+					currency: "USD",
+					category: ExpenseCategory.FOOD,
+					limit: 100,
+					limitKind: "approvedUpTo",
+				},
+			}),
+		]);
+	});
+
+	test("conversion alerts expose both amounts and currencies", async () => {
+		const expense = makeExpense({
+			amount: moneyFromMajor(95_000, "CLP"),
+			date: new Date("2025-01-30T00:00:00.000Z"),
+		});
+
+		const result = await validateExpense(
+			expense,
+			makeEmployee(),
+			makePolicy(),
+			{ base: "USD", rates: { CLP: 950 } },
+			asOf,
+		);
+		expect(result.alerts).toEqual([
+			expect.objectContaining({
+				code: "CURRENCY_MISMATCH",
+				ruleId: "currency-conversion",
+				status: ExpenseStatus.APPROVED,
+				severity: AlertSeverity.INFO,
+				params: {
+					originalAmount: 95_000,
+					originalCurrency: "CLP",
+					convertedAmount: 100,
+					baseCurrency: "USD",
+				},
+			}),
+		]);
+	});
+
+	test("age alerts report the limit that was crossed", async () => {
+		const expense = makeExpense({ date: new Date("2024-11-01T00:00:00.000Z") });
+
+		const result = await validateExpense(
+			expense,
+			makeEmployee(),
+			makePolicy(),
+			undefined,
+			asOf,
+		);
+		expect(result.alerts).toEqual([
+			expect.objectContaining({
+				code: "AGE_LIMIT",
+				status: ExpenseStatus.REJECTED,
+				severity: AlertSeverity.ERROR,
+				params: { daysOld: 91, limitDays: 60 },
+			}),
+		]);
+	});
+});
+
+describe("validateExpense with a policy history", () => {
+	const asOf = new Date("2025-06-15T00:00:00.000Z");
+
+	function makeVersion(overrides: Partial<PolicyVersion>): PolicyVersion {
+		return {
+			...makePolicy({
+				ageLimit: { pendingAfterDays: 365, rejectedAfterDays: 730 },
+			}),
+			id: "v1",
+			effectiveFrom: new Date("2025-01-01T00:00:00.000Z"),
+			...overrides,
+		};
+	}
+
+	const history: PolicyVersion[] = [
+		makeVersion({
+			id: "2025-Q1",
+			effectiveTo: new Date("2025-04-01T00:00:00.000Z"),
+			categoryLimits: {
+				[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+			},
+		}),
+		makeVersion({
+			id: "2025-Q2",
+			effectiveFrom: new Date("2025-04-01T00:00:00.000Z"),
+			categoryLimits: {
+				[ExpenseCategory.FOOD]: { approvedUpTo: 80, pendingUpTo: 120 },
+			},
+		}),
+	];
+
+	test("applies the version in force on the expense date", async () => {
+		const expense = makeExpense({
+			category: ExpenseCategory.FOOD,
+			amount: moneyFromMajor(90, "USD"),
+			date: new Date("2025-03-31T00:00:00.000Z"),
+		});
+
+		const result = await validateExpense(
+			expense,
+			makeEmployee(),
+			history,
+			undefined,
+			asOf,
+		);
+		expect(result.status).toBe(ExpenseStatus.APPROVED);
+		expect(result.policyVersionId).toBe("2025-Q1");
+	});
+
+	test("effectiveTo is exclusive: the next version applies from that day", async () => {
+		const expense = makeExpense({
+			category: ExpenseCategory.FOOD,
+			amount: moneyFromMajor(90, "USD"),
+			date: new Date("2025-04-01T00:00:00.000Z"),
+		});
+
+		const result = await validateExpense(
+			expense,
+			makeEmployee(),
+			history,
+			undefined,
+			asOf,
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.policyVersionId).toBe("2025-Q2");
+	});
+
+	test("can select the version by submission date instead", async () => {
+		const expense = makeExpense({
+			category: ExpenseCategory.FOOD,
+			amount: moneyFromMajor(90, "USD"),
+			date: new Date("2025-03-20T00:00:00.000Z"),
+			submittedAt: new Date("2025-04-10T00:00:00.000Z"),
+		});
+
+		const result = await validateExpense(
+			expense,
+			makeEmployee(),
+			history,
+			undefined,
+			asOf,
+			{ policyDate: "submission" },
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.policyVersionId).toBe("2025-Q2");
+	});
+
+	test("PENDING with POLICY_VERSION_NOT_FOUND when no version covers the date", async () => {
+		const expense = makeExpense({
+			date: new Date("2024-12-31T00:00:00.000Z"),
+		});
+
+		const result = await validateExpense(
+			expense,
+			makeEmployee(),
+			history,
+			undefined,
+			asOf,
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.alerts.map((a) => a.code)).toEqual([
+			"POLICY_VERSION_NOT_FOUND",
+		]);
+		expect(result.policyVersionId).toBeUndefined();
+	});
+
+	test("a single policy does not record a version id", async () => {
+		const result = await validateExpense(
+			makeExpense(),
+			makeEmployee(),
+			makePolicy(),
+			undefined,
+		);
+		expect(result).not.toHaveProperty("policyVersionId");
+	});
+});
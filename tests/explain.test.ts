@@ -0,0 +1,146 @@
+import type { Employee } from "../src/domain/employee";
+import {
+	type Expense,
+	ExpenseCategory,
+	ExpenseStatus,
+} from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import { explainResult } from "../src/engine/explain";
+import { validateExpense } from "../src/engine/expense-validator";
+import { FixedRatesProvider } from "../src/fx/fixed-rates-provider";
+import { moneyFromMajor } from "../src/utils/money";
+
+const employee: Employee = {
+	id: "e_1",
+	firstName: "Ada",
+	lastName: "Lovelace",
+	costCenterId: "core_sales",
+};
+
+const asOf = new Date("2025-02-20T00:00:00.000Z");
+
+const policy: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+	},
+	costCenterRules: [],
+};
+
+function makeExpense(amount: number, currency = "USD"): Expense {
+	return {
+		id: "g_1",
+		amount: moneyFromMajor(amount, currency),
+		category: ExpenseCategory.FOOD,
+		date: new Date("2025-02-10T00:00:00.000Z"),
+	};
+}
+
+describe("explain mode", () => {
+	test("results carry no trace unless asked", async () => {
+		const result = await validateExpense(
+			makeExpense(50),
+			employee,
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(result.trace).toBeUndefined();
+		expect(() => explainResult(result)).toThrow("has no trace");
+	});
+
+	test("traces the conversion and every rule, marking the deciding one", async () => {
+		const result = await validateExpense(
+			makeExpense(190_000, "CLP"),
+			employee,
+			policy,
+			new FixedRatesProvider({ base: "USD", rates: { CLP: 950 } }),
+			asOf,
+			{ explain: true },
+		);
+
+		expect(result.status).toBe(ExpenseStatus.REJECTED);
+		expect(result.trace).toMatchObject({
+			expenseId: "g_1",
+			amount: 190_000,
+			currency: "CLP",
+			expenseDate: "2025-02-10",
+			asOf: "2025-02-20",
+			policyDate: "2025-02-10",
+			conversion: {
+				originalAmount: 190_000,
+				convertedAmount: 200,
+				rate: 1 / 950,
+				provider: "fixed",
+			},
+			status: ExpenseStatus.REJECTED,
+			decidedBy: ["category-limit"],
+		});
+		expect(result.trace?.rules.map((rule) => rule.ruleId)).toEqual([
+			"age-limit",
+			"category-limit",
+			"cost-center",
+			"cumulative-limit",
+			"budget",
+		]);
+		expect(result.trace?.rules[0]).toEqual({
+			ruleId: "age-limit",
+			description: "Expense age against policy age limits",
+			status: ExpenseStatus.APPROVED,
+			inputs: { daysOld: 10, expenseDate: "2025-02-10", asOf: "2025-02-20" },
+			thresholds: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+			deciding: false,
+		});
+		expect(result.trace?.rules[1]).toMatchObject({
+			status: ExpenseStatus.REJECTED,
+			inputs: { amount: 200, currency: "USD", category: "FOOD" },
+			thresholds: { approvedUpTo: 100, pendingUpTo: 150 },
+			deciding: true,
+		});
+		// Plain data, so it round-trips through JSON
+		expect(JSON.parse(JSON.stringify(result.trace))).toEqual(result.trace);
+	});
+
+	test("renders a readable explanation", async () => {
+		const result = await validateExpense(
+			makeExpense(120),
+			employee,
+			policy,
+			undefined,
+			asOf,
+			{ explain: true },
+		);
+
+		const text = explainResult(result);
+		expect(text).toContain("Expense g_1: PENDING");
+		expect(text).toContain(
+			"- $120.00 for FOOD dated Feb 10, 2025, evaluated as of Feb 20, 2025",
+		);
+		expect(text).toContain(
+			"- category-limit: PENDING (deciding) (inputs: amount=120, currency=USD, category=FOOD; thresholds: approvedUpTo=100, pendingUpTo=150)",
+		);
+		expect(text).toContain(
+			"  - $120.00 exceeds auto-approval limit ($100.00), requires review.",
+		);
+		expect(text).toContain("- age-limit: APPROVED (inputs: daysOld=10");
+		expect(text.endsWith("Decided by: category-limit")).toBe(true);
+		expect(explainResult(result, "es")).toContain(
+			"Decidido por: category-limit",
+		);
+	});
+
+	test("explains results settled before the rules ran", async () => {
+		const result = await validateExpense(
+			makeExpense(-5),
+			employee,
+			policy,
+			undefined,
+			asOf,
+			{ explain: true },
+		);
+
+		expect(result.trace).toMatchObject({ rules: [], decidedBy: ["amount"] });
+		expect(explainResult(result)).toContain("Decided by: amount");
+	});
+});
@@ -0,0 +1,95 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CachingFxProvider, DiskRateCache } from "../src/fx/disk-cache";
+import { FixedRatesProvider } from "../src/fx/fixed-rates-provider";
+import { memoizeRates } from "../src/fx/memoize";
+import { RatePrefetcher } from "../src/fx/prefetch";
+import { prewarmRates } from "../src/fx/prewarm";
+
+describe("CachingFxProvider", () => {
+	let dir: string;
+	let inner: FixedRatesProvider;
+	let fetches: jest.SpyInstance;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "fx-cache-"));
+		inner = new FixedRatesProvider({ base: "USD", rates: { CLP: 950 } });
+		fetches = jest.spyOn(inner, "getRatesForDate");
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	const caching = () =>
+		new CachingFxProvider(inner, new DiskRateCache(dir), () => "2025-02-01");
+
+	test("reuses past dates across instances", async () => {
+		const first = caching();
+		await first.getRatesForDate("2025-01-15");
+		expect(first.stats).toEqual({ hits: 0, misses: 1, writes: 1 });
+		expect(fs.existsSync(path.join(dir, "fixed", "2025-01-15.json"))).toBe(
+			true,
+		);
+
+		const second = caching();
+		expect(await second.getRatesForDate("2025-01-15")).toEqual({
+			base: "USD",
+			rates: { CLP: 950 },
+		});
+		expect(second.stats).toEqual({ hits: 1, misses: 0, writes: 0 });
+		expect(fetches).toHaveBeenCalledTimes(1);
+	});
+
+	test("fetches a date once for concurrent lookups of different currencies", async () => {
+		const provider = caching();
+		const rates = memoizeRates(provider);
+		const prefetcher = new RatePrefetcher(rates, 4);
+		prefetcher.request("2025-01-15", ["CLP", "USD"]);
+		prefetcher.request("2025-01-15", ["MXN", "USD"]);
+
+		await Promise.all([
+			rates.getRatesForDate("2025-01-15", ["CLP", "USD"]),
+			rates.getRatesForDate("2025-01-15", ["MXN", "USD"]),
+		]);
+		expect(prefetcher.lookups).toBe(2);
+		expect(fetches).toHaveBeenCalledTimes(1);
+		expect(provider.stats).toEqual({ hits: 0, misses: 1, writes: 1 });
+	});
+
+	test("never caches today or future dates", async () => {
+		const provider = caching();
+		await provider.getRatesForDate("2025-02-01");
+		await provider.getRatesForDate("2025-02-01");
+		expect(provider.stats).toEqual({ hits: 0, misses: 2, writes: 0 });
+	});
+
+	test("a corrupt entry counts as a miss and is rewritten", async () => {
+		fs.mkdirSync(path.join(dir, "fixed"), { recursive: true });
+		fs.writeFileSync(path.join(dir, "fixed", "2025-01-15.json"), "{not json");
+
+		const provider = caching();
+		await provider.getRatesForDate("2025-01-15");
+		expect(provider.stats).toEqual({ hits: 0, misses: 1, writes: 1 });
+		expect(new DiskRateCache(dir).read("fixed", "2025-01-15")?.rates).toEqual({
+			CLP: 950,
+		});
+	});
+});
+
+describe("prewarmRates", () => {
+	test("fetches every day in the range and collects failures", async () => {
+		const provider = new FixedRatesProvider({ base: "USD", rates: {} });
+		jest
+			.spyOn(provider, "getRatesForDate")
+			.mockImplementation(async (dateKey) => {
+				if (dateKey === "2025-01-02") throw new Error("offline");
+				return { base: "USD", rates: {} };
+			});
+
+		const failures = await prewarmRates(provider, "2024-12-31", "2025-01-03");
+		expect(provider.getRatesForDate).toHaveBeenCalledTimes(4);
+		expect(failures).toEqual([{ dateKey: "2025-01-02", error: "offline" }]);
+	});
+});
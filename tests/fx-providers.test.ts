@@ -0,0 +1,284 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Employee } from "../src/domain/employee";
+import { ExpenseCategory, ExpenseStatus } from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import { validateExpense } from "../src/engine/expense-validator";
+import { createFxProvider, fxConfigFromEnv } from "../src/fx/config";
+import { FallbackFxProvider } from "../src/fx/fallback-provider";
+import { FixedRatesProvider } from "../src/fx/fixed-rates-provider";
+import { OpenExchangeRatesProvider } from "../src/fx/open-exchange-rates-provider";
+import { RateTableProvider } from "../src/fx/rate-table-provider";
+import { moneyFromMajor } from "../src/utils/money";
+
+describe("RateTableProvider", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "rates-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test("reads a CSV table grouped by date", async () => {
+		const file = path.join(dir, "rates.csv");
+		fs.writeFileSync(
+			file,
+			[
+				"date,currency,rate",
+				"2025-01-01,CLP,950",
+				"2025-01-01,EUR,0.92",
+				"2025-01-02,CLP,955",
+			].join("\n"),
+		);
+		const provider = new RateTableProvider(file);
+
+		expect(await provider.getRatesForDate("2025-01-01")).toEqual({
+			base: "USD",
+			rates: { CLP: 950, EUR: 0.92 },
+		});
+		expect(await provider.getLatestRates()).toEqual({
+			base: "USD",
+			rates: { CLP: 955 },
+		});
+		await expect(provider.getRatesForDate("2025-02-01")).rejects.toThrow(
+			`No rates for 2025-02-01 in rate table ${file}`,
+		);
+	});
+
+	test("reads a JSON table and reports invalid rows", async () => {
+		const file = path.join(dir, "rates.json");
+		fs.writeFileSync(
+			file,
+			JSON.stringify([
+				{ date: "2025-01-01", currency: "CLP", rate: 950 },
+				{ date: "2025-01-01", currency: "EUR", rate: -1 },
+			]),
+		);
+
+		await expect(
+			new RateTableProvider(file).getRatesForDate("2025-01-01"),
+		).rejects.toThrow(`Invalid row 2 in rate table ${file}: rate must be > 0`);
+	});
+});
+
+describe("FX provider configuration", () => {
+	test("defaults to Open Exchange Rates", () => {
+		expect(
+			createFxProvider(fxConfigFromEnv({ FX_CACHE: "off" })),
+		).toBeInstanceOf(OpenExchangeRatesProvider);
+	});
+
+	test("builds a fixed-rates provider from FX_FIXED_RATES", async () => {
+		const provider = createFxProvider(
+			fxConfigFromEnv({
+				FX_PROVIDER: "fixed",
+				FX_FIXED_RATES: "CLP=950, EUR=0.92",
+			}),
+		);
+		expect(provider).toBeInstanceOf(FixedRatesProvider);
+		expect(await provider.getRatesForDate("2020-01-01")).toEqual({
+			base: "USD",
+			rates: { CLP: 950, EUR: 0.92 },
+		});
+	});
+
+	test("wraps the provider in a fallback when FX_FALLBACK_* is set", () => {
+		expect(
+			fxConfigFromEnv({
+				FX_PROVIDER: "file",
+				FX_RATES_FILE: "rates.csv",
+				FX_FALLBACK_DAYS: "3",
+				FX_FALLBACK_PROVIDER: "fixed",
+				FX_FIXED_RATES: "CLP=950",
+			}),
+		).toEqual({
+			type: "fallback",
+			primary: { type: "file", path: "rates.csv", base: "USD" },
+			maxStaleDays: 3,
+			secondary: {
+				type: "fixed",
+				rates: { base: "USD", rates: { CLP: 950 } },
+			},
+		});
+		expect(() => fxConfigFromEnv({ FX_FALLBACK_DAYS: "-1" })).toThrow(
+			"Invalid FX_FALLBACK_DAYS '-1'",
+		);
+	});
+
+	test("rejects incomplete or unknown configurations", () => {
+		expect(() => fxConfigFromEnv({ FX_PROVIDER: "file" })).toThrow(
+			"FX_RATES_FILE is required when FX_PROVIDER=file",
+		);
+		expect(() => fxConfigFromEnv({ FX_PROVIDER: "ecb" })).toThrow(
+			"Unknown FX_PROVIDER 'ecb'",
+		);
+		expect(() =>
+			fxConfigFromEnv({ FX_PROVIDER: "fixed", FX_FIXED_RATES: "CLP" }),
+		).toThrow("Invalid FX_FIXED_RATES entry 'CLP'");
+	});
+});
+
+describe("FallbackFxProvider", () => {
+	let dir: string;
+	let table: RateTableProvider;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "rates-"));
+		const file = path.join(dir, "rates.csv");
+		fs.writeFileSync(
+			file,
+			[
+				"date,currency,rate",
+				"2025-01-01,CLP,950",
+				"2025-01-01,EUR,0.92",
+				"2025-01-03,EUR,0.93",
+			].join("\n"),
+		);
+		table = new RateTableProvider(file);
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test("uses the primary provider's rates for the day when available", async () => {
+		const provider = new FallbackFxProvider(table, { maxStaleDays: 2 });
+		expect(await provider.getRatesForDate("2025-01-01", ["CLP"])).toEqual({
+			base: "USD",
+			rates: { CLP: 950, EUR: 0.92 },
+		});
+	});
+
+	test("goes back to the nearest previous day within the window", async () => {
+		const provider = new FallbackFxProvider(table, { maxStaleDays: 2 });
+		expect(await provider.getRatesForDate("2025-01-02", ["CLP"])).toEqual({
+			base: "USD",
+			rates: { CLP: 950, EUR: 0.92 },
+			date: "2025-01-01",
+		});
+		// 2025-01-03 exists but lacks CLP
+		expect(
+			(await provider.getRatesForDate("2025-01-03", ["CLP", "USD"])).date,
+		).toBe("2025-01-01");
+	});
+
+	test("falls back to the secondary provider outside the window", async () => {
+		const provider = new FallbackFxProvider(table, {
+			maxStaleDays: 1,
+			secondary: new FixedRatesProvider({ base: "USD", rates: { CLP: 990 } }),
+		});
+		expect(await provider.getRatesForDate("2025-01-05", ["CLP"])).toEqual({
+			base: "USD",
+			rates: { CLP: 990 },
+			provider: "fixed",
+		});
+	});
+
+	test("reports every attempt when nothing is usable", async () => {
+		const provider = new FallbackFxProvider(table, { maxStaleDays: 1 });
+		await expect(
+			provider.getRatesForDate("2025-01-05", ["CLP"]),
+		).rejects.toThrow(
+			/^No usable rates for 2025-01-05 within 1 days \(file 2025-01-05: .*; file 2025-01-04: .*\)$/,
+		);
+	});
+});
+
+describe("validateExpense with an FX provider", () => {
+	const policy: Policy = {
+		baseCurrency: "USD",
+		ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+		categoryLimits: {
+			[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+		},
+		costCenterRules: [],
+	};
+	const employee: Employee = {
+		id: "e_1",
+		firstName: "Ada",
+		lastName: "Lovelace",
+		costCenterId: "core_sales",
+	};
+	const expense = {
+		id: "g_1",
+		amount: moneyFromMajor(120_000, "CLP"),
+		category: ExpenseCategory.FOOD,
+		date: new Date("2025-01-30T00:00:00.000Z"),
+	};
+	const asOf = new Date("2025-01-31T00:00:00.000Z");
+
+	test("asks the provider for rates on the expense date", async () => {
+		const provider = new FixedRatesProvider({
+			base: "USD",
+			rates: { CLP: 1000 },
+		});
+		const spy = jest.spyOn(provider, "getRatesForDate");
+
+		const result = await validateExpense(
+			expense,
+			employee,
+			policy,
+			provider,
+			asOf,
+		);
+		expect(spy).toHaveBeenCalledWith("2025-01-30", ["CLP", "USD"]);
+		expect(result.status).toBe(ExpenseStatus.PENDING); // 120 USD
+	});
+
+	test("stale rates raise FX_RATE_STALE with the day used", async () => {
+		const primary = new FixedRatesProvider({ base: "USD", rates: {} });
+		jest
+			.spyOn(primary, "getRatesForDate")
+			.mockImplementation(async (dateKey) => {
+				if (dateKey === "2025-01-30") throw new Error("offline");
+				return { base: "USD", rates: { CLP: 1000 } };
+			});
+
+		const result = await validateExpense(
+			expense,
+			employee,
+			policy,
+			new FallbackFxProvider(primary, { maxStaleDays: 3 }),
+			asOf,
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING); // 120 USD
+		expect(result.alerts).toContainEqual(
+			expect.objectContaining({
+				code: "FX_RATE_STALE",
+				severity: "WARNING",
+				params: {
+					requestedDate: "2025-01-30",
+					rateDate: "2025-01-29",
+					provider: "fixed",
+					currency: "CLP",
+				},
+			}),
+		);
+	});
+
+	test("a provider failure becomes a conversion error for review", async () => {
+		const provider = new FixedRatesProvider({ base: "USD", rates: {} });
+		jest
+			.spyOn(provider, "getRatesForDate")
+			.mockRejectedValue(new Error("offline"));
+
+		const result = await validateExpense(
+			expense,
+			employee,
+			policy,
+			provider,
+			asOf,
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.alerts).toEqual([
+			expect.objectContaining({
+				code: "CURRENCY_CONVERSION_ERROR",
+				params: expect.objectContaining({ reason: "offline" }),
+			}),
+		]);
+	});
+});
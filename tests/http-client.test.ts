@@ -0,0 +1,197 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { OpenExchangeRatesProvider } from "../src/fx/open-exchange-rates-provider";
+import {
+	HttpClient,
+	type HttpClientOptions,
+	HttpRateLimitError,
+	HttpResponseError,
+	HttpStatusError,
+	HttpTimeoutError,
+	parseRetryAfter,
+} from "../src/utils/http";
+
+type Handler = (
+	req: http.IncomingMessage,
+	res: http.ServerResponse,
+) => void | Promise<void>;
+
+/**
+ * A local stand-in for Open Exchange Rates; each test queues the handlers
+ * for successive requests (the last one repeats).
+ */
+describe("HttpClient against a stub rates server", () => {
+	let server: http.Server;
+	let handlers: Handler[];
+	let requests: string[];
+	let sleeps: number[];
+	const previousBaseUrl = process.env.OPEN_EXCHANGE_RATES_BASE_URL;
+
+	const ok: Handler = (_req, res) => {
+		res.writeHead(200, { "content-type": "application/json" });
+		res.end(JSON.stringify({ base: "USD", rates: { CLP: 950 } }));
+	};
+	const status =
+		(code: number, headers: Record<string, string> = {}): Handler =>
+		(_req, res) => {
+			res.writeHead(code, headers);
+			res.end();
+		};
+
+	const client = (options: HttpClientOptions = {}) =>
+		new HttpClient({
+			sleep: async (ms) => {
+				sleeps.push(ms);
+			},
+			random: () => 0.5,
+			...options,
+		});
+
+	beforeEach(async () => {
+		handlers = [];
+		requests = [];
+		sleeps = [];
+		server = http.createServer((req, res) => {
+			requests.push(req.url ?? "");
+			const handler =
+				handlers[Math.min(requests.length, handlers.length) - 1] ?? ok;
+			void handler(req, res);
+		});
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+		const { port } = server.address() as AddressInfo;
+		process.env.OPEN_EXCHANGE_RATES_BASE_URL = `http://127.0.0.1:${port}`;
+	});
+
+	afterEach(async () => {
+		server.closeAllConnections();
+		await new Promise((resolve) => server.close(resolve));
+		if (previousBaseUrl === undefined) {
+			delete process.env.OPEN_EXCHANGE_RATES_BASE_URL;
+		} else {
+			process.env.OPEN_EXCHANGE_RATES_BASE_URL = previousBaseUrl;
+		}
+	});
+
+	test("retries 5xx responses with jittered exponential backoff", async () => {
+		handlers = [status(502), status(503), ok];
+		const provider = new OpenExchangeRatesProvider(client());
+
+		expect(await provider.getRatesForDate("2025-01-15")).toEqual({
+			base: "USD",
+			rates: { CLP: 950 },
+		});
+		expect(requests).toHaveLength(3);
+		expect(requests[0]).toMatch(/^\/api\/historical\/2025-01-15\.json\?/);
+		// random() = 0.5 of 250 ms, then of 500 ms
+		expect(sleeps).toEqual([125, 250]);
+	});
+
+	test("honors Retry-After on 429", async () => {
+		handlers = [status(429, { "retry-after": "2" }), ok];
+		await new OpenExchangeRatesProvider(client()).getLatestRates();
+		expect(sleeps).toEqual([2000]);
+	});
+
+	test("gives up at once when Retry-After exceeds the limit", async () => {
+		handlers = [status(429, { "retry-after": "3600" })];
+		const error = await new OpenExchangeRatesProvider(
+			client({ maxRetryAfterMs: 60_000 }),
+		)
+			.getLatestRates()
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(HttpRateLimitError);
+		expect(error).toMatchObject({ attempts: 1, retryAfterMs: 3_600_000 });
+		expect(requests).toHaveLength(1);
+	});
+
+	test("does not retry other 4xx responses", async () => {
+		handlers = [status(401)];
+		const error = await new OpenExchangeRatesProvider(client())
+			.getRatesForDate("2025-01-15")
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(HttpStatusError);
+		expect((error as Error).message).toBe(
+			"Exchange rate API (2025-01-15) returned 401: Unauthorized",
+		);
+		expect(requests).toHaveLength(1);
+	});
+
+	test("does not retry a body that is not JSON", async () => {
+		handlers = [
+			(_req, res) => {
+				res.writeHead(200, { "content-type": "application/json" });
+				res.end("<html>maintenance</html>");
+			},
+		];
+		const error = await new OpenExchangeRatesProvider(client())
+			.getLatestRates()
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(HttpResponseError);
+		expect(error).toMatchObject({ attempts: 1 });
+		expect(requests).toHaveLength(1);
+		expect(sleeps).toEqual([]);
+	});
+
+	test("stops after the configured retries", async () => {
+		handlers = [status(500)];
+		await expect(
+			new OpenExchangeRatesProvider(client({ retries: 2 })).getLatestRates(),
+		).rejects.toMatchObject({ name: "HttpStatusError", attempts: 3 });
+		expect(requests).toHaveLength(3);
+	});
+
+	test("times out slow responses", async () => {
+		handlers = [
+			(_req, res) => {
+				setTimeout(() => ok(_req, res), 500);
+			},
+		];
+		const error = await new OpenExchangeRatesProvider(
+			client({ retries: 1, timeoutMs: 50 }),
+		)
+			.getLatestRates()
+			.catch((e: unknown) => e);
+
+		expect(error).toBeInstanceOf(HttpTimeoutError);
+		expect(error).toMatchObject({ attempts: 2, timeoutMs: 50 });
+	});
+
+	test("caps the requests in flight", async () => {
+		let inFlight = 0;
+		let peak = 0;
+		handlers = [
+			(req, res) => {
+				inFlight += 1;
+				peak = Math.max(peak, inFlight);
+				setTimeout(() => {
+					inFlight -= 1;
+					ok(req, res);
+				}, 20);
+			},
+		];
+		const provider = new OpenExchangeRatesProvider(
+			client({ maxConcurrency: 2 }),
+		);
+
+		await Promise.all(
+			["01", "02", "03", "04", "05", "06"].map((day) =>
+				provider.getRatesForDate(`2025-01-${day}`),
+			),
+		);
+		expect(requests).toHaveLength(6);
+		expect(peak).toBe(2);
+	});
+});
+
+describe("parseRetryAfter", () => {
+	test("reads seconds and HTTP dates", () => {
+		const now = Date.parse("2025-01-01T00:00:00Z");
+		expect(parseRetryAfter("5", now)).toBe(5000);
+		expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:30 GMT", now)).toBe(30_000);
+		expect(parseRetryAfter(null, now)).toBeUndefined();
+		expect(parseRetryAfter("soon", now)).toBeUndefined();
+	});
+});
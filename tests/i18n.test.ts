@@ -0,0 +1,135 @@
+import type { Employee } from "../src/domain/employee";
+import { ExpenseCategory, ExpenseStatus } from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import { createAlert } from "../src/engine/alerts";
+import { validateExpense } from "../src/engine/expense-validator";
+import { createTranslator, isLocale } from "../src/i18n/translator";
+import { moneyFromMajor } from "../src/utils/money";
+
+const policy: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+	},
+	costCenterRules: [],
+};
+
+const employee: Employee = {
+	id: "e_1",
+	firstName: "Ada",
+	lastName: "Lovelace",
+	costCenterId: "core_sales",
+};
+
+const categoryAlert = createAlert({
+	code: "CATEGORY_LIMIT",
+	ruleId: "category-limit",
+	status: ExpenseStatus.PENDING,
+	params: {
+		amount: 1234.5,
+		currency: "USD",
+		category: "FOOD",
+		limit: 100,
+		limitKind: "approvedUpTo",
+	},
+});
+
+describe("translator", () => {
+	test("renders alerts per locale with locale-aware money formatting", () => {
+		expect(createTranslator("en").alert(categoryAlert)).toBe(
+			"$1,234.50 exceeds auto-approval limit ($100.00), requires review.",
+		);
+		expect(createTranslator("es").alert(categoryAlert)).toBe(
+			"US$1.234,50 excede auto-aprobación (US$100,00), requiere revisión",
+		);
+		expect(createTranslator("pt").alert(categoryAlert)).toBe(
+			"US$\u00a01.234,50 excede o limite de aprovação automática (US$\u00a0100,00), requer revisão",
+		);
+	});
+
+	test("picks the wording variant from the alert status", () => {
+		const ageAlert = createAlert({
+			code: "AGE_LIMIT",
+			ruleId: "age-limit",
+			status: ExpenseStatus.REJECTED,
+			params: { daysOld: 91, limitDays: 60 },
+		});
+		expect(createTranslator("es").alert(ageAlert)).toBe(
+			"Antigüedad: 91 días (límite: 60)",
+		);
+		expect(
+			createTranslator("es").alert({
+				...ageAlert,
+				status: ExpenseStatus.PENDING,
+			}),
+		).toBe("Antigüedad: 91 días, requiere revisión");
+	});
+
+	test("keeps the original message for codes missing from the catalog", () => {
+		const custom = createAlert({
+			code: "WEEKEND",
+			ruleId: "weekend",
+			status: ExpenseStatus.PENDING,
+			params: {},
+			message: "Sunday expense.",
+		});
+		expect(createTranslator("pt").alert(custom)).toBe("Sunday expense.");
+	});
+
+	test("formats report messages and dates", () => {
+		const t = createTranslator("en");
+		expect(t.report("invalidRowsMore", { count: 1200 })).toBe(
+			"... 1,200 more skipped",
+		);
+		expect(t.formatDate("2025-03-01")).toBe("Mar 1, 2025");
+		expect(t.status(ExpenseStatus.REJECTED)).toBe("REJECTED");
+		expect(createTranslator("pt").status(ExpenseStatus.REJECTED)).toBe(
+			"REJEITADO",
+		);
+	});
+
+	test("zero-decimal currencies are formatted without minor units", () => {
+		expect(createTranslator("es").formatMoney(120000, "CLP")).toBe("$120.000");
+	});
+
+	test("isLocale accepts only supported locales", () => {
+		expect(isLocale("pt")).toBe(true);
+		expect(isLocale("fr")).toBe(false);
+	});
+});
+
+describe("validateExpense locale option", () => {
+	test("alert messages are rendered in the requested locale", async () => {
+		const expense = {
+			id: "g_1",
+			amount: moneyFromMajor(120, "USD"),
+			category: ExpenseCategory.FOOD,
+			date: new Date("2025-01-30T00:00:00.000Z"),
+		};
+		const asOf = new Date("2025-01-31T00:00:00.000Z");
+
+		const english = await validateExpense(
+			expense,
+			employee,
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(english.alerts[0]?.message).toBe(
+			"$120.00 exceeds auto-approval limit ($100.00), requires review.",
+		);
+
+		const portuguese = await validateExpense(
+			expense,
+			employee,
+			policy,
+			undefined,
+			asOf,
+			{ locale: "pt" },
+		);
+		expect(portuguese.alerts[0]?.message).toBe(
+			"US$\u00a0120,00 excede o limite de aprovação automática (US$\u00a0100,00), requer revisão",
+		);
+	});
+});
@@ -0,0 +1,165 @@
+import type { Employee } from "../src/domain/employee";
+import { ExpenseCategory, ExpenseStatus } from "../src/domain/expense";
+import { RoundingMode } from "../src/domain/money";
+import type { Policy } from "../src/domain/policy";
+import { validateExpense } from "../src/engine/expense-validator";
+import { convertMoney } from "../src/utils/fx";
+import {
+	compareMoney,
+	minorDigits,
+	moneyFromMajor,
+	roundToInteger,
+	toMajor,
+} from "../src/utils/money";
+
+describe("money", () => {
+	test("minor digits follow ISO 4217", () => {
+		expect(minorDigits("USD")).toBe(2);
+		expect(minorDigits("CLP")).toBe(0);
+		expect(minorDigits("JPY")).toBe(0);
+		expect(minorDigits("BHD")).toBe(3);
+	});
+
+	test("moneyFromMajor reads decimals exactly", () => {
+		expect(moneyFromMajor(12.34, "USD")).toEqual({
+			minor: 1234,
+			currency: "USD",
+		});
+		expect(moneyFromMajor("1.005", "USD").minor).toBe(101);
+		expect(moneyFromMajor(1.005, "USD", RoundingMode.HALF_EVEN).minor).toBe(
+			100,
+		);
+		expect(moneyFromMajor(1.2345, "BHD").minor).toBe(1235);
+		expect(moneyFromMajor(-5, "USD").minor).toBe(-500);
+		expect(moneyFromMajor(1e-7, "USD").minor).toBe(0);
+	});
+
+	test("moneyFromMajor rejects non-finite amounts", () => {
+		expect(() => moneyFromMajor(Number.NaN, "USD")).toThrow(
+			"Invalid amount 'NaN' for USD",
+		);
+	});
+
+	test.each([
+		[RoundingMode.HALF_UP, 2.5, 3],
+		[RoundingMode.HALF_UP, -2.5, -3],
+		[RoundingMode.HALF_DOWN, 2.5, 2],
+		[RoundingMode.HALF_EVEN, 2.5, 2],
+		[RoundingMode.HALF_EVEN, 3.5, 4],
+		[RoundingMode.UP, 2.1, 3],
+		[RoundingMode.UP, -2.1, -3],
+		[RoundingMode.DOWN, -2.9, -2],
+		[RoundingMode.CEILING, -2.9, -2],
+		[RoundingMode.FLOOR, 2.9, 2],
+	])("roundToInteger(%s, %d) = %d", (mode, value, expected) => {
+		expect(roundToInteger(value, mode)).toBe(expected);
+	});
+
+	test("floating-point noise snaps to the integer under every mode", () => {
+		expect(roundToInteger(10000.000000000002, RoundingMode.CEILING)).toBe(
+			10000,
+		);
+		expect(roundToInteger(9999.999999999998, RoundingMode.FLOOR)).toBe(10000);
+	});
+
+	test("convertMoney scales between currencies with different minor units", () => {
+		const rates = { base: "USD", rates: { CLP: 950, BHD: 0.376 } };
+		expect(convertMoney(moneyFromMajor(95_000, "CLP"), "USD", rates)).toEqual({
+			minor: 10000,
+			currency: "USD",
+		});
+		expect(convertMoney(moneyFromMajor(100, "USD"), "BHD", rates)).toEqual({
+			minor: 37600,
+			currency: "BHD",
+		});
+		expect(
+			convertMoney(
+				moneyFromMajor(1, "USD"),
+				"CLP",
+				{ base: "USD", rates: { CLP: 950.5 } },
+				RoundingMode.HALF_EVEN,
+			),
+		).toEqual({ minor: 950, currency: "CLP" });
+	});
+
+	test("compareMoney refuses to compare different currencies", () => {
+		expect(
+			compareMoney(moneyFromMajor(1, "USD"), moneyFromMajor(0.99, "USD")),
+		).toBeGreaterThan(0);
+		expect(() =>
+			compareMoney(moneyFromMajor(1, "USD"), moneyFromMajor(1, "CLP")),
+		).toThrow("Currency mismatch: USD vs CLP");
+	});
+
+	test("toMajor returns major units", () => {
+		expect(toMajor({ minor: 1234, currency: "USD" })).toBe(12.34);
+		expect(toMajor({ minor: 1234, currency: "BHD" })).toBe(1.234);
+	});
+});
+
+describe("validateExpense with exact money", () => {
+	const policy: Policy = {
+		baseCurrency: "USD",
+		ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+		categoryLimits: {
+			[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+		},
+		costCenterRules: [],
+	};
+	const employee: Employee = {
+		id: "e_1",
+		firstName: "Ada",
+		lastName: "Lovelace",
+		costCenterId: "core_sales",
+	};
+	const asOf = new Date("2025-01-31T00:00:00.000Z");
+
+	test("a conversion landing on the limit up to float noise stays APPROVED", async () => {
+		// 69 / 0.69 is 100.00000000000001 in floating point
+		const expense = {
+			id: "g_1",
+			amount: moneyFromMajor(69, "GBP"),
+			category: ExpenseCategory.FOOD,
+			date: new Date("2025-01-30T00:00:00.000Z"),
+		};
+
+		const result = await validateExpense(
+			expense,
+			employee,
+			policy,
+			{ base: "USD", rates: { GBP: 0.69 } },
+			asOf,
+		);
+		expect(result.status).toBe(ExpenseStatus.APPROVED);
+	});
+
+	test("the policy rounding mode applies to conversions", async () => {
+		// 100.005 BHD at 1:1 is 100.005 USD: HALF_UP gives 100.01 (PENDING),
+		// DOWN gives 100.00 (APPROVED)
+		const expense = {
+			id: "g_1",
+			amount: moneyFromMajor(100.005, "BHD"),
+			category: ExpenseCategory.FOOD,
+			date: new Date("2025-01-30T00:00:00.000Z"),
+		};
+		const rates = { base: "USD", rates: { BHD: 1 } };
+
+		const halfUp = await validateExpense(
+			expense,
+			employee,
+			policy,
+			rates,
+			asOf,
+		);
+		expect(halfUp.status).toBe(ExpenseStatus.PENDING);
+
+		const down = await validateExpense(
+			expense,
+			employee,
+			{ ...policy, rounding: RoundingMode.DOWN },
+			rates,
+			asOf,
+		);
+		expect(down.status).toBe(ExpenseStatus.APPROVED);
+	});
+});
@@ -0,0 +1,238 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AnalysisReport } from "../src/batch/analysis";
+import type { InvalidRow } from "../src/batch/expenses-csv";
+import {
+	analysisSummary,
+	type ExpenseResultRow,
+	fileSink,
+	openResultWriter,
+	parseOutputFormats,
+	type ResultFormat,
+	toResultRow,
+} from "../src/batch/outputs";
+import { ExpenseCategory, ExpenseStatus } from "../src/domain/expense";
+import { AlertSeverity, type ValidationResult } from "../src/domain/result";
+import { getTranslator } from "../src/i18n/translator";
+
+const t = getTranslator("en");
+
+const pending: ValidationResult = {
+	expenseId: "g_1",
+	status: ExpenseStatus.PENDING,
+	alerts: [
+		{
+			code: "CATEGORY_LIMIT",
+			ruleId: "category-limit",
+			status: ExpenseStatus.PENDING,
+			severity: AlertSeverity.WARNING,
+			params: {
+				amount: 120,
+				currency: "USD",
+				category: "FOOD",
+				limit: 100,
+				limitKind: "approvedUpTo",
+			},
+			message: "USD 120 exceeds auto-approval (USD 100), needs review",
+		},
+	],
+	checkedAmount: { minor: 12000, currency: "USD" },
+};
+
+const rows: ExpenseResultRow[] = [
+	toResultRow(
+		{
+			id: "g_1",
+			amount: { minor: 12000, currency: "USD" },
+			category: ExpenseCategory.FOOD,
+			date: new Date("2025-02-10T00:00:00.000Z"),
+		},
+		{
+			id: "e_1",
+			firstName: "Ada",
+			lastName: "Lovelace",
+			costCenterId: "core_sales",
+		},
+		pending,
+		t,
+	),
+	{
+		expenseId: 'g_2 "dinner", team',
+		employeeId: "e_2",
+		costCenterId: "core_engineering",
+		category: "FOOD",
+		date: "2025-02-11",
+		amount: 20,
+		currency: "USD",
+		status: ExpenseStatus.REJECTED,
+		alertCodes: ["COST_CENTER_POLICY"],
+		alertMessages: ["FOOD is not allowed for core_engineering <policy>"],
+	},
+];
+
+/** Writes the rows (and invalid rows) in one format and returns the text. */
+async function write(
+	format: ResultFormat,
+	invalidRows: InvalidRow[] = [],
+): Promise<string> {
+	let text = "";
+	let closed = false;
+	const writer = openResultWriter(format, {
+		write: async (chunk) => {
+			expect(chunk.endsWith("\n")).toBe(true);
+			text += chunk;
+		},
+		close: async () => {
+			closed = true;
+		},
+	});
+	for (const row of rows) await writer.result(row);
+	for (const [index, row] of invalidRows.entries()) {
+		await writer.invalid(row, index);
+	}
+	await writer.close();
+	expect(closed).toBe(true);
+	return text;
+}
+
+describe("batch outputs", () => {
+	test("builds a flat row from a result", () => {
+		expect(rows[0]).toEqual({
+			expenseId: "g_1",
+			employeeId: "e_1",
+			costCenterId: "core_sales",
+			category: "FOOD",
+			date: "2025-02-10",
+			amount: 120,
+			currency: "USD",
+			status: "PENDING",
+			convertedAmount: 120,
+			baseCurrency: "USD",
+			alertCodes: ["CATEGORY_LIMIT"],
+			alertMessages: [t.alert(pending.alerts[0]!)],
+		});
+	});
+
+	test("writes one CSV line per expense, quoting where needed", async () => {
+		expect((await write("csv")).split("\n")).toEqual([
+			"expense_id,employee_id,cost_center_id,category,date,amount,currency,status,converted_amount,base_currency,approved_amount,alert_codes,policy_version_id",
+			"g_1,e_1,core_sales,FOOD,2025-02-10,120,USD,PENDING,120,USD,,CATEGORY_LIMIT,",
+			'"g_2 ""dinner"", team",e_2,core_engineering,FOOD,2025-02-11,20,USD,REJECTED,,,,COST_CENTER_POLICY,',
+			"",
+		]);
+	});
+
+	test("writes the results as a JSON array", async () => {
+		expect(JSON.parse(await write("json"))).toEqual(rows);
+		const writer = openResultWriter("json", {
+			write: async (chunk) => {
+				expect(chunk).toBe("[]\n");
+			},
+			close: async () => {},
+		});
+		await writer.close();
+	});
+
+	test("writes REJECTED as failures, PENDING as skipped and invalid rows as errors", async () => {
+		const xml = await write("junit", [
+			{ raw: { gasto_id: "g_3" }, error: "monto: Monto debe ser un número" },
+		]);
+
+		expect(xml).toContain(
+			'<testsuite name="expenses" tests="3" failures="1" errors="1" skipped="1">',
+		);
+		expect(xml).toContain('<skipped message="PENDING: CATEGORY_LIMIT"/>');
+		expect(xml).toContain(
+			'<testcase classname="core_engineering.e_2" name="g_2 &quot;dinner&quot;, team">',
+		);
+		expect(xml).toContain(
+			'<failure type="REJECTED" message="REJECTED: COST_CENTER_POLICY">FOOD is not allowed for core_engineering &lt;policy&gt;</failure>',
+		);
+		expect(xml).toContain(
+			'<testcase classname="invalid-rows" name="ROW_1">\n      <error type="INVALID_ROW"',
+		);
+		expect(xml.endsWith("  </testsuite>\n</testsuites>\n")).toBe(true);
+	});
+
+	test("aborting removes the partial output and the JUnit spool", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "outputs-"));
+		const spools = () =>
+			fs.readdirSync(os.tmpdir()).filter((name) => name.startsWith("junit-"));
+		try {
+			const before = spools();
+			const writers = (["csv", "junit"] as const).map((format) =>
+				openResultWriter(format, fileSink(path.join(dir, format))),
+			);
+			// No spool until the first test case
+			expect(spools()).toEqual(before);
+			for (const writer of writers) await writer.result(rows[0]!);
+			expect(spools()).toHaveLength(before.length + 1);
+
+			for (const writer of writers) await writer.abort();
+			expect(fs.readdirSync(dir)).toEqual([]);
+			expect(spools()).toEqual(before);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("summarizes counts, anomalies and alert codes", () => {
+		const report: AnalysisReport = {
+			counts: {
+				APPROVED: 0,
+				PARTIALLY_APPROVED: 0,
+				PENDING: 1,
+				REJECTED: 1,
+			},
+			nonReimbursable: [{ minor: 550, currency: "USD" }],
+			anomalies: [{ code: "NEGATIVE_AMOUNT", gastoId: "g_9", amount: -5 }],
+			anomalyCounts: { NEGATIVE_AMOUNT: 3, DUPLICATE: 0 },
+			invalidRows: [],
+			invalidRowCount: 2,
+			policyVersions: {},
+			overrides: {},
+			budgets: [],
+			alerts: [],
+			expensesWithAlerts: 1,
+			alertCodes: { CATEGORY_LIMIT: 1 },
+			workflowsStarted: 0,
+			throughput: {
+				rows: 2,
+				invalidRows: 0,
+				elapsedMs: 1,
+				rowsPerSecond: 2000,
+				fxLookups: 0,
+			},
+		};
+
+		expect(
+			analysisSummary(report, {
+				asOf: new Date("2025-02-20T00:00:00.000Z"),
+				policy: "default",
+			}),
+		).toEqual({
+			asOf: "2025-02-20",
+			policy: "default",
+			total: 2,
+			counts: report.counts,
+			nonReimbursable: [{ amount: 5.5, currency: "USD" }],
+			anomalies: report.anomalies,
+			anomalyCounts: { NEGATIVE_AMOUNT: 3, DUPLICATE: 0 },
+			invalidRows: 2,
+			policyVersions: {},
+			overrides: {},
+			alertCodes: { CATEGORY_LIMIT: 1 },
+		});
+	});
+
+	test("parses format lists", () => {
+		expect(parseOutputFormats("markdown, csv,csv")).toEqual([
+			"markdown",
+			"csv",
+		]);
+		expect(() => parseOutputFormats("markdown,xml")).toThrow(
+			"Unknown output format 'xml'",
+		);
+	});
+});
@@ -0,0 +1,192 @@
+import type { Employee } from "../src/domain/employee";
+import {
+	type Expense,
+	ExpenseCategory,
+	ExpenseStatus,
+} from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import { validateExpense } from "../src/engine/expense-validator";
+import {
+	parsePolicyDocument,
+	PolicyValidationError,
+} from "../src/policy/loader";
+import { applyOverrides } from "../src/policy/overrides";
+import { moneyFromMajor } from "../src/utils/money";
+
+const policy: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+		[ExpenseCategory.LODGING]: { approvedUpTo: 200, pendingUpTo: 300 },
+	},
+	costCenterRules: [],
+	costCenters: [
+		{ id: "sales" },
+		{
+			id: "field_sales",
+			parent: "sales",
+			categoryLimits: {
+				[ExpenseCategory.LODGING]: { approvedUpTo: 100, pendingUpTo: 100 },
+			},
+		},
+	],
+	overrides: [
+		{
+			id: "e42-lodging",
+			employeeId: "e_42",
+			categoryLimits: {
+				[ExpenseCategory.LODGING]: { approvedUpTo: 500, pendingUpTo: 500 },
+			},
+			validUntil: new Date("2026-12-31T00:00:00.000Z"),
+		},
+		{
+			id: "executives",
+			attributes: { role: "executive" },
+			categoryLimits: {
+				[ExpenseCategory.FOOD]: { approvedUpTo: 250, pendingUpTo: 400 },
+			},
+			ageLimit: { rejectedAfterDays: 90 },
+		},
+		{
+			id: "sales-food",
+			costCenterId: "sales",
+			categoryLimits: {
+				[ExpenseCategory.FOOD]: { approvedUpTo: 120, pendingUpTo: 150 },
+			},
+		},
+	],
+};
+
+function employee(overrides?: Partial<Employee>): Employee {
+	return {
+		id: "e_1",
+		firstName: "Ada",
+		lastName: "Lovelace",
+		costCenterId: "engineering",
+		...overrides,
+	};
+}
+
+const asOf = new Date("2026-06-30T00:00:00.000Z");
+
+function makeExpense(overrides?: Partial<Expense>): Expense {
+	return {
+		id: "g_1",
+		amount: moneyFromMajor(450, "USD"),
+		category: ExpenseCategory.LODGING,
+		date: new Date("2026-06-29T00:00:00.000Z"),
+		...overrides,
+	};
+}
+
+describe("policy overrides", () => {
+	test("a time-boxed exemption lifts an employee's limit until it ends", async () => {
+		const e42 = employee({ id: "e_42", costCenterId: "field_sales" });
+
+		const during = await validateExpense(
+			makeExpense(),
+			e42,
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(during.status).toBe(ExpenseStatus.APPROVED);
+		expect(during.overrideIds).toEqual(["sales-food", "e42-lodging"]);
+
+		const after = await validateExpense(
+			makeExpense({ date: new Date("2027-01-01T00:00:00.000Z") }),
+			e42,
+			policy,
+			undefined,
+			new Date("2027-01-02T00:00:00.000Z"),
+		);
+		expect(after.status).toBe(ExpenseStatus.REJECTED);
+		expect(after.overrideIds).toEqual(["sales-food"]);
+	});
+
+	test("attribute overrides replace category and age limits", async () => {
+		const executive = employee({ attributes: { role: "executive" } });
+		const expense = makeExpense({
+			amount: moneyFromMajor(200, "USD"),
+			category: ExpenseCategory.FOOD,
+			date: new Date("2026-04-01T00:00:00.000Z"), // 90 days old
+		});
+
+		const result = await validateExpense(
+			expense,
+			executive,
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.alerts.map((a) => a.code)).toEqual(["AGE_LIMIT"]);
+		expect(result.overrideIds).toEqual(["executives"]);
+
+		const everyoneElse = await validateExpense(
+			expense,
+			employee(),
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(everyoneElse.status).toBe(ExpenseStatus.REJECTED);
+		expect(everyoneElse).not.toHaveProperty("overrideIds");
+	});
+
+	test("replace mode drops the other category limits", () => {
+		const { policy: effective } = applyOverrides(
+			{
+				...policy,
+				overrides: [
+					{
+						id: "sales-food-only",
+						costCenterId: "sales",
+						categoryLimits: {
+							[ExpenseCategory.FOOD]: { approvedUpTo: 120, pendingUpTo: 150 },
+						},
+						categoryLimitsMode: "replace",
+					},
+				],
+			},
+			employee({ costCenterId: "field_sales" }),
+			asOf,
+		);
+		expect(effective.categoryLimits).toEqual({
+			[ExpenseCategory.FOOD]: { approvedUpTo: 120, pendingUpTo: 150 },
+		});
+		expect(effective.costCenters?.[1]?.categoryLimits).toEqual({});
+	});
+
+	test("the schema requires a target and a coherent validity period", () => {
+		try {
+			parsePolicyDocument(
+				{
+					schemaVersion: 1,
+					baseCurrency: "USD",
+					ageLimit: { rejectedAfterDays: 60, pendingAfterDays: 30 },
+					categoryLimits: {},
+					costCenterRules: [],
+					overrides: [
+						{ id: "nobody" },
+						{
+							id: "backwards",
+							employeeId: "e_1",
+							validFrom: "2026-02-01",
+							validUntil: "2026-01-01",
+						},
+					],
+				},
+				"test",
+			);
+			throw new Error("expected the policy to be rejected");
+		} catch (error) {
+			expect(error).toBeInstanceOf(PolicyValidationError);
+			expect((error as PolicyValidationError).issues).toEqual([
+				"overrides.0 must set employeeId, costCenterId or attributes",
+				"overrides.1.validUntil must not be before validFrom",
+			]);
+		}
+	});
+});
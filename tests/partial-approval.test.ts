@@ -0,0 +1,189 @@
+import type { Employee } from "../src/domain/employee";
+import {
+	type Expense,
+	ExpenseCategory,
+	ExpenseStatus,
+} from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import { BudgetLedger } from "../src/engine/budget-ledger";
+import { validateExpense } from "../src/engine/expense-validator";
+import { moneyFromMajor } from "../src/utils/money";
+
+const employee: Employee = {
+	id: "e_1",
+	firstName: "Ada",
+	lastName: "Lovelace",
+	costCenterId: "core_sales",
+};
+
+const asOf = new Date("2025-02-20T00:00:00.000Z");
+
+const policy: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: {
+			approvedUpTo: 100,
+			pendingUpTo: 150,
+			partialApproval: true,
+		},
+		[ExpenseCategory.LODGING]: { approvedUpTo: 100, pendingUpTo: 150 },
+	},
+	costCenterRules: [],
+	budgets: [
+		{
+			id: "sales-food",
+			costCenterId: "core_sales",
+			category: ExpenseCategory.FOOD,
+			period: "month",
+			amount: 1000,
+		},
+	],
+};
+
+function makeExpense(
+	amount: number,
+	currency = "USD",
+	category = ExpenseCategory.FOOD,
+): Expense {
+	return {
+		id: "g_1",
+		amount: moneyFromMajor(amount, currency),
+		category,
+		date: new Date("2025-02-10T00:00:00.000Z"),
+	};
+}
+
+describe("partial approval", () => {
+	test("caps the reimbursed amount at approvedUpTo", async () => {
+		const ledger = new BudgetLedger();
+		const result = await validateExpense(
+			makeExpense(240),
+			employee,
+			policy,
+			undefined,
+			asOf,
+			{ ledger },
+		);
+
+		// pendingUpTo does not apply to capped categories
+		expect(result.status).toBe(ExpenseStatus.PARTIALLY_APPROVED);
+		expect(result.alerts).toEqual([
+			expect.objectContaining({
+				code: "CATEGORY_LIMIT_CAPPED",
+				ruleId: "category-limit",
+				params: {
+					amount: 240,
+					currency: "USD",
+					category: "FOOD",
+					limit: 100,
+					nonReimbursable: 140,
+				},
+				message:
+					"$240.00 exceeds the reimbursable limit ($100.00) for FOOD; $140.00 will not be reimbursed.",
+			}),
+		]);
+		expect(result.approvedAmount).toEqual({
+			base: moneyFromMajor(100, "USD"),
+			original: moneyFromMajor(100, "USD"),
+		});
+		expect(result.nonReimbursableAmount).toEqual({
+			base: moneyFromMajor(140, "USD"),
+			original: moneyFromMajor(140, "USD"),
+		});
+		// Only the approved part counts against the budget
+		expect(ledger.accounts()[0]?.spent).toEqual(moneyFromMajor(100, "USD"));
+	});
+
+	test("the budget rule checks the capped amount, not the full one", async () => {
+		const ledger = new BudgetLedger();
+		ledger.charge(
+			policy,
+			makeExpense(780),
+			employee,
+			moneyFromMajor(780, "USD"),
+		);
+
+		// 780 + 240 would exhaust the budget; 780 + 100 is below its warning
+		const result = await validateExpense(
+			makeExpense(240),
+			employee,
+			policy,
+			undefined,
+			asOf,
+			{ ledger },
+		);
+
+		expect(result.status).toBe(ExpenseStatus.PARTIALLY_APPROVED);
+		expect(result.alerts.map((alert) => alert.code)).toEqual([
+			"CATEGORY_LIMIT_CAPPED",
+		]);
+		expect(ledger.accounts()[0]?.spent).toEqual(moneyFromMajor(880, "USD"));
+	});
+
+	test("splits the original currency in proportion", async () => {
+		const result = await validateExpense(
+			makeExpense(190_000, "CLP"),
+			employee,
+			policy,
+			{ base: "USD", rates: { USD: 1, CLP: 950 } },
+			asOf,
+		);
+
+		expect(result.status).toBe(ExpenseStatus.PARTIALLY_APPROVED);
+		expect(result.approvedAmount).toEqual({
+			base: moneyFromMajor(100, "USD"),
+			original: moneyFromMajor(95_000, "CLP"),
+		});
+		expect(result.nonReimbursableAmount).toEqual({
+			base: moneyFromMajor(100, "USD"),
+			original: moneyFromMajor(95_000, "CLP"),
+		});
+	});
+
+	test("a stricter rule still wins over a partial approval", async () => {
+		const old: Expense = {
+			...makeExpense(240),
+			date: new Date("2024-12-01T00:00:00.000Z"),
+		};
+		const result = await validateExpense(
+			old,
+			employee,
+			policy,
+			undefined,
+			asOf,
+		);
+
+		expect(result.status).toBe(ExpenseStatus.REJECTED);
+		expect(result.approvedAmount).toBeUndefined();
+	});
+
+	test("approved expenses are reimbursed in full", async () => {
+		const result = await validateExpense(
+			makeExpense(80),
+			employee,
+			policy,
+			undefined,
+			asOf,
+		);
+
+		expect(result.status).toBe(ExpenseStatus.APPROVED);
+		expect(result.approvedAmount?.base).toEqual(moneyFromMajor(80, "USD"));
+		expect(result.nonReimbursableAmount?.base).toEqual(
+			moneyFromMajor(0, "USD"),
+		);
+	});
+
+	test("categories without the option keep the review thresholds", async () => {
+		const result = await validateExpense(
+			makeExpense(120, "USD", ExpenseCategory.LODGING),
+			employee,
+			policy,
+			undefined,
+			asOf,
+		);
+
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.approvedAmount).toBeUndefined();
+	});
+});
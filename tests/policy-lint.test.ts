@@ -0,0 +1,197 @@
+import { ExpenseCategory, ExpenseStatus } from "../src/domain/expense";
+import type { Policy, PolicyVersion } from "../src/domain/policy";
+import { createRuleRegistry } from "../src/engine/rule-registry";
+import {
+	assertPolicyLints,
+	formatLintIssue,
+	lintPolicy,
+} from "../src/policy/lint";
+import { PolicyValidationError } from "../src/policy/loader";
+
+const clean: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+	},
+	costCenterRules: [
+		{
+			costCenterId: "core_engineering",
+			forbiddenCategory: ExpenseCategory.FOOD,
+		},
+	],
+};
+
+describe("lintPolicy", () => {
+	test("finds nothing in a consistent policy", () => {
+		expect(lintPolicy(clean)).toEqual([]);
+	});
+
+	test("reports contradictory thresholds and currencies as errors", () => {
+		const issues = lintPolicy({
+			...clean,
+			baseCurrency: "ABC",
+			ageLimit: { pendingAfterDays: 90, rejectedAfterDays: 60 },
+			categoryLimits: {
+				[ExpenseCategory.FOOD]: { approvedUpTo: 200, pendingUpTo: 150 },
+				[ExpenseCategory.LODGING]: { approvedUpTo: -1, pendingUpTo: 10 },
+			},
+		});
+
+		expect(issues).toEqual([
+			{
+				severity: "error",
+				code: "UNSUPPORTED_CURRENCY",
+				path: "baseCurrency",
+				message: "'ABC' is not a supported ISO 4217 currency",
+			},
+			expect.objectContaining({
+				code: "AGE_LIMIT_ORDER",
+				path: "ageLimit.rejectedAfterDays",
+			}),
+			{
+				severity: "error",
+				code: "LIMIT_ORDER",
+				path: "categoryLimits.FOOD.pendingUpTo",
+				message: "must be >= approvedUpTo (150 < 200)",
+			},
+			expect.objectContaining({
+				code: "NEGATIVE_LIMIT",
+				path: "categoryLimits.LODGING.approvedUpTo",
+			}),
+		]);
+	});
+
+	test("warns about duplicate rules and limits that never apply", () => {
+		const issues = lintPolicy({
+			...clean,
+			costCenters: [
+				{ id: "core_engineering" },
+				{
+					id: "platform",
+					parent: "core_engineering",
+					categoryLimits: {
+						[ExpenseCategory.FOOD]: { approvedUpTo: 10, pendingUpTo: 20 },
+					},
+				},
+			],
+			costCenterRules: [
+				...clean.costCenterRules,
+				{
+					costCenterId: "core_engineering",
+					forbiddenCategory: ExpenseCategory.FOOD,
+				},
+				{
+					costCenterId: "core_sales",
+					forbiddenCategory: ExpenseCategory.OTHER,
+				},
+			],
+			overrides: [
+				{
+					id: "eng-food",
+					costCenterId: "core_engineering",
+					categoryLimits: {
+						[ExpenseCategory.FOOD]: { approvedUpTo: 50, pendingUpTo: 80 },
+					},
+				},
+			],
+		});
+
+		expect(issues.map(formatLintIssue)).toEqual([
+			"WARNING costCenterRules.1 repeats costCenterRules.0 (core_engineering may not expense FOOD) [DUPLICATE_COST_CENTER_RULE]",
+			"WARNING costCenterRules.2.costCenterId references cost center 'core_sales', which is not in costCenters [UNKNOWN_COST_CENTER]",
+			"WARNING costCenters.1.categoryLimits.FOOD never applies: cost center 'core_engineering' may not expense FOOD [FORBIDDEN_CATEGORY_LIMIT]",
+			"WARNING overrides.0.categoryLimits.FOOD never applies: cost center 'core_engineering' may not expense FOOD [FORBIDDEN_CATEGORY_LIMIT]",
+		]);
+	});
+
+	test("prefixes history paths with the version index", () => {
+		const versions: PolicyVersion[] = [
+			{ ...clean, id: "v1", effectiveFrom: new Date("2025-01-01") },
+			{
+				...clean,
+				id: "v2",
+				effectiveFrom: new Date("2025-06-01"),
+				budgets: [
+					{ id: "b", costCenterId: "x", period: "month", amount: 10 },
+					{ id: "b", costCenterId: "y", period: "month", amount: 10 },
+				],
+			},
+		];
+
+		expect(lintPolicy(versions)).toEqual([
+			{
+				severity: "error",
+				code: "DUPLICATE_ID",
+				path: "versions.1.budgets.1.id",
+				message: "duplicates the id of budgets.0",
+			},
+		]);
+	});
+
+	test("reports rules that are not registered", () => {
+		const policy: Policy = {
+			...clean,
+			rules: {
+				enabled: ["weekend-spend"],
+				disabled: ["budget"],
+				order: ["cost-center", "age-limits"],
+			},
+		};
+
+		expect(lintPolicy(policy).map(formatLintIssue)).toEqual([
+			"ERROR rules.enabled.0 references rule 'weekend-spend', which is not registered [UNKNOWN_RULE]",
+			"ERROR rules.order.1 references rule 'age-limits', which is not registered [UNKNOWN_RULE]",
+		]);
+
+		const registry = createRuleRegistry().register({
+			id: "weekend-spend",
+			description: "Weekend spending",
+			evaluate: () => ({ status: ExpenseStatus.APPROVED, alerts: [] }),
+		});
+		expect(lintPolicy(policy, registry).map((issue) => issue.path)).toEqual([
+			"rules.order.1",
+		]);
+	});
+
+	test("warns about escalations without an SLA", () => {
+		const issues = lintPolicy({
+			...clean,
+			approvals: {
+				steps: [{ id: "manager", approver: "manager", escalateTo: "director" }],
+				costCenters: [
+					{
+						costCenterId: "core_sales",
+						steps: [{ id: "ops", approver: "ops" }],
+					},
+				],
+			},
+			costCenters: [{ id: "core_engineering" }],
+		});
+
+		expect(issues.map(formatLintIssue)).toEqual([
+			"WARNING approvals.steps.0.escalateTo never applies without slaHours [UNUSED_ESCALATION]",
+			"WARNING approvals.costCenters.0.costCenterId references cost center 'core_sales', which is not in costCenters [UNKNOWN_COST_CENTER]",
+		]);
+	});
+});
+
+describe("assertPolicyLints", () => {
+	test("passes warnings on and throws on errors", () => {
+		const warnings: string[] = [];
+		const policy: Policy = {
+			...clean,
+			costCenterRules: [...clean.costCenterRules, ...clean.costCenterRules],
+		};
+		assertPolicyLints(policy, "p.json", (message) => warnings.push(message));
+		expect(warnings).toHaveLength(1);
+
+		expect(() =>
+			assertPolicyLints(
+				{ ...clean, baseCurrency: "ABC" },
+				"p.json",
+				() => undefined,
+			),
+		).toThrow(PolicyValidationError);
+	});
+});
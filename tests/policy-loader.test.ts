@@ -0,0 +1,210 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ExpenseCategory } from "../src/domain/expense";
+import {
+	loadPolicy,
+	loadPolicyFile,
+	PolicyValidationError,
+	parsePolicyDocument,
+} from "../src/policy/loader";
+
+function makeDocument(overrides?: Record<string, unknown>) {
+	return {
+		schemaVersion: 1,
+		baseCurrency: "USD",
+		ageLimit: { rejectedAfterDays: 60, pendingAfterDays: 30 },
+		categoryLimits: {
+			FOOD: { approvedUpTo: 100, pendingUpTo: 150 },
+		},
+		costCenterRules: [
+			{ costCenterId: "core_engineering", forbiddenCategory: "FOOD" },
+		],
+		...overrides,
+	};
+}
+
+function issuesOf(raw: unknown): string[] {
+	try {
+		parsePolicyDocument(raw, "test");
+	} catch (error) {
+		if (error instanceof PolicyValidationError) return error.issues;
+		throw error;
+	}
+	throw new Error("expected the policy to be rejected");
+}
+
+describe("policy loader", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "policies-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test("parses a valid document into a Policy without the schemaVersion", () => {
+		const policy = parsePolicyDocument(makeDocument(), "test");
+		expect(policy).not.toHaveProperty("schemaVersion");
+		expect(policy).toMatchObject({
+			categoryLimits: {
+				[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+			},
+		});
+	});
+
+	test("reports precise paths for inconsistent limits", () => {
+		const issues = issuesOf(
+			makeDocument({
+				ageLimit: { rejectedAfterDays: 10, pendingAfterDays: 30 },
+				categoryLimits: { FOOD: { approvedUpTo: 200, pendingUpTo: 150 } },
+			}),
+		);
+		expect(issues).toContain(
+			"categoryLimits.FOOD.pendingUpTo must be >= approvedUpTo",
+		);
+		expect(issues).toContain(
+			"ageLimit.rejectedAfterDays must be >= pendingAfterDays",
+		);
+	});
+
+	test("rejects unknown categories, bad currencies and unknown keys", () => {
+		const issues = issuesOf(
+			makeDocument({
+				baseCurrency: "usd",
+				categoryLimits: { DRINKS: { approvedUpTo: 1, pendingUpTo: 2 } },
+				extra: true,
+			}),
+		);
+		expect(issues).toContain("baseCurrency must be a 3-letter ISO 4217 code");
+		expect(issues).toContain("categoryLimits.DRINKS is not a valid key");
+		expect(issues).toContain("(root) has unknown keys: extra");
+	});
+
+	test("validates cumulative limits", () => {
+		const limit = {
+			id: "weekly-food",
+			scope: "employee",
+			period: "rolling",
+			approvedUpTo: 300,
+			pendingUpTo: 200,
+		};
+		expect(
+			issuesOf(
+				makeDocument({ cumulativeLimits: [{ ...limit, scope: "team" }] }),
+			),
+		).toEqual(["cumulativeLimits.0.scope must be one of employee, costCenter"]);
+		expect(issuesOf(makeDocument({ cumulativeLimits: [limit] }))).toEqual([
+			"cumulativeLimits.0.pendingUpTo must be >= approvedUpTo",
+			'cumulativeLimits.0.rollingDays is required with period "rolling" and only allowed with it',
+		]);
+	});
+
+	test("loads named JSON and YAML policies from a directory", () => {
+		fs.writeFileSync(
+			path.join(dir, "json-policy.json"),
+			JSON.stringify(makeDocument()),
+		);
+		fs.writeFileSync(
+			path.join(dir, "yaml-policy.yaml"),
+			[
+				"schemaVersion: 1",
+				"baseCurrency: CLP",
+				"ageLimit:",
+				"  rejectedAfterDays: 90",
+				"  pendingAfterDays: 45",
+				"categoryLimits:",
+				"  LODGING: { approvedUpTo: 100000, pendingUpTo: 150000 }",
+				"costCenterRules: []",
+			].join("\n"),
+		);
+
+		expect(loadPolicy("json-policy", dir)).toMatchObject({
+			baseCurrency: "USD",
+		});
+		expect(loadPolicy("yaml-policy", dir)).toMatchObject({
+			baseCurrency: "CLP",
+			categoryLimits: {
+				[ExpenseCategory.LODGING]: {
+					approvedUpTo: 100000,
+					pendingUpTo: 150000,
+				},
+			},
+		});
+	});
+
+	test("fails with a clear message when the named policy does not exist", () => {
+		expect(() => loadPolicy("missing", dir)).toThrow(
+			/Policy 'missing' not found/,
+		);
+	});
+
+	test("includes the file path in validation errors", () => {
+		const filePath = path.join(dir, "broken.json");
+		fs.writeFileSync(
+			filePath,
+			JSON.stringify(makeDocument({ schemaVersion: 2 })),
+		);
+		expect(() => loadPolicyFile(filePath)).toThrow(
+			`Invalid policy in ${filePath}`,
+		);
+	});
+
+	test("parses a versioned document into a policy history", () => {
+		const { schemaVersion: _v, ...policy } = makeDocument();
+		const history = parsePolicyDocument(
+			{
+				schemaVersion: 1,
+				versions: [
+					{
+						...policy,
+						id: "2025-Q1",
+						effectiveFrom: "2025-01-01",
+						effectiveTo: "2025-04-01",
+					},
+					{ ...policy, id: "2025-Q2", effectiveFrom: "2025-04-01" },
+				],
+			},
+			"test",
+		);
+		expect(Array.isArray(history)).toBe(true);
+		expect(history).toHaveLength(2);
+		expect(history).toEqual([
+			expect.objectContaining({
+				id: "2025-Q1",
+				effectiveFrom: new Date("2025-01-01T00:00:00.000Z"),
+				effectiveTo: new Date("2025-04-01T00:00:00.000Z"),
+			}),
+			expect.objectContaining({ id: "2025-Q2" }),
+		]);
+	});
+
+	test("rejects overlapping versions and duplicate ids", () => {
+		const { schemaVersion: _v, ...policy } = makeDocument();
+		const issues = issuesOf({
+			schemaVersion: 1,
+			versions: [
+				{ ...policy, id: "a", effectiveFrom: "2025-01-01" },
+				{ ...policy, id: "a", effectiveFrom: "2025-03-01" },
+				{
+					...policy,
+					id: "c",
+					effectiveFrom: "2025-06-01",
+					effectiveTo: "2025-05-01",
+				},
+			],
+		});
+		expect(issues).toContain("versions.1.id duplicates the id of versions.0");
+		expect(issues).toContain("versions.1.effectiveFrom overlaps version 'a'");
+		expect(issues).toContain(
+			"versions.2.effectiveTo must be after effectiveFrom",
+		);
+	});
+
+	test("the bundled default policy is valid", () => {
+		const policy = loadPolicy(path.join(__dirname, "../policies/default.json"));
+		expect(policy).toMatchObject({ baseCurrency: "USD" });
+	});
+});
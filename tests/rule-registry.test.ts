@@ -0,0 +1,189 @@
+import type { Employee } from "../src/domain/employee";
+import {
+	type Expense,
+	ExpenseCategory,
+	ExpenseStatus,
+} from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import { createAlert } from "../src/engine/alerts";
+import { validateExpense } from "../src/engine/expense-validator";
+import type { Rule } from "../src/engine/rule";
+import { createRuleRegistry, RuleRegistry } from "../src/engine/rule-registry";
+import { moneyFromMajor } from "../src/utils/money";
+
+function makeRule(id: string, overrides?: Partial<Rule>): Rule {
+	return {
+		id,
+		description: `${id} rule`,
+		evaluate: () => ({ status: ExpenseStatus.APPROVED, alerts: [] }),
+		...overrides,
+	};
+}
+
+function makePolicy(overrides?: Partial<Policy>): Policy {
+	return {
+		baseCurrency: "USD",
+		ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+		categoryLimits: {},
+		costCenterRules: [],
+		...overrides,
+	};
+}
+
+const employee: Employee = {
+	id: "e_1",
+	firstName: "Ada",
+	lastName: "Lovelace",
+	costCenterId: "core_engineering",
+};
+
+const asOf = new Date("2025-01-31T00:00:00.000Z");
+
+function makeExpense(overrides?: Partial<Expense>): Expense {
+	return {
+		id: "g_1",
+		amount: moneyFromMajor(10, "USD"),
+		category: ExpenseCategory.FOOD,
+		date: new Date("2025-01-30T00:00:00.000Z"),
+		...overrides,
+	};
+}
+
+describe("RuleRegistry", () => {
+	test("built-in rules are registered in their documented order", () => {
+		const ids = createRuleRegistry()
+			.list()
+			.map((r) => r.id);
+		expect(ids).toEqual([
+			"age-limit",
+			"category-limit",
+			"cost-center",
+			"cumulative-limit",
+			"budget",
+		]);
+	});
+
+	test("rejects duplicate ids", () => {
+		const registry = new RuleRegistry().register(makeRule("a"));
+		expect(() => registry.register(makeRule("a"))).toThrow(
+			"Rule 'a' is already registered",
+		);
+	});
+
+	test("can insert a rule before another one", () => {
+		const registry = new RuleRegistry()
+			.register(makeRule("a"))
+			.register(makeRule("b"))
+			.register(makeRule("c"), { before: "b" });
+		expect(registry.list().map((r) => r.id)).toEqual(["a", "c", "b"]);
+	});
+
+	test("resolve applies enabled, disabled and order settings", () => {
+		const registry = new RuleRegistry()
+			.register(makeRule("a"))
+			.register(makeRule("b"))
+			.register(makeRule("opt-in", { enabledByDefault: false }))
+			.register(makeRule("c"));
+
+		expect(registry.resolve().map((r) => r.id)).toEqual(["a", "b", "c"]);
+		expect(
+			registry
+				.resolve({ enabled: ["opt-in"], disabled: ["a"], order: ["c"] })
+				.map((r) => r.id),
+		).toEqual(["c", "b", "opt-in"]);
+	});
+
+	test("resolve fails on unknown rule ids", () => {
+		expect(() => new RuleRegistry().resolve({ disabled: ["nope"] })).toThrow(
+			"Policy references unknown rule 'nope'",
+		);
+	});
+});
+
+describe("validateExpense with custom rules", () => {
+	test("custom rules take part in the most-restrictive merge", async () => {
+		const registry = createRuleRegistry().register(
+			makeRule("weekend", {
+				evaluate: (ctx) =>
+					ctx.expense.date.getUTCDay() === 0
+						? {
+								status: ExpenseStatus.PENDING,
+								alerts: [{ code: "WEEKEND", message: "Sunday expense." }],
+							}
+						: { status: ExpenseStatus.APPROVED, alerts: [] },
+			}),
+		);
+		const expense = makeExpense({
+			category: ExpenseCategory.OTHER,
+			date: new Date("2025-01-26T00:00:00.000Z"), // a Sunday
+		});
+
+		const result = await validateExpense(
+			expense,
+			employee,
+			makePolicy(),
+			undefined,
+			asOf,
+			{ registry },
+		);
+		expect(result.status).toBe(ExpenseStatus.PENDING);
+		expect(result.alerts.map((a) => a.code)).toEqual(["WEEKEND"]);
+	});
+
+	test("a policy can disable a built-in rule", async () => {
+		const policy = makePolicy({
+			costCenterRules: [
+				{
+					costCenterId: "core_engineering",
+					forbiddenCategory: ExpenseCategory.FOOD,
+				},
+			],
+		});
+
+		const enforced = await validateExpense(
+			makeExpense(),
+			employee,
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(enforced.status).toBe(ExpenseStatus.REJECTED);
+
+		const disabled = await validateExpense(
+			makeExpense(),
+			employee,
+			{ ...policy, rules: { disabled: ["cost-center"] } },
+			undefined,
+			asOf,
+		);
+		expect(disabled.status).toBe(ExpenseStatus.APPROVED);
+		expect(disabled.alerts).toEqual([]);
+	});
+
+	test("alerts follow the policy's rule order", async () => {
+		const policy = makePolicy({
+			categoryLimits: {
+				[ExpenseCategory.FOOD]: { approvedUpTo: 5, pendingUpTo: 50 },
+			},
+			costCenterRules: [
+				{
+					costCenterId: "core_engineering",
+					forbiddenCategory: ExpenseCategory.FOOD,
+				},
+			],
+			rules: { order: ["cost-center"] },
+		});
+
+		const result = await validateExpense(
+			makeExpense(),
+			employee,
+			policy,
+			undefined,
+			asOf,
+		);
+		expect(result.alerts.map((a) => a.code)).toEqual([
+			"COST_CENTER_POLICY",
+			"CATEGORY_LIMIT",
+		]);
+	});
+});
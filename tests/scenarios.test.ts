@@ -0,0 +1,170 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ExpenseCategory } from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import { loadPolicy } from "../src/policy/loader";
+import {
+	loadScenarioSuite,
+	parseScenarioSuite,
+	runScenarioSuite,
+} from "../src/scenarios/runner";
+
+const policy: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: { approvedUpTo: 80, pendingUpTo: 120 },
+	},
+	costCenterRules: [],
+};
+
+describe("scenario suites", () => {
+	test("reports status and alert mismatches as diffs", async () => {
+		const suite = parseScenarioSuite(
+			{
+				schemaVersion: 1,
+				defaults: {
+					asOf: "2025-02-20",
+					employee: { id: "e_1", costCenterId: "core_sales" },
+				},
+				scenarios: [
+					{
+						name: "small lunch",
+						expense: {
+							amount: 50,
+							currency: "USD",
+							category: "FOOD",
+							date: "2025-02-10",
+						},
+						expect: { status: "APPROVED", alerts: [] },
+					},
+					{
+						name: "team lunch",
+						expense: {
+							amount: 100,
+							currency: "USD",
+							category: "FOOD",
+							date: "2025-02-10",
+						},
+						expect: { status: "APPROVED", alerts: [] },
+					},
+					{
+						name: "lunch abroad without rates",
+						expense: {
+							amount: 5000,
+							currency: "CLP",
+							category: "FOOD",
+							date: "2025-02-10",
+						},
+						expect: { status: "APPROVED" },
+					},
+				],
+			},
+			"inline",
+		);
+
+		const results = await runScenarioSuite(suite, policy);
+
+		expect(
+			results.map(({ name, passed, diffs }) => ({ name, passed, diffs })),
+		).toEqual([
+			{ name: "small lunch", passed: true, diffs: [] },
+			{
+				name: "team lunch",
+				passed: false,
+				diffs: [
+					"status: expected APPROVED, got PENDING",
+					"alerts: expected [], got [CATEGORY_LIMIT]",
+				],
+			},
+			{
+				name: "lunch abroad without rates",
+				passed: false,
+				diffs: ["error: Exchange rates are required to convert CLP -> USD"],
+			},
+		]);
+	});
+
+	test("rejects scenarios missing an employee or asOf", () => {
+		expect(() =>
+			parseScenarioSuite(
+				{
+					schemaVersion: 1,
+					scenarios: [
+						{
+							name: "no context",
+							expense: {
+								amount: 1,
+								currency: "USD",
+								category: "FOOD",
+								date: "2025-02-10",
+							},
+							expect: { status: "APPROVED" },
+						},
+					],
+				},
+				"inline",
+			),
+		).toThrow(
+			[
+				"Invalid scenario suite in inline:",
+				"  - scenarios.0.employee.id is required here or in defaults.employee",
+				"  - scenarios.0.employee.costCenterId is required here or in defaults.employee",
+				"  - scenarios.0.asOf is required here or in defaults",
+			].join("\n"),
+		);
+	});
+
+	test("resolves a relative policy path against the suite's directory", () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "scenarios-"));
+		try {
+			const suitePath = path.join(dir, "suites", "food.yaml");
+			fs.mkdirSync(path.dirname(suitePath));
+			const write = (policy: string) =>
+				fs.writeFileSync(
+					suitePath,
+					JSON.stringify({
+						schemaVersion: 1,
+						policy,
+						scenarios: [
+							{
+								name: "lunch",
+								asOf: "2025-02-20",
+								employee: { id: "e_1", costCenterId: "core_sales" },
+								expense: {
+									amount: 50,
+									currency: "USD",
+									category: "FOOD",
+									date: "2025-02-10",
+								},
+								expect: { status: "APPROVED" },
+							},
+						],
+					}),
+				);
+
+			write("../policies/strict.json");
+			expect(loadScenarioSuite(suitePath).policy).toBe(
+				path.join(dir, "policies", "strict.json"),
+			);
+			write("strict");
+			expect(loadScenarioSuite(suitePath).policy).toBe("strict");
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test("the bundled suite passes against the default policy", async () => {
+		const suite = loadScenarioSuite(
+			path.join(__dirname, "..", "scenarios", "default.yaml"),
+		);
+		const results = await runScenarioSuite(
+			suite,
+			loadPolicy("default", path.join(__dirname, "..", "policies")),
+		);
+
+		expect(results.filter((r) => !r.passed)).toEqual([]);
+		expect(results).toHaveLength(7);
+	});
+});
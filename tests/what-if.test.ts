@@ -0,0 +1,133 @@
+import { simulatePolicies } from "../src/batch/what-if";
+import type { Employee } from "../src/domain/employee";
+import {
+	type Expense,
+	ExpenseCategory,
+	ExpenseStatus,
+} from "../src/domain/expense";
+import type { Policy } from "../src/domain/policy";
+import { FixedRatesProvider } from "../src/fx/fixed-rates-provider";
+import { moneyFromMajor } from "../src/utils/money";
+
+const asOf = new Date("2025-02-20T00:00:00.000Z");
+const rates = new FixedRatesProvider({ base: "USD", rates: { CLP: 950 } });
+
+const current: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: { approvedUpTo: 100, pendingUpTo: 150 },
+	},
+	costCenterRules: [],
+};
+
+const candidate: Policy = {
+	...current,
+	categoryLimits: {
+		[ExpenseCategory.FOOD]: { approvedUpTo: 80, pendingUpTo: 120 },
+	},
+};
+
+function employee(id: string, costCenterId: string): Employee {
+	return { id, firstName: "Ada", lastName: "Lovelace", costCenterId };
+}
+
+function expense(id: string, amount: number, currency = "USD"): Expense {
+	return {
+		id,
+		amount: moneyFromMajor(amount, currency),
+		category: ExpenseCategory.FOOD,
+		date: new Date("2025-02-10T00:00:00.000Z"),
+	};
+}
+
+describe("simulatePolicies", () => {
+	test("reports transitions, affected groups and the approved spend change", async () => {
+		const report = await simulatePolicies(
+			[
+				{ expense: expense("g_1", 50), employee: employee("e_1", "sales") },
+				{ expense: expense("g_2", 90), employee: employee("e_1", "sales") },
+				{ expense: expense("g_3", 95), employee: employee("e_2", "ops") },
+				{ expense: expense("g_4", 130), employee: employee("e_2", "ops") },
+				// 85 USD
+				{
+					expense: expense("g_5", 80_750, "CLP"),
+					employee: employee("e_3", "ops"),
+				},
+			],
+			current,
+			candidate,
+			rates,
+			asOf,
+		);
+
+		expect(report.expenses).toBe(5);
+		expect(report.transitions).toEqual([
+			{ from: ExpenseStatus.APPROVED, to: ExpenseStatus.PENDING, count: 3 },
+			{ from: ExpenseStatus.PENDING, to: ExpenseStatus.REJECTED, count: 1 },
+		]);
+		expect(report.changes.map((change) => change.expenseId)).toEqual([
+			"g_2",
+			"g_3",
+			"g_4",
+			"g_5",
+		]);
+		expect(report.changes[0]).toEqual({
+			expenseId: "g_2",
+			employeeId: "e_1",
+			costCenterId: "sales",
+			current: ExpenseStatus.APPROVED,
+			candidate: ExpenseStatus.PENDING,
+			currentApproved: moneyFromMajor(90, "USD"),
+		});
+		expect(report.employees).toEqual([
+			{ id: "e_2", changed: 2, approvedDelta: [moneyFromMajor(-95, "USD")] },
+			{ id: "e_1", changed: 1, approvedDelta: [moneyFromMajor(-90, "USD")] },
+			{ id: "e_3", changed: 1, approvedDelta: [moneyFromMajor(-85, "USD")] },
+		]);
+		expect(report.costCenters).toEqual([
+			{ id: "ops", changed: 3, approvedDelta: [moneyFromMajor(-180, "USD")] },
+			{ id: "sales", changed: 1, approvedDelta: [moneyFromMajor(-90, "USD")] },
+		]);
+		expect(report.approvedSpend).toEqual([
+			{
+				current: moneyFromMajor(320, "USD"),
+				candidate: moneyFromMajor(50, "USD"),
+				delta: moneyFromMajor(-270, "USD"),
+			},
+		]);
+	});
+
+	test("runs each policy with its own spending history", async () => {
+		const withCumulative: Policy = {
+			...current,
+			cumulativeLimits: [
+				{
+					id: "daily-food",
+					scope: "employee",
+					period: "day",
+					approvedUpTo: 100,
+					pendingUpTo: 1000,
+				},
+			],
+		};
+		const report = await simulatePolicies(
+			[
+				{ expense: expense("g_1", 60), employee: employee("e_1", "sales") },
+				{ expense: expense("g_2", 60), employee: employee("e_1", "sales") },
+			],
+			current,
+			withCumulative,
+			rates,
+			asOf,
+		);
+
+		expect(report.changes).toEqual([
+			expect.objectContaining({
+				expenseId: "g_2",
+				current: ExpenseStatus.APPROVED,
+				candidate: ExpenseStatus.PENDING,
+			}),
+		]);
+	});
+});
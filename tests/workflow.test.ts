@@ -0,0 +1,286 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Employee } from "../src/domain/employee";
+import { ExpenseStatus } from "../src/domain/expense";
+import type { Policy, PolicyVersion } from "../src/domain/policy";
+import type { ValidationResult } from "../src/domain/result";
+import { moneyFromMajor } from "../src/utils/money";
+import { FileWorkflowStore } from "../src/workflow/store";
+import {
+	applyWorkflowAction,
+	escalateOverdue,
+	isOverdue,
+	planApprovalChain,
+	startWorkflow,
+	WorkflowError,
+} from "../src/workflow/workflow";
+
+const start = new Date("2025-03-03T09:00:00.000Z");
+const hours = (n: number) => new Date(start.getTime() + n * 3_600_000);
+
+const policy: Policy = {
+	baseCurrency: "USD",
+	ageLimit: { pendingAfterDays: 30, rejectedAfterDays: 60 },
+	categoryLimits: {},
+	costCenterRules: [],
+	costCenters: [{ id: "sales" }, { id: "sales_latam", parent: "sales" }],
+	approvals: {
+		steps: [
+			{
+				id: "manager",
+				approver: "manager",
+				slaHours: 24,
+				escalateTo: "director",
+			},
+			{ id: "finance", approver: "finance", above: 500, slaHours: 48 },
+		],
+		costCenters: [
+			{
+				costCenterId: "sales",
+				steps: [{ id: "sales-ops", approver: "sales-ops" }],
+			},
+		],
+	},
+};
+
+const employee: Employee = {
+	id: "e_1",
+	firstName: "Ada",
+	lastName: "Lovelace",
+	costCenterId: "core_engineering",
+};
+
+function pending(amount?: number): ValidationResult {
+	return {
+		expenseId: "g_1",
+		status: ExpenseStatus.PENDING,
+		alerts: [],
+		...(amount !== undefined && {
+			checkedAmount: moneyFromMajor(amount, "USD"),
+		}),
+	};
+}
+
+const manager = { id: "m_1", role: "manager" };
+const finance = { id: "f_1", role: "finance" };
+
+describe("planApprovalChain", () => {
+	test("adds steps whose threshold the amount exceeds", () => {
+		const ids = (amount?: number) =>
+			planApprovalChain(
+				policy,
+				"core_engineering",
+				amount === undefined ? undefined : moneyFromMajor(amount, "USD"),
+			).map((step) => step.id);
+
+		expect(ids(500)).toEqual(["manager"]);
+		expect(ids(500.01)).toEqual(["manager", "finance"]);
+		// Unconverted amounts get every step
+		expect(ids()).toEqual(["manager", "finance"]);
+	});
+
+	test("uses the nearest cost center chain, else a single manager step", () => {
+		expect(
+			planApprovalChain(policy, "sales_latam", undefined).map((s) => s.id),
+		).toEqual(["sales-ops"]);
+		expect(
+			planApprovalChain(
+				{ ...policy, approvals: undefined },
+				"sales",
+				undefined,
+			),
+		).toEqual([{ id: "manager", approver: "manager" }]);
+	});
+});
+
+describe("approval workflow", () => {
+	test("goes through manager and finance before approval", () => {
+		let workflow = startWorkflow(pending(800), employee, policy, start);
+		expect(workflow).toMatchObject({
+			state: "IN_REVIEW",
+			assignee: "manager",
+			dueAt: hours(24),
+		});
+
+		workflow = applyWorkflowAction(
+			workflow,
+			{ type: "approve", actor: manager },
+			hours(2),
+		);
+		expect(workflow).toMatchObject({
+			state: "IN_REVIEW",
+			currentStep: 1,
+			assignee: "finance",
+			dueAt: hours(50),
+		});
+
+		workflow = applyWorkflowAction(
+			workflow,
+			{ type: "approve", actor: finance, comment: "ok" },
+			hours(3),
+		);
+		expect(workflow.state).toBe("APPROVED");
+		expect(workflow.assignee).toBeUndefined();
+		expect(workflow.history.map((event) => event.type)).toEqual([
+			"STARTED",
+			"APPROVED",
+			"APPROVED",
+		]);
+	});
+
+	test("pauses the SLA while waiting for information", () => {
+		let workflow = startWorkflow(pending(100), employee, policy, start);
+		workflow = applyWorkflowAction(
+			workflow,
+			{ type: "request-info", actor: manager, comment: "Receipt?" },
+			hours(1),
+		);
+		expect(workflow.state).toBe("INFO_REQUESTED");
+		expect(workflow.dueAt).toBeUndefined();
+		expect(isOverdue(workflow, hours(100))).toBe(false);
+		expect(() =>
+			applyWorkflowAction(
+				workflow,
+				{ type: "approve", actor: manager },
+				hours(2),
+			),
+		).toThrow("waiting for e_1 to provide information");
+
+		workflow = applyWorkflowAction(
+			workflow,
+			{
+				type: "provide-info",
+				actor: { id: "e_1", role: "employee" },
+				comment: "Attached",
+			},
+			hours(10),
+		);
+		expect(workflow).toMatchObject({
+			state: "IN_REVIEW",
+			assignee: "manager",
+			dueAt: hours(34),
+		});
+	});
+
+	test("refuses actions by the wrong role, the employee, or after settling", () => {
+		const workflow = startWorkflow(pending(100), employee, policy, start);
+		expect(() =>
+			applyWorkflowAction(
+				workflow,
+				{ type: "approve", actor: finance },
+				hours(1),
+			),
+		).toThrow(
+			new WorkflowError(
+				"g_1",
+				"step 'manager' is assigned to manager, not finance",
+			),
+		);
+		expect(() =>
+			applyWorkflowAction(
+				workflow,
+				{ type: "approve", actor: { id: "e_1", role: "manager" } },
+				hours(1),
+			),
+		).toThrow("e_1 may not review their own expense");
+		expect(() =>
+			applyWorkflowAction(
+				workflow,
+				{ type: "reject", actor: manager },
+				hours(1),
+			),
+		).toThrow("reject requires a comment");
+
+		const rejected = applyWorkflowAction(
+			workflow,
+			{ type: "reject", actor: manager, comment: "Personal expense" },
+			hours(1),
+		);
+		expect(rejected.state).toBe("REJECTED");
+		expect(() =>
+			applyWorkflowAction(
+				rejected,
+				{ type: "approve", actor: manager },
+				hours(2),
+			),
+		).toThrow("already REJECTED");
+	});
+
+	test("escalates once when the SLA runs out", () => {
+		const workflow = startWorkflow(pending(100), employee, policy, start);
+		expect(escalateOverdue(workflow, hours(23))).toBe(workflow);
+
+		const escalated = escalateOverdue(workflow, hours(24));
+		expect(escalated).toMatchObject({
+			assignee: "director",
+			dueAt: hours(48),
+		});
+		expect(escalated.history.at(-1)).toEqual({
+			at: hours(24),
+			type: "ESCALATED",
+			stepId: "manager",
+			assignee: "director",
+		});
+		expect(escalateOverdue(escalated, hours(100))).toBe(escalated);
+
+		const approved = applyWorkflowAction(
+			escalated,
+			{ type: "approve", actor: { id: "d_1", role: "director" } },
+			hours(25),
+		);
+		expect(approved.state).toBe("APPROVED");
+	});
+
+	test("takes the chain from the version the expense was validated under", () => {
+		const versions: PolicyVersion[] = [
+			{
+				...policy,
+				id: "v1",
+				effectiveFrom: new Date("2025-01-01"),
+				approvals: { steps: [{ id: "lead", approver: "team-lead" }] },
+			},
+			{ ...policy, id: "v2", effectiveFrom: new Date("2025-06-01") },
+		];
+		const workflow = startWorkflow(
+			{ ...pending(100), policyVersionId: "v1" },
+			employee,
+			versions,
+			start,
+		);
+		expect(workflow.policyVersionId).toBe("v1");
+		expect(workflow.assignee).toBe("team-lead");
+	});
+
+	test("only starts for PENDING results", () => {
+		expect(() =>
+			startWorkflow(
+				{ ...pending(100), status: ExpenseStatus.APPROVED },
+				employee,
+				policy,
+				start,
+			),
+		).toThrow("Only PENDING expenses go to review; g_1 is APPROVED");
+	});
+});
+
+describe("FileWorkflowStore", () => {
+	test("keeps each workflow with its history across instances", () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "workflows-"));
+		try {
+			const workflow = applyWorkflowAction(
+				startWorkflow(pending(800), employee, policy, start),
+				{ type: "approve", actor: manager },
+				hours(1),
+			);
+			new FileWorkflowStore(dir).save(workflow);
+
+			const store = new FileWorkflowStore(dir);
+			expect(store.get("g_1")).toEqual(workflow);
+			expect(store.get("g_2")).toBeUndefined();
+			expect(store.list()).toEqual([workflow]);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});